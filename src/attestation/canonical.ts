@@ -0,0 +1,58 @@
+// Canonical serialization and encoding helpers for signed payloads
+
+/**
+ * Deterministic JSON: object keys sorted by UTF-16 code units, no whitespace,
+ * undefined properties dropped and Dates as ISO strings
+ * The same value always yields the same bytes, whatever the key order
+ */
+export function canonicalize(value: unknown): string {
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => canonicalize(item === undefined ? null : item)).join(',')}]`;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    const entries = Object.keys(record)
+      .filter(key => record[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalize(record[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  // Non-finite numbers become null, as in JSON.stringify
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Encode bytes as unpadded base64url
+ */
+export function toBase64Url(bytes: ArrayBuffer | Uint8Array): string {
+  const view = bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes);
+  let binary = '';
+  for (const byte of view) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url
+ */
+export function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Hex-encoded SHA-256 digest
+ */
+export async function sha256Hex(data: BufferSource): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
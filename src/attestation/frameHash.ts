@@ -0,0 +1,26 @@
+// Video frame fingerprints embedded in attestations
+
+import { sha256Hex } from './canonical';
+
+// Frames are downscaled first so hashing stays cheap
+const HASH_WIDTH = 64;
+const HASH_HEIGHT = 48;
+
+/**
+ * SHA-256 of a downscaled copy of the current video frame, or null if unavailable
+ */
+export async function hashVideoFrame(video: HTMLVideoElement): Promise<string | null> {
+  if (video.videoWidth === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = HASH_WIDTH;
+  canvas.height = HASH_HEIGHT;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, HASH_WIDTH, HASH_HEIGHT);
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT);
+
+  return sha256Hex(data);
+}
@@ -0,0 +1,7 @@
+// Barrel export for result attestation
+
+export * from './types';
+export * from './canonical';
+export * from './keys';
+export * from './sign';
+export * from './frameHash';
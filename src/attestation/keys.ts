@@ -0,0 +1,41 @@
+// Per-session ECDSA keys for result attestation
+
+import { canonicalize, toBase64Url } from './canonical';
+
+const KEY_ALGORITHM: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+
+/**
+ * Generate a session key pair; the private key cannot be exported
+ */
+export function createAttestationKey(): Promise<CryptoKeyPair> {
+  return crypto.subtle.generateKey(KEY_ALGORITHM, false, ['sign', 'verify']);
+}
+
+/**
+ * Export the public key as a minimal JWK (kty, crv, x, y)
+ */
+export async function exportPublicKey(publicKey: CryptoKey): Promise<JsonWebKey> {
+  const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', publicKey);
+  return { kty, crv, x, y };
+}
+
+/**
+ * Import a public JWK for signature verification
+ */
+export function importPublicKey(jwk: JsonWebKey): Promise<CryptoKey> {
+  const { kty, crv, x, y } = jwk;
+  return crypto.subtle.importKey('jwk', { kty, crv, x, y }, KEY_ALGORITHM, true, ['verify']);
+}
+
+/**
+ * RFC 7638 JWK thumbprint - what a backend stores to bind a key to a challenge
+ */
+export async function getKeyThumbprint(jwk: JsonWebKey): Promise<string> {
+  // Required members only, in lexicographic order
+  const { crv, kty, x, y } = jwk;
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(canonicalize({ crv, kty, x, y }))
+  );
+  return toBase64Url(digest);
+}
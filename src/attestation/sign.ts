@@ -0,0 +1,73 @@
+// Client-side signing of liveness results
+
+import type { LivenessResult } from '@/types/liveness';
+import { canonicalize, sha256Hex, toBase64Url } from './canonical';
+import { exportPublicKey, getKeyThumbprint } from './keys';
+import { ATTESTATION_VERSION, AttestationPayload, LivenessAttestation } from './types';
+
+export const SIGNATURE_ALGORITHM: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+/**
+ * Build the signed payload from a liveness result
+ */
+export function createAttestationPayload(
+  result: LivenessResult,
+  keyThumbprint: string,
+  frameHashes: string[] = [],
+  bestFrameHash: string | null = null
+): AttestationPayload {
+  return {
+    version: ATTESTATION_VERSION,
+    nonce: result.challengeNonce,
+    keyThumbprint,
+    timestamp: result.timestamp.getTime(),
+    steps: result.stepsCompleted,
+    stepTimings: result.stepTimings,
+    metricsSummary: result.metricsSummary,
+    frameHashes,
+    bestFrameHash,
+    deviceInfo: result.deviceInfo,
+    antiSpoof: result.antiSpoof
+      ? {
+          score: result.antiSpoof.score,
+          threshold: result.antiSpoof.threshold,
+          isSpoof: result.antiSpoof.isSpoof,
+          vetoedBy: result.antiSpoof.vetoedBy,
+        }
+      : null,
+    cameraTrust: result.cameraTrust?.level ?? null,
+  };
+}
+
+/**
+ * Sign a liveness result with the session key
+ */
+export async function signLivenessAttestation(
+  result: LivenessResult,
+  keyPair: CryptoKeyPair,
+  frameHashes: string[] = []
+): Promise<LivenessAttestation> {
+  const publicKey = await exportPublicKey(keyPair.publicKey);
+  const bestFrameHash = result.bestFrame
+    ? await sha256Hex(await result.bestFrame.blob.arrayBuffer())
+    : null;
+  const payload = createAttestationPayload(
+    result,
+    await getKeyThumbprint(publicKey),
+    frameHashes,
+    bestFrameHash
+  );
+
+  const signature = await crypto.subtle.sign(
+    SIGNATURE_ALGORITHM,
+    keyPair.privateKey,
+    new TextEncoder().encode(canonicalize(payload))
+  );
+
+  return {
+    algorithm: 'ES256',
+    payload,
+    publicKey,
+    signature: toBase64Url(signature),
+  };
+}
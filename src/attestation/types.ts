@@ -0,0 +1,33 @@
+// Attestation types shared by the signing client and the verifying backend
+
+import type { LivenessResult, LivenessStep, StepTiming } from '@/types/liveness';
+import type { SpoofVerdict } from '@/detectors';
+import type { CameraTrustLevel } from '@/utils/cameraTrust';
+
+export const ATTESTATION_VERSION = 2;
+
+// The parts of the anti-spoof verdict a backend decides on
+export type AttestedSpoofVerdict = Pick<SpoofVerdict, 'score' | 'threshold' | 'isSpoof' | 'vetoedBy'>;
+
+// Everything the signature covers, serialized with canonicalize()
+export interface AttestationPayload {
+  version: number;
+  nonce: string | null;       // Challenge nonce, null for locally shuffled sessions
+  keyThumbprint: string;      // RFC 7638 thumbprint of the signing key
+  timestamp: number;          // Epoch ms when the session completed
+  steps: LivenessStep[];
+  stepTimings: StepTiming[];
+  metricsSummary: LivenessResult['metricsSummary'];
+  frameHashes: string[];      // SHA-256 of a video frame captured at each step
+  bestFrameHash: string | null; // SHA-256 of the best-frame JPEG, binding the selfie to the session
+  deviceInfo: LivenessResult['deviceInfo'];
+  antiSpoof: AttestedSpoofVerdict | null; // Fused anti-spoof verdict at completion
+  cameraTrust: CameraTrustLevel | null;   // Camera assessment, null when the camera detector is off
+}
+
+export interface LivenessAttestation {
+  algorithm: 'ES256';         // ECDSA P-256 with SHA-256
+  payload: AttestationPayload;
+  publicKey: JsonWebKey;      // Session public key (EC P-256, x/y only)
+  signature: string;          // base64url, IEEE P1363 (r || s) as produced by WebCrypto
+}
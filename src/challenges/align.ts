@@ -0,0 +1,59 @@
+// ALIGN challenge - hold the face inside the guide box and capture baseline metrics
+
+import { User } from 'lucide-react';
+import { CONFIG, BaselineMetrics } from '@/types/liveness';
+import type { LivenessChallenge } from './types';
+
+export const alignChallenge: LivenessChallenge = {
+  id: 'ALIGN',
+  label: 'Align',
+  instruction: 'Align your face inside the box',
+  icon: User,
+
+  getHint: () => 'Position your face within the frame',
+
+  getProgress: (state) =>
+    Math.min((state.alignedFrameCount / CONFIG.ALIGN_REQUIRED_FRAMES) * 100, 100),
+
+  evaluate: ({ state, metrics, insideGuide }) => {
+    if (!insideGuide) {
+      return {
+        error: 'Move your face inside the box',
+        alignedFrameCount: 0,
+      };
+    }
+
+    const alignedFrameCount = state.alignedFrameCount + 1;
+
+    if (alignedFrameCount < CONFIG.ALIGN_REQUIRED_FRAMES) {
+      return { error: null, alignedFrameCount };
+    }
+
+    // Capture baseline metrics
+    const baseline: BaselineMetrics = {
+      yawMetric: metrics.yawMetric,
+      pitchMetric: metrics.pitchMetric,
+      rollMetric: metrics.rollMetric,
+      faceWidth: metrics.boundingBox.width,
+      faceHeight: metrics.boundingBox.height,
+      openEAR: metrics.avgEAR,
+      mouthWidth: metrics.mouthWidth,
+      lipCurvature: metrics.lipCurvature,
+      closedMAR: metrics.mar,
+      browHeight: metrics.browHeight,
+      headPose: metrics.headPose,
+    };
+
+    return {
+      error: null,
+      alignedFrameCount,
+      baselineMetrics: baseline,
+    };
+  },
+
+  isComplete: (state) =>
+    state.baselineMetrics !== null &&
+    state.alignedFrameCount >= CONFIG.ALIGN_REQUIRED_FRAMES,
+
+  reset: () => ({ alignedFrameCount: 0 }),
+};
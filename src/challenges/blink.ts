@@ -0,0 +1,127 @@
+// BLINK challenge - calibrated Eye Aspect Ratio blink detection
+
+import { Eye } from 'lucide-react';
+import { CONFIG, BlinkState, FaceMetrics, SmoothedMetrics, initialBlinkState } from '@/types/liveness';
+import { getEyeState, toUserEyes } from '@/utils/ear';
+import { ema, sma } from '@/utils/smoothing';
+import type { LivenessChallenge } from './types';
+
+/**
+ * Apply EMA smoothing to the average and per-eye EAR
+ */
+export function smoothEyes(metrics: FaceMetrics, previous: SmoothedMetrics): SmoothedMetrics {
+  const eyes = toUserEyes(metrics.leftEAR, metrics.rightEAR);
+
+  return {
+    ...previous,
+    ear: ema(metrics.avgEAR, previous.ear, CONFIG.EMA_ALPHA),
+    leftEAR: ema(eyes.left, previous.leftEAR, CONFIG.EMA_ALPHA),
+    rightEAR: ema(eyes.right, previous.rightEAR, CONFIG.EMA_ALPHA),
+  };
+}
+
+/**
+ * Collect one calibration frame; sets the open baselines once enough are in
+ */
+export function calibrateEyes(blinkState: BlinkState, smoothed: SmoothedMetrics): BlinkState {
+  const next: BlinkState = {
+    ...blinkState,
+    earSamples: [...blinkState.earSamples, smoothed.ear],
+    leftEARSamples: [...blinkState.leftEARSamples, smoothed.leftEAR],
+    rightEARSamples: [...blinkState.rightEARSamples, smoothed.rightEAR],
+    calibrationFrames: blinkState.calibrationFrames + 1,
+  };
+
+  if (next.calibrationFrames >= CONFIG.BLINK_CALIBRATION_FRAMES) {
+    // Calculate baselines from samples
+    const avgEAR = sma(next.earSamples);
+    next.openEARBaseline = avgEAR;
+    next.closedThreshold = avgEAR * CONFIG.CLOSED_THRESHOLD_RATIO;
+    next.leftOpenBaseline = sma(next.leftEARSamples);
+    next.rightOpenBaseline = sma(next.rightEARSamples);
+    next.isCalibrating = false;
+    next.eyeState = 'OPEN';
+  }
+
+  return next;
+}
+
+/**
+ * How far an eye has closed relative to its open baseline (0 = open, 1 = shut); null before calibration
+ */
+export function getEyeClosure(ear: number, openBaseline: number): number | null {
+  return openBaseline > 0 ? 1 - ear / openBaseline : null;
+}
+
+/**
+ * Advance the closed -> open blink state machine by one calibrated frame
+ */
+export function detectBlink(current: BlinkState, smoothedEAR: number, now: number): BlinkState {
+  // Check if in cooldown
+  if (now - current.lastBlinkTime < CONFIG.BLINK_COOLDOWN_MS) {
+    return current;
+  }
+
+  const blinkState: BlinkState = { ...current };
+
+  // Detect eye state
+  const eyeState = getEyeState(
+    smoothedEAR,
+    blinkState.openEARBaseline,
+    CONFIG.CLOSED_THRESHOLD_RATIO
+  );
+
+  // State machine for blink detection
+  if (eyeState === 'CLOSED') {
+    blinkState.closedFrameCount++;
+    blinkState.openFrameCount = 0;
+    blinkState.eyeState = 'CLOSED';
+  } else if (eyeState === 'OPEN') {
+    // Check if we had enough closed frames
+    if (blinkState.closedFrameCount >= CONFIG.CLOSED_FRAME_THRESHOLD) {
+      blinkState.openFrameCount++;
+
+      if (blinkState.openFrameCount >= CONFIG.OPEN_FRAME_THRESHOLD) {
+        // Blink detected!
+        blinkState.blinkDetected = true;
+        blinkState.lastBlinkTime = now;
+      }
+    } else {
+      blinkState.closedFrameCount = 0;
+    }
+    blinkState.eyeState = 'OPEN';
+  }
+
+  return blinkState;
+}
+
+export const blinkChallenge: LivenessChallenge = {
+  id: 'BLINK',
+  label: 'Blink',
+  instruction: 'Please blink your eyes',
+  icon: Eye,
+  animateIcon: true,
+
+  getHint: (state) =>
+    state.blinkState.isCalibrating
+      ? 'Calibrating eye detection...'
+      : 'Close and open your eyes naturally',
+
+  getMetric: (state) => getEyeClosure(state.smoothed.ear, state.blinkState.openEARBaseline),
+
+  evaluate: ({ state, metrics, now }) => {
+    // Apply EMA smoothing
+    const smoothed = smoothEyes(metrics, state.smoothed);
+
+    // Calibration phase
+    if (state.blinkState.isCalibrating) {
+      return { smoothed, blinkState: calibrateEyes(state.blinkState, smoothed) };
+    }
+
+    return { smoothed, blinkState: detectBlink(state.blinkState, smoothed.ear, now) };
+  },
+
+  isComplete: (state) => state.blinkState.blinkDetected,
+
+  reset: () => ({ blinkState: { ...initialBlinkState } }),
+};
@@ -0,0 +1,102 @@
+// BLINK_N challenge - blink a randomized number of times, judged once the eyes settle
+
+import { Eye } from 'lucide-react';
+import { CONFIG, initialBlinkState } from '@/types/liveness';
+import { calibrateEyes, detectBlink, getEyeClosure, smoothEyes } from './blink';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export interface BlinkCountState {
+  target: number;      // Blinks requested for this attempt
+  blinkTimes: number[]; // Timestamps of distinct blinks in the current sequence
+  result: 'PASSED' | 'TOO_FEW' | 'TOO_MANY' | null; // Set once the sequence is judged
+}
+
+const initialBlinkCountState: BlinkCountState = {
+  target: 0,
+  blinkTimes: [],
+  result: null,
+};
+
+export const blinkCountChallenge: LivenessChallenge<BlinkCountState> = {
+  id: 'BLINK_N',
+  label: 'Blinks',
+  instruction: 'Blink the number of times shown',
+  icon: Eye,
+  animateIcon: true,
+
+  createState: () => initialBlinkCountState,
+
+  getHint: (state) => {
+    const { target, blinkTimes } = getChallengeState(state, blinkCountChallenge);
+
+    if (state.blinkState.isCalibrating) return 'Calibrating eye detection...';
+    return `Blink ${target} times (${blinkTimes.length}/${target})`;
+  },
+
+  getProgress: (state) => {
+    const { target, blinkTimes } = getChallengeState(state, blinkCountChallenge);
+    return target > 0 ? Math.min((blinkTimes.length / target) * 100, 100) : 0;
+  },
+
+  getMetric: (state) => getEyeClosure(state.smoothed.ear, state.blinkState.openEARBaseline),
+
+  evaluate: ({ state, metrics, now }) => {
+    const smoothed = smoothEyes(metrics, state.smoothed);
+
+    // Calibration phase
+    if (state.blinkState.isCalibrating) {
+      return { smoothed, blinkState: calibrateEyes(state.blinkState, smoothed) };
+    }
+
+    // Inter-blink timing: blinks closer than BLINK_COOLDOWN_MS merge into one,
+    // and a gap of BLINK_N_SETTLE_MS ends the sequence
+    const blinkCount = getChallengeState(state, blinkCountChallenge);
+    let blinkState = detectBlink(state.blinkState, smoothed.ear, now);
+    let { blinkTimes } = blinkCount;
+
+    if (blinkState.blinkDetected) {
+      blinkTimes = [...blinkTimes, now];
+      blinkState = { ...blinkState, blinkDetected: false, closedFrameCount: 0, openFrameCount: 0 };
+    }
+
+    const { target } = blinkCount;
+    const lastBlink = blinkTimes[blinkTimes.length - 1];
+    const settled = lastBlink !== undefined
+      && now - lastBlink >= CONFIG.BLINK_N_SETTLE_MS
+      && blinkState.eyeState === 'OPEN';
+
+    // Judge the count once the eyes have stayed open long enough
+    let result: BlinkCountState['result'] = null;
+    if (blinkTimes.length > target) {
+      result = 'TOO_MANY';
+    } else if (settled) {
+      result = blinkTimes.length === target ? 'PASSED' : 'TOO_FEW';
+    }
+
+    return {
+      smoothed,
+      blinkState,
+      ...setChallengeState(state, blinkCountChallenge, { ...blinkCount, blinkTimes, result }),
+    };
+  },
+
+  getFailure: (state) => {
+    const { target, blinkTimes, result } = getChallengeState(state, blinkCountChallenge);
+
+    if (result === 'TOO_MANY') return `Blinked more than ${target} times`;
+    if (result === 'TOO_FEW') return `Blinked ${blinkTimes.length} of ${target} times`;
+    return null;
+  },
+
+  isComplete: (state) => getChallengeState(state, blinkCountChallenge).result === 'PASSED',
+
+  reset: (state, { random, params }) => ({
+    blinkState: { ...initialBlinkState },
+    ...setChallengeState(state, blinkCountChallenge, {
+      ...initialBlinkCountState,
+      target: params.blinkCount
+        ?? CONFIG.BLINK_N_MIN + Math.floor(random() * (CONFIG.BLINK_N_MAX - CONFIG.BLINK_N_MIN + 1)),
+    }),
+  }),
+};
@@ -0,0 +1,146 @@
+// COLOR_FLASH challenge - the screen flashes a random color sequence that a real face
+// close to the display must reflect
+
+import { Palette } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { FlashColor, RGB, correlateReflection, getChromaticShift, getFlashColorCss } from '@/utils/reflection';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export type ColorFlashPhase = 'FLASHING' | 'DONE';
+
+export interface ColorFlashState {
+  phase: ColorFlashPhase;
+  colors: FlashColor[];     // Screen colors, shown one after another
+  colorIndex: number;
+  colorShownAt: number;     // When the current color appeared
+  shifts: RGB[][];          // Chromatic shifts measured per color, after the settle time
+  correlation: number | null; // Emitted vs reflected color, once the sequence is done
+  result: 'PASSED' | 'NO_REFLECTION' | 'TOO_FEW_SAMPLES' | null;
+}
+
+const initialColorFlashState: ColorFlashState = {
+  phase: 'FLASHING',
+  colors: [],
+  colorIndex: 0,
+  colorShownAt: 0,
+  shifts: [],
+  correlation: null,
+  result: null,
+};
+
+const PALETTE: FlashColor[] = ['RED', 'GREEN', 'BLUE'];
+
+/**
+ * Pick random flash colors, never repeating the previous one
+ */
+export function generateFlashColors(count: number, random: () => number): FlashColor[] {
+  const colors: FlashColor[] = [];
+  let previous = -1;
+
+  for (let i = 0; i < count; i++) {
+    let index = Math.floor(random() * PALETTE.length);
+    if (index === previous) index = (index + 1) % PALETTE.length;
+    colors.push(PALETTE[index]);
+    previous = index;
+  }
+
+  return colors;
+}
+
+/**
+ * Judge the finished sequence from the mean shift measured under each color
+ */
+function judge(colorFlash: ColorFlashState): ColorFlashState {
+  if (colorFlash.shifts.some(samples => samples.length < CONFIG.COLOR_FLASH_MIN_SAMPLES)) {
+    return { ...colorFlash, phase: 'DONE', result: 'TOO_FEW_SAMPLES' };
+  }
+
+  const means = colorFlash.shifts.map(samples => ({
+    r: samples.reduce((sum, s) => sum + s.r, 0) / samples.length,
+    g: samples.reduce((sum, s) => sum + s.g, 0) / samples.length,
+    b: samples.reduce((sum, s) => sum + s.b, 0) / samples.length,
+  }));
+  const correlation = correlateReflection(colorFlash.colors, means);
+
+  return {
+    ...colorFlash,
+    phase: 'DONE',
+    correlation,
+    result: correlation >= CONFIG.COLOR_FLASH_MIN_CORRELATION ? 'PASSED' : 'NO_REFLECTION',
+  };
+}
+
+export const colorFlashChallenge: LivenessChallenge<ColorFlashState> = {
+  id: 'COLOR_FLASH',
+  label: 'Flash',
+  instruction: 'Hold still while the screen flashes',
+  icon: Palette,
+
+  createState: () => initialColorFlashState,
+
+  getHint: () => 'Keep your face close to the screen',
+
+  getProgress: (state) => {
+    const { colors, colorIndex } = getChallengeState(state, colorFlashChallenge);
+    return colors.length > 0 ? (colorIndex / colors.length) * 100 : 0;
+  },
+
+  // Correlation between the emitted and reflected colors
+  getMetric: (state) => getChallengeState(state, colorFlashChallenge).correlation,
+
+  getScreenColor: (state) => {
+    const { phase, colors, colorIndex } = getChallengeState(state, colorFlashChallenge);
+    return phase === 'FLASHING' && colorIndex < colors.length ? getFlashColorCss(colors[colorIndex]) : null;
+  },
+
+  evaluate: ({ state, now, signals }) => {
+    let colorFlash: ColorFlashState = { ...getChallengeState(state, colorFlashChallenge) };
+    if (colorFlash.phase !== 'FLASHING') return {};
+
+    if (now - colorFlash.colorShownAt >= CONFIG.COLOR_FLASH_DURATION_MS) {
+      colorFlash.colorIndex++;
+      colorFlash.colorShownAt = now;
+
+      if (colorFlash.colorIndex >= colorFlash.colors.length) {
+        return setChallengeState(state, colorFlashChallenge, judge(colorFlash));
+      }
+    }
+
+    // The caller does not sample reflections at all
+    if (signals.reflection === undefined) {
+      return {
+        ...setChallengeState(state, colorFlashChallenge, colorFlash),
+        error: 'Reflection analysis is not available',
+      };
+    }
+
+    // Skip frames captured before the new color reached the screen and the sensor
+    if (signals.reflection && now - colorFlash.colorShownAt >= CONFIG.COLOR_FLASH_SETTLE_MS) {
+      const shifts = [...colorFlash.shifts];
+      shifts[colorFlash.colorIndex] = [...shifts[colorFlash.colorIndex], getChromaticShift(signals.reflection)];
+      colorFlash = { ...colorFlash, shifts };
+    }
+
+    return setChallengeState(state, colorFlashChallenge, colorFlash);
+  },
+
+  getFailure: (state) => {
+    const { result } = getChallengeState(state, colorFlashChallenge);
+    if (result === 'NO_REFLECTION') return 'The screen light was not reflected on your face';
+    if (result === 'TOO_FEW_SAMPLES') return 'Keep your face in view while the screen flashes';
+    return null;
+  },
+
+  isComplete: (state) => getChallengeState(state, colorFlashChallenge).result === 'PASSED',
+
+  reset: (state, { now, random, params }) => {
+    const colors = params.flashColors ?? generateFlashColors(CONFIG.COLOR_FLASH_COUNT, random);
+    return setChallengeState(state, colorFlashChallenge, {
+      ...initialColorFlashState,
+      colors,
+      colorShownAt: now,
+      shifts: colors.map(() => []),
+    });
+  },
+};
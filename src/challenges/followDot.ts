@@ -0,0 +1,166 @@
+// FOLLOW_DOT challenge - eyes must follow a dot that jumps around the camera view
+
+import { Crosshair } from 'lucide-react';
+import { CONFIG, ViewPoint } from '@/types/liveness';
+import { calculateGazeMetrics, isGazeTowards } from '@/utils/gaze';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export type GazePhase = 'CENTER' | 'TRACKING' | 'DONE';
+
+export interface GazeState {
+  phase: GazePhase;
+  targets: ViewPoint[];       // Dot positions, shown one after another
+  targetIndex: number;
+  targetShownAt: number;      // When the current dot position appeared
+  centerSamples: ViewPoint[]; // Gaze while looking at the centered dot
+  center: ViewPoint | null;   // Resting gaze, subtracted from later samples
+  heldFrames: number;
+  latencies: number[];        // Reaction time per followed target (ms)
+  missed: boolean;            // A target was not followed in time
+}
+
+const initialGazeState: GazeState = {
+  phase: 'CENTER',
+  targets: [],
+  targetIndex: 0,
+  targetShownAt: 0,
+  centerSamples: [],
+  center: null,
+  heldFrames: 0,
+  latencies: [],
+  missed: false,
+};
+
+// Dot positions around the view edge (view coordinates)
+const DOT_POSITIONS: ViewPoint[] = [
+  { x: -0.8, y: 0 },
+  { x: 0.8, y: 0 },
+  { x: 0, y: -0.7 },
+  { x: 0, y: 0.7 },
+  { x: -0.7, y: -0.6 },
+  { x: 0.7, y: -0.6 },
+  { x: -0.7, y: 0.6 },
+  { x: 0.7, y: 0.6 },
+];
+
+const CENTER: ViewPoint = { x: 0, y: 0 };
+
+/**
+ * Pick random dot positions, never repeating the previous one
+ */
+export function generateDotTargets(count: number, random: () => number): ViewPoint[] {
+  const targets: ViewPoint[] = [];
+  let previous = -1;
+
+  for (let i = 0; i < count; i++) {
+    let index = Math.floor(random() * DOT_POSITIONS.length);
+    if (index === previous) index = (index + 1) % DOT_POSITIONS.length;
+    targets.push(DOT_POSITIONS[index]);
+    previous = index;
+  }
+
+  return targets;
+}
+
+export const followDotChallenge: LivenessChallenge<GazeState> = {
+  id: 'FOLLOW_DOT',
+  label: 'Gaze',
+  instruction: 'Follow the dot with your eyes',
+  icon: Crosshair,
+
+  createState: () => initialGazeState,
+
+  getHint: (state) =>
+    getChallengeState(state, followDotChallenge).phase === 'CENTER'
+      ? 'Look at the dot in the center'
+      : 'Keep your head still and move only your eyes',
+
+  getProgress: (state) => {
+    const { targets, targetIndex } = getChallengeState(state, followDotChallenge);
+    return targets.length > 0 ? (targetIndex / targets.length) * 100 : 0;
+  },
+
+  // Targets followed so far
+  getMetric: (state) => getChallengeState(state, followDotChallenge).targetIndex,
+
+  getTarget: (state) => {
+    const { phase, targets, targetIndex } = getChallengeState(state, followDotChallenge);
+    if (phase === 'CENTER') return CENTER;
+    if (phase === 'TRACKING') return targets[targetIndex];
+    return null;
+  },
+
+  evaluate: ({ face, state, now }) => {
+    const gaze = calculateGazeMetrics(face);
+    if (!gaze) {
+      return { error: 'Eye tracking is not available' };
+    }
+
+    const gazeState: GazeState = { ...getChallengeState(state, followDotChallenge) };
+
+    // Calibrate the resting gaze on the centered dot
+    if (gazeState.phase === 'CENTER') {
+      gazeState.centerSamples = [...gazeState.centerSamples, gaze];
+
+      if (now - gazeState.targetShownAt >= CONFIG.GAZE_CENTER_MS) {
+        const samples = gazeState.centerSamples;
+        gazeState.center = {
+          x: samples.reduce((sum, p) => sum + p.x, 0) / samples.length,
+          y: samples.reduce((sum, p) => sum + p.y, 0) / samples.length,
+        };
+        gazeState.phase = 'TRACKING';
+        gazeState.targetShownAt = now;
+      }
+
+      return setChallengeState(state, followDotChallenge, gazeState);
+    }
+
+    if (gazeState.phase !== 'TRACKING' || !gazeState.center) return {};
+
+    const latency = now - gazeState.targetShownAt;
+    const shift = { x: gaze.x - gazeState.center.x, y: gaze.y - gazeState.center.y };
+    const following = isGazeTowards(
+      shift,
+      gazeState.targets[gazeState.targetIndex],
+      CONFIG.GAZE_MIN_SHIFT,
+      CONFIG.GAZE_MIN_COSINE,
+      CONFIG.GAZE_VERTICAL_GAIN
+    );
+
+    // Moving before the dot could have been seen is anticipation, not following
+    if (following && latency >= CONFIG.GAZE_MIN_LATENCY_MS) {
+      gazeState.heldFrames++;
+    } else {
+      gazeState.heldFrames = 0;
+    }
+
+    if (gazeState.heldFrames >= CONFIG.GAZE_HELD_FRAMES) {
+      // Reaction time is when the gaze first settled on the dot
+      const reactionTime = latency - (CONFIG.GAZE_HELD_FRAMES - 1) * CONFIG.FRAME_INTERVAL;
+      gazeState.latencies = [...gazeState.latencies, Math.round(reactionTime)];
+      gazeState.targetIndex++;
+      gazeState.targetShownAt = now;
+      gazeState.heldFrames = 0;
+
+      if (gazeState.targetIndex >= gazeState.targets.length) {
+        gazeState.phase = 'DONE';
+      }
+    } else if (latency > CONFIG.GAZE_MAX_LATENCY_MS) {
+      gazeState.missed = true;
+    }
+
+    return setChallengeState(state, followDotChallenge, gazeState);
+  },
+
+  getFailure: (state) =>
+    getChallengeState(state, followDotChallenge).missed ? 'Your eyes did not follow the dot' : null,
+
+  isComplete: (state) => getChallengeState(state, followDotChallenge).phase === 'DONE',
+
+  reset: (state, { now, random, params }) => setChallengeState(state, followDotChallenge, {
+    ...initialGazeState,
+    targets: params.dotTargets ?? generateDotTargets(CONFIG.GAZE_TARGET_COUNT, random),
+    targetShownAt: now,
+  }),
+};
@@ -0,0 +1,114 @@
+// Nod and shake challenges - oscillating pitch/yaw in the smoothed pose history
+
+import { ArrowLeftRight, ArrowUpDown } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { countReversals } from '@/utils/motion';
+import { smoothPose } from './headTurn';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export interface PoseSample {
+  t: number;
+  yaw: number;   // Smoothed yaw metric
+  pitch: number; // Smoothed pitch metric
+}
+
+export interface HeadMotionState {
+  samples: PoseSample[]; // Smoothed pose history inside the motion window
+  reversals: number;     // Direction reversals found in the window
+}
+
+const initialHeadMotionState: HeadMotionState = {
+  samples: [],
+  reversals: 0,
+};
+
+interface HeadMotionOptions {
+  id: 'NOD' | 'SHAKE';
+  label: string;
+  instruction: string;
+  hint: string;
+  icon: React.ElementType;
+  axis: 'yaw' | 'pitch';
+}
+
+/**
+ * Create an oscillation challenge for one pose axis
+ */
+function createHeadMotionChallenge({
+  id,
+  label,
+  instruction,
+  hint,
+  icon,
+  axis,
+}: HeadMotionOptions): LivenessChallenge<HeadMotionState> {
+  // Each swing must span at least the single-turn threshold
+  const amplitude = axis === 'yaw' ? CONFIG.YAW_THRESHOLD : CONFIG.PITCH_THRESHOLD;
+
+  const challenge: LivenessChallenge<HeadMotionState> = {
+    id,
+    label,
+    instruction,
+    icon,
+    animateIcon: true,
+
+    createState: () => initialHeadMotionState,
+
+    getHint: () => hint,
+
+    getProgress: (state) =>
+      Math.min((getChallengeState(state, challenge).reversals / CONFIG.MOTION_MIN_REVERSALS) * 100, 100),
+
+    // Swing range inside the motion window
+    getMetric: (state) => {
+      const { samples } = getChallengeState(state, challenge);
+      if (samples.length === 0) return null;
+      const values = samples.map(s => s[axis]);
+      return Math.max(...values) - Math.min(...values);
+    },
+
+    evaluate: ({ state, metrics, now }) => {
+      if (!state.baselineMetrics) return {};
+
+      const smoothed = smoothPose(metrics, state.smoothed);
+
+      // Keep only the samples inside the motion window
+      const samples = [
+        ...getChallengeState(state, challenge).samples.filter(s => now - s.t <= CONFIG.MOTION_WINDOW_MS),
+        { t: now, yaw: smoothed.yaw, pitch: smoothed.pitch },
+      ];
+      const reversals = countReversals(samples.map(s => s[axis]), amplitude);
+
+      return {
+        smoothed,
+        error: null,
+        ...setChallengeState(state, challenge, { samples, reversals }),
+      };
+    },
+
+    isComplete: (state) => getChallengeState(state, challenge).reversals >= CONFIG.MOTION_MIN_REVERSALS,
+
+    reset: (state) => setChallengeState(state, challenge, initialHeadMotionState),
+  };
+
+  return challenge;
+}
+
+export const nodChallenge = createHeadMotionChallenge({
+  id: 'NOD',
+  label: 'Nod',
+  instruction: 'Nod your head',
+  hint: 'Move your head up and down a few times',
+  icon: ArrowUpDown,
+  axis: 'pitch',
+});
+
+export const shakeChallenge = createHeadMotionChallenge({
+  id: 'SHAKE',
+  label: 'Shake',
+  instruction: 'Shake your head',
+  hint: 'Turn your head left and right a few times',
+  icon: ArrowLeftRight,
+  axis: 'yaw',
+});
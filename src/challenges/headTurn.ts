@@ -0,0 +1,213 @@
+// Head turn challenges - held yaw/pitch deltas from the ALIGN baseline
+// Deltas are normalized ratios, or degrees when the session's pose source is '3d'
+
+import { MoveLeft, MoveRight, MoveUp, MoveDown } from 'lucide-react';
+import {
+  CONFIG,
+  BaselineMetrics,
+  FaceMetrics,
+  PoseSource,
+  SmoothedMetrics,
+  initialHeadPoseState,
+} from '@/types/liveness';
+import { getYawDelta, getPitchDelta, isRollAcceptable } from '@/utils/pose';
+import { ema } from '@/utils/smoothing';
+import type { ChallengeDirection, LivenessChallenge } from './types';
+
+// Higher = more responsive, lower = smoother
+const POSE_SMOOTHING_ALPHA = 0.4;
+
+/**
+ * Apply EMA smoothing to yaw and pitch (both the 2D ratios and the 3D angles)
+ */
+export function smoothPose(metrics: FaceMetrics, previous: SmoothedMetrics): SmoothedMetrics {
+  const { headPose } = metrics;
+  return {
+    ...previous,
+    yaw: ema(metrics.yawMetric, previous.yaw, POSE_SMOOTHING_ALPHA),
+    pitch: ema(metrics.pitchMetric, previous.pitch, POSE_SMOOTHING_ALPHA),
+    yawDegrees: headPose ? ema(headPose.yaw, previous.yawDegrees, POSE_SMOOTHING_ALPHA) : previous.yawDegrees,
+    pitchDegrees: headPose ? ema(headPose.pitch, previous.pitchDegrees, POSE_SMOOTHING_ALPHA) : previous.pitchDegrees,
+  };
+}
+
+interface TurnDeltas {
+  yaw: number;
+  pitch: number;
+  yawThreshold: number;
+  pitchThreshold: number;
+}
+
+/**
+ * Smoothed deltas from the baseline and their thresholds, in the units of the configured pose source
+ */
+function getTurnDeltas(smoothed: SmoothedMetrics, baseline: BaselineMetrics, source: PoseSource): TurnDeltas {
+  if (source === '3d' && baseline.headPose) {
+    return {
+      yaw: getYawDelta(smoothed.yawDegrees, baseline.headPose.yaw),
+      pitch: getPitchDelta(smoothed.pitchDegrees, baseline.headPose.pitch),
+      yawThreshold: CONFIG.YAW_THRESHOLD_DEGREES,
+      pitchThreshold: CONFIG.PITCH_THRESHOLD_DEGREES,
+    };
+  }
+
+  return {
+    yaw: getYawDelta(smoothed.yaw, baseline.yawMetric),
+    pitch: getPitchDelta(smoothed.pitch, baseline.pitchMetric),
+    yawThreshold: CONFIG.YAW_THRESHOLD,
+    pitchThreshold: CONFIG.PITCH_THRESHOLD,
+  };
+}
+
+/**
+ * Whether the head is level enough for a turn to count
+ */
+function isHeadLevel(metrics: FaceMetrics, source: PoseSource): boolean {
+  if (source === '3d' && metrics.headPose) {
+    return Math.abs(metrics.headPose.roll) <= CONFIG.ROLL_WARNING_DEGREES;
+  }
+  return isRollAcceptable(metrics.rollMetric, CONFIG.ROLL_WARNING_THRESHOLD);
+}
+
+interface HeadTurnOptions {
+  id: 'TURN_LEFT' | 'TURN_RIGHT' | 'TURN_UP' | 'TURN_DOWN';
+  label: string;
+  instruction: string;
+  icon: React.ElementType;
+  direction: ChallengeDirection;
+}
+
+/**
+ * Create a head turn challenge for one direction
+ */
+function createHeadTurnChallenge({
+  id,
+  label,
+  instruction,
+  icon,
+  direction,
+}: HeadTurnOptions): LivenessChallenge {
+  const isYaw = direction === 'left' || direction === 'right';
+
+  return {
+    id,
+    label,
+    instruction,
+    icon,
+    direction,
+
+    getHint: () => 'Hold the position briefly',
+
+    getProgress: (state) =>
+      Math.min((state.headPoseState.heldFrames / CONFIG.POSE_HELD_FRAMES) * 100, 100),
+
+    // Delta towards the requested direction
+    getMetric: ({ smoothed, baselineMetrics, poseSource }) => {
+      if (!baselineMetrics) return null;
+      const deltas = getTurnDeltas(smoothed, baselineMetrics, poseSource);
+      const delta = isYaw ? deltas.yaw : deltas.pitch;
+      return direction === 'left' || direction === 'up' ? -delta : delta;
+    },
+
+    evaluate: ({ state, metrics }) => {
+      if (!state.baselineMetrics) return {};
+
+      // Apply EMA smoothing to yaw and pitch for smoother detection
+      const smoothed = smoothPose(metrics, state.smoothed);
+
+      // Check roll - warn if too tilted
+      if (!isHeadLevel(metrics, state.poseSource)) {
+        return {
+          smoothed,
+          error: 'Keep your head straight (not tilted)',
+          headPoseState: initialHeadPoseState,
+        };
+      }
+
+      // Use smoothed values for delta calculation
+      const {
+        yaw: yawDelta,
+        pitch: pitchDelta,
+        yawThreshold,
+        pitchThreshold,
+      } = getTurnDeltas(smoothed, state.baselineMetrics, state.poseSource);
+
+      let targetReached = false;
+
+      switch (direction) {
+        case 'left':
+          targetReached = yawDelta <= -yawThreshold;
+          break;
+        case 'right':
+          targetReached = yawDelta >= yawThreshold;
+          break;
+        case 'up':
+          targetReached = pitchDelta <= -pitchThreshold;
+          break;
+        case 'down':
+          targetReached = pitchDelta >= pitchThreshold;
+          break;
+      }
+
+      if (!targetReached) {
+        return {
+          smoothed,
+          error: null,
+          headPoseState: initialHeadPoseState,
+        };
+      }
+
+      const heldFrames = state.headPoseState.heldFrames + 1;
+      const update = {
+        smoothed,
+        error: null,
+        headPoseState: { heldFrames, targetReached: true },
+      };
+
+      // Record the delta achieved when the pose is held long enough
+      if (heldFrames >= CONFIG.POSE_HELD_FRAMES) {
+        return isYaw
+          ? { ...update, yawDeltas: [...state.yawDeltas, yawDelta] }
+          : { ...update, pitchDeltas: [...state.pitchDeltas, pitchDelta] };
+      }
+
+      return update;
+    },
+
+    isComplete: (state) => state.headPoseState.heldFrames >= CONFIG.POSE_HELD_FRAMES,
+
+    reset: () => ({ headPoseState: initialHeadPoseState }),
+  };
+}
+
+export const turnLeftChallenge = createHeadTurnChallenge({
+  id: 'TURN_LEFT',
+  label: 'Left',
+  instruction: 'Turn your head left',
+  icon: MoveLeft,
+  direction: 'left',
+});
+
+export const turnRightChallenge = createHeadTurnChallenge({
+  id: 'TURN_RIGHT',
+  label: 'Right',
+  instruction: 'Turn your head right',
+  icon: MoveRight,
+  direction: 'right',
+});
+
+export const turnUpChallenge = createHeadTurnChallenge({
+  id: 'TURN_UP',
+  label: 'Up',
+  instruction: 'Tilt your head up',
+  icon: MoveUp,
+  direction: 'up',
+});
+
+export const turnDownChallenge = createHeadTurnChallenge({
+  id: 'TURN_DOWN',
+  label: 'Down',
+  instruction: 'Tilt your head down',
+  icon: MoveDown,
+  direction: 'down',
+});
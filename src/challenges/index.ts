@@ -0,0 +1,30 @@
+// Barrel export for challenge plugins
+
+export * from './types';
+export * from './registry';
+export * from './state';
+export { alignChallenge } from './align';
+export { blinkChallenge } from './blink';
+export {
+  turnLeftChallenge,
+  turnRightChallenge,
+  turnUpChallenge,
+  turnDownChallenge,
+} from './headTurn';
+export { smileChallenge } from './smile';
+export type { SmilePhase, SmileState } from './smile';
+export { openMouthChallenge } from './openMouth';
+export type { MouthOpenState } from './openMouth';
+export { speakDigitsChallenge, generateDigits, getExpectedCycleRange } from './speakDigits';
+export type { SpeechPhase, SpeechState } from './speakDigits';
+export { winkLeftChallenge, winkRightChallenge } from './wink';
+export { blinkCountChallenge } from './blinkCount';
+export type { BlinkCountState } from './blinkCount';
+export { raiseEyebrowsChallenge } from './raiseEyebrows';
+export type { EyebrowState } from './raiseEyebrows';
+export { nodChallenge, shakeChallenge } from './headMotion';
+export type { HeadMotionState, PoseSample } from './headMotion';
+export { followDotChallenge, generateDotTargets } from './followDot';
+export type { GazePhase, GazeState } from './followDot';
+export { colorFlashChallenge, generateFlashColors } from './colorFlash';
+export type { ColorFlashPhase, ColorFlashState } from './colorFlash';
@@ -0,0 +1,51 @@
+// OPEN_MOUTH challenge - hold the mouth open, measured by mouth aspect ratio
+
+import { Laugh } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export interface MouthOpenState {
+  heldFrames: number;
+  peakMAR: number;
+}
+
+const initialMouthOpenState: MouthOpenState = {
+  heldFrames: 0,
+  peakMAR: 0,
+};
+
+export const openMouthChallenge: LivenessChallenge<MouthOpenState> = {
+  id: 'OPEN_MOUTH',
+  label: 'Mouth',
+  instruction: 'Open your mouth wide',
+  icon: Laugh,
+
+  createState: () => initialMouthOpenState,
+
+  getHint: () => 'Hold it open briefly',
+
+  getProgress: (state) =>
+    Math.min((getChallengeState(state, openMouthChallenge).heldFrames / CONFIG.MOUTH_OPEN_HELD_FRAMES) * 100, 100),
+
+  getMetric: ({ metrics, baselineMetrics }) =>
+    metrics && baselineMetrics ? metrics.mar - baselineMetrics.closedMAR : null,
+
+  evaluate: ({ state, metrics }) => {
+    if (!state.baselineMetrics) return {};
+
+    const mouthOpen = getChallengeState(state, openMouthChallenge);
+    const peakMAR = Math.max(mouthOpen.peakMAR, metrics.mar);
+    const isOpen = metrics.mar - state.baselineMetrics.closedMAR >= CONFIG.MAR_OPEN_DELTA;
+
+    return setChallengeState(state, openMouthChallenge, {
+      heldFrames: isOpen ? mouthOpen.heldFrames + 1 : 0,
+      peakMAR,
+    });
+  },
+
+  isComplete: (state) =>
+    getChallengeState(state, openMouthChallenge).heldFrames >= CONFIG.MOUTH_OPEN_HELD_FRAMES,
+
+  reset: (state) => setChallengeState(state, openMouthChallenge, initialMouthOpenState),
+};
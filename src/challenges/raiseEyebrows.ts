@@ -0,0 +1,63 @@
+// RAISE_EYEBROWS challenge - hold the eyebrows raised above their ALIGN baseline
+
+import { ChevronsUp } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { getBrowRaise } from '@/utils/eyebrow';
+import { ema } from '@/utils/smoothing';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export interface EyebrowState {
+  heldFrames: number;
+  peakRaise: number;
+}
+
+const initialEyebrowState: EyebrowState = {
+  heldFrames: 0,
+  peakRaise: 0,
+};
+
+export const raiseEyebrowsChallenge: LivenessChallenge<EyebrowState> = {
+  id: 'RAISE_EYEBROWS',
+  label: 'Brows',
+  instruction: 'Raise your eyebrows',
+  icon: ChevronsUp,
+  animateIcon: true,
+
+  createState: () => initialEyebrowState,
+
+  getHint: () => 'Hold them up briefly',
+
+  getProgress: (state) =>
+    Math.min((getChallengeState(state, raiseEyebrowsChallenge).heldFrames / CONFIG.BROW_RAISE_HELD_FRAMES) * 100, 100),
+
+  getMetric: ({ smoothed, baselineMetrics }) =>
+    baselineMetrics ? getBrowRaise(smoothed.brow, baselineMetrics.browHeight) : null,
+
+  evaluate: ({ state, metrics }) => {
+    if (!state.baselineMetrics) return {};
+
+    const brow = ema(metrics.browHeight, state.smoothed.brow, CONFIG.EMA_ALPHA);
+    const smoothed = { ...state.smoothed, brow };
+
+    const raise = getBrowRaise(brow, state.baselineMetrics.browHeight);
+    const isRaised = raise >= CONFIG.BROW_RAISE_THRESHOLD;
+    const eyebrow = getChallengeState(state, raiseEyebrowsChallenge);
+
+    return {
+      smoothed,
+      ...setChallengeState(state, raiseEyebrowsChallenge, {
+        heldFrames: isRaised ? eyebrow.heldFrames + 1 : 0,
+        peakRaise: Math.max(eyebrow.peakRaise, raise),
+      }),
+    };
+  },
+
+  isComplete: (state) =>
+    getChallengeState(state, raiseEyebrowsChallenge).heldFrames >= CONFIG.BROW_RAISE_HELD_FRAMES,
+
+  reset: (state) => ({
+    ...setChallengeState(state, raiseEyebrowsChallenge, initialEyebrowState),
+    smoothed: { ...state.smoothed, brow: 0 },
+  }),
+};
@@ -0,0 +1,103 @@
+// Challenge registry - maps step ids to challenge plugins
+
+import type { LivenessStep } from '@/types/liveness';
+import type { LivenessChallenge } from './types';
+import { alignChallenge } from './align';
+import { blinkChallenge } from './blink';
+import { winkLeftChallenge, winkRightChallenge } from './wink';
+import { blinkCountChallenge } from './blinkCount';
+import { raiseEyebrowsChallenge } from './raiseEyebrows';
+import { followDotChallenge } from './followDot';
+import { colorFlashChallenge } from './colorFlash';
+import {
+  turnLeftChallenge,
+  turnRightChallenge,
+  turnUpChallenge,
+  turnDownChallenge,
+} from './headTurn';
+import { nodChallenge, shakeChallenge } from './headMotion';
+import { smileChallenge } from './smile';
+import { openMouthChallenge } from './openMouth';
+import { speakDigitsChallenge } from './speakDigits';
+
+// Lifecycle steps are owned by the state machine, not by plugins
+const LIFECYCLE_INSTRUCTIONS: Record<string, string> = {
+  IDLE: 'Preparing...',
+  SUCCESS: 'User face verified successfully',
+  FAILED: 'Verification failed',
+};
+
+const LIFECYCLE_LABELS: Record<string, string> = {
+  IDLE: 'Ready',
+  SUCCESS: 'Done',
+  FAILED: 'Failed',
+};
+
+export const BUILT_IN_CHALLENGES: LivenessChallenge[] = [
+  alignChallenge,
+  blinkChallenge,
+  turnLeftChallenge,
+  turnRightChallenge,
+  turnUpChallenge,
+  turnDownChallenge,
+  smileChallenge,
+  openMouthChallenge,
+  speakDigitsChallenge,
+  winkLeftChallenge,
+  winkRightChallenge,
+  blinkCountChallenge,
+  raiseEyebrowsChallenge,
+  nodChallenge,
+  shakeChallenge,
+  followDotChallenge,
+  colorFlashChallenge,
+];
+
+const registry = new Map<LivenessStep, LivenessChallenge>(
+  BUILT_IN_CHALLENGES.map(challenge => [challenge.id, challenge])
+);
+
+/**
+ * Register a challenge plugin (replaces any existing plugin with the same id)
+ */
+export function registerChallenge(challenge: LivenessChallenge): void {
+  if (challenge.id in LIFECYCLE_INSTRUCTIONS) {
+    throw new Error(`Cannot register a challenge for lifecycle step "${challenge.id}"`);
+  }
+  registry.set(challenge.id, challenge);
+}
+
+/**
+ * Remove a challenge plugin from the registry
+ */
+export function unregisterChallenge(id: LivenessStep): void {
+  registry.delete(id);
+}
+
+/**
+ * Look up the plugin for a step
+ */
+export function getChallenge(step: LivenessStep): LivenessChallenge | undefined {
+  return registry.get(step);
+}
+
+/**
+ * List all registered challenge plugins
+ */
+export function getRegisteredChallenges(): LivenessChallenge[] {
+  return [...registry.values()];
+}
+
+/**
+ * Instruction text for a step (lifecycle or challenge)
+ */
+export function getStepInstruction(step: LivenessStep): string {
+  return LIFECYCLE_INSTRUCTIONS[step] ?? registry.get(step)?.instruction ?? step;
+}
+
+/**
+ * Short label for a step (lifecycle or challenge)
+ */
+export function getStepLabel(step: LivenessStep): string {
+  return LIFECYCLE_LABELS[step] ?? registry.get(step)?.label ?? step;
+}
@@ -0,0 +1,114 @@
+// SMILE challenge - neutral -> smile -> neutral from calibrated mouth metrics
+
+import { Smile } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { getSmileScore } from '@/utils/smile';
+import { ema } from '@/utils/smoothing';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+// Smile must go neutral -> smile -> neutral so a static smiling photo can't pass
+export type SmilePhase = 'AWAIT_NEUTRAL' | 'AWAIT_SMILE' | 'AWAIT_RELEASE' | 'DONE';
+
+export interface SmileState {
+  phase: SmilePhase;
+  heldFrames: number;
+  peakScore: number;
+}
+
+const initialSmileState: SmileState = {
+  phase: 'AWAIT_NEUTRAL',
+  heldFrames: 0,
+  peakScore: 0,
+};
+
+const PHASE_HINTS: Record<SmilePhase, string> = {
+  AWAIT_NEUTRAL: 'Relax your face first',
+  AWAIT_SMILE: 'Give a big smile and hold it',
+  AWAIT_RELEASE: 'Now relax your face again',
+  DONE: 'Great!',
+};
+
+const PHASE_PROGRESS: Record<SmilePhase, number> = {
+  AWAIT_NEUTRAL: 0,
+  AWAIT_SMILE: 33,
+  AWAIT_RELEASE: 66,
+  DONE: 100,
+};
+
+/**
+ * Advance a phase when the condition holds for enough consecutive frames
+ */
+function holdPhase(
+  state: SmileState,
+  conditionMet: boolean,
+  requiredFrames: number,
+  nextPhase: SmilePhase
+): SmileState {
+  if (!conditionMet) {
+    return { ...state, heldFrames: 0 };
+  }
+  
+  const heldFrames = state.heldFrames + 1;
+  if (heldFrames >= requiredFrames) {
+    return { ...state, phase: nextPhase, heldFrames: 0 };
+  }
+  return { ...state, heldFrames };
+}
+
+export const smileChallenge: LivenessChallenge<SmileState> = {
+  id: 'SMILE',
+  label: 'Smile',
+  instruction: 'Please smile',
+  icon: Smile,
+
+  createState: () => initialSmileState,
+
+  getHint: (state) => PHASE_HINTS[getChallengeState(state, smileChallenge).phase],
+
+  getProgress: (state) => PHASE_PROGRESS[getChallengeState(state, smileChallenge).phase],
+
+  getMetric: (state) => state.smoothed.smile,
+
+  evaluate: ({ state, metrics }) => {
+    if (!state.baselineMetrics) return {};
+
+    // Score relative to the neutral face captured at ALIGN
+    const score = ema(
+      getSmileScore(metrics, state.baselineMetrics),
+      state.smoothed.smile,
+      CONFIG.EMA_ALPHA
+    );
+    const smoothed = { ...state.smoothed, smile: score };
+
+    const previous = getChallengeState(state, smileChallenge);
+    let smileState: SmileState = {
+      ...previous,
+      peakScore: Math.max(previous.peakScore, score),
+    };
+
+    const isNeutral = score <= CONFIG.SMILE_NEUTRAL_THRESHOLD;
+    const isSmiling = score >= CONFIG.SMILE_THRESHOLD;
+
+    switch (smileState.phase) {
+      case 'AWAIT_NEUTRAL':
+        smileState = holdPhase(smileState, isNeutral, CONFIG.SMILE_NEUTRAL_FRAMES, 'AWAIT_SMILE');
+        break;
+      case 'AWAIT_SMILE':
+        smileState = holdPhase(smileState, isSmiling, CONFIG.SMILE_HELD_FRAMES, 'AWAIT_RELEASE');
+        break;
+      case 'AWAIT_RELEASE':
+        smileState = holdPhase(smileState, isNeutral, CONFIG.SMILE_NEUTRAL_FRAMES, 'DONE');
+        break;
+    }
+
+    return { smoothed, ...setChallengeState(state, smileChallenge, smileState) };
+  },
+
+  isComplete: (state) => getChallengeState(state, smileChallenge).phase === 'DONE',
+
+  reset: (state) => ({
+    ...setChallengeState(state, smileChallenge, initialSmileState),
+    smoothed: { ...state.smoothed, smile: 0 },
+  }),
+};
@@ -0,0 +1,138 @@
+// SPEAK_DIGITS challenge - read random digits aloud, verified by mouth open/close cycles
+
+import { MessageSquareText } from 'lucide-react';
+import { CONFIG } from '@/types/liveness';
+import { getMouthState } from '@/utils/mar';
+import { getChallengeState, setChallengeState } from './state';
+import type { LivenessChallenge } from './types';
+
+export type SpeechPhase = 'WAITING' | 'SPEAKING' | 'DONE';
+
+export interface SpeechState {
+  digits: string;            // Digits the user is asked to read
+  phase: SpeechPhase;
+  isOpen: boolean;
+  cycles: number;            // Completed open -> close cycles in the window
+  windowStartedAt: number;
+  lastCloseAt: number;
+  result: 'PASSED' | 'TOO_FEW' | 'TOO_MANY' | null; // Set once the window is judged
+}
+
+const initialSpeechState: SpeechState = {
+  digits: '',
+  phase: 'WAITING',
+  isOpen: false,
+  cycles: 0,
+  windowStartedAt: 0,
+  lastCloseAt: 0,
+  result: null,
+};
+
+// Spoken syllables per digit in English ("ze-ro", "se-ven")
+const DIGIT_SYLLABLES: Record<string, number> = {
+  '0': 2, '1': 1, '2': 1, '3': 1, '4': 1,
+  '5': 1, '6': 1, '7': 2, '8': 1, '9': 1,
+};
+
+/**
+ * Generate a random 3-4 digit string
+ */
+export function generateDigits(random: () => number): string {
+  const length = 3 + Math.floor(random() * 2);
+  let digits = '';
+  for (let i = 0; i < length; i++) {
+    digits += Math.floor(random() * 10).toString();
+  }
+  return digits;
+}
+
+/**
+ * Range of mouth cycles that plausibly matches reading the digits aloud
+ */
+export function getExpectedCycleRange(digits: string): { min: number; max: number } {
+  const syllables = [...digits].reduce((sum, d) => sum + (DIGIT_SYLLABLES[d] ?? 1), 0);
+
+  return {
+    min: Math.max(2, Math.ceil(syllables * CONFIG.SPEECH_MIN_CYCLE_RATIO)),
+    max: Math.ceil(syllables * CONFIG.SPEECH_MAX_CYCLE_RATIO) + 1,
+  };
+}
+
+export const speakDigitsChallenge: LivenessChallenge<SpeechState> = {
+  id: 'SPEAK_DIGITS',
+  label: 'Speak',
+  instruction: 'Read the numbers out loud',
+  icon: MessageSquareText,
+  animateIcon: true,
+
+  createState: () => initialSpeechState,
+
+  getHint: (state) => `Say: ${[...getChallengeState(state, speakDigitsChallenge).digits].join(' ')}`,
+
+  // Mouth cycles counted in the current window
+  getMetric: (state) => getChallengeState(state, speakDigitsChallenge).cycles,
+
+  evaluate: ({ state, metrics, now }) => {
+    if (!state.baselineMetrics) return {};
+
+    let speechState: SpeechState = { ...getChallengeState(state, speakDigitsChallenge) };
+
+    const mouthState = getMouthState(
+      metrics.mar,
+      state.baselineMetrics.closedMAR,
+      speechState.isOpen,
+      CONFIG.SPEECH_OPEN_DELTA,
+      CONFIG.SPEECH_CLOSE_DELTA
+    );
+    const isOpen = mouthState === 'OPEN';
+
+    // The window starts with the first syllable
+    if (speechState.phase === 'WAITING') {
+      if (!isOpen) return {};
+      return setChallengeState(state, speakDigitsChallenge, {
+        ...speechState,
+        phase: 'SPEAKING',
+        isOpen: true,
+        cycles: 0,
+        windowStartedAt: now,
+      });
+    }
+
+    if (speechState.phase !== 'SPEAKING') return {};
+
+    // Count each open -> close transition as one syllable
+    if (speechState.isOpen && !isOpen) {
+      speechState = { ...speechState, cycles: speechState.cycles + 1, lastCloseAt: now };
+    }
+    speechState.isOpen = isOpen;
+
+    const silenceElapsed = !isOpen && now - speechState.lastCloseAt >= CONFIG.SPEECH_END_SILENCE_MS;
+    const windowElapsed = now - speechState.windowStartedAt >= CONFIG.SPEECH_WINDOW_MS;
+
+    if (!silenceElapsed && !windowElapsed) {
+      return setChallengeState(state, speakDigitsChallenge, speechState);
+    }
+
+    // Window finished - judge the number of cycles
+    const { min, max } = getExpectedCycleRange(speechState.digits);
+    const result =
+      speechState.cycles < min ? 'TOO_FEW' : speechState.cycles > max ? 'TOO_MANY' : 'PASSED';
+
+    return setChallengeState(state, speakDigitsChallenge, { ...speechState, phase: 'DONE', result });
+  },
+
+  getFailure: (state) => {
+    const { result } = getChallengeState(state, speakDigitsChallenge);
+
+    if (result === 'TOO_FEW') return 'Not all of the digits were read aloud';
+    if (result === 'TOO_MANY') return 'Read only the digits, nothing more';
+    return null;
+  },
+
+  isComplete: (state) => getChallengeState(state, speakDigitsChallenge).result === 'PASSED',
+
+  reset: (state, { random, params }) => setChallengeState(state, speakDigitsChallenge, {
+    ...initialSpeechState,
+    digits: params.digits ?? generateDigits(random),
+  }),
+};
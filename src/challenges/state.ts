@@ -0,0 +1,24 @@
+// Per-challenge state slots in LivenessState.challengeState, keyed by challenge id
+
+import type { LivenessState } from '@/types/liveness';
+import type { ChallengeUpdate, LivenessChallenge } from './types';
+
+/**
+ * Contents of a challenge's state slot, created on first use
+ */
+export function getChallengeState<S>(state: LivenessState, challenge: LivenessChallenge<S>): S {
+  return (challenge.id in state.challengeState
+    ? state.challengeState[challenge.id]
+    : challenge.createState?.()) as S;
+}
+
+/**
+ * Update that replaces the contents of a challenge's state slot
+ */
+export function setChallengeState<S>(
+  state: LivenessState,
+  challenge: LivenessChallenge<S>,
+  challengeState: S
+): ChallengeUpdate {
+  return { challengeState: { ...state.challengeState, [challenge.id]: challengeState } };
+}
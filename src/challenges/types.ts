@@ -0,0 +1,83 @@
+// Challenge plugin contract consumed by the liveness state machine and UI
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type {
+  FaceMetrics,
+  FrameSignals,
+  LivenessState,
+  LivenessStep,
+  SessionChallengeParams,
+  ViewPoint,
+} from '@/types/liveness';
+
+export type ChallengeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Per-frame input handed to a challenge evaluator
+ */
+export interface ChallengeContext {
+  face: Face;
+  state: LivenessState;
+  metrics: FaceMetrics;
+  insideGuide: boolean;
+  now: number;
+  signals: FrameSignals; // Pixel measurements of this frame
+}
+
+/**
+ * Session environment handed to challenge resets
+ */
+export interface ChallengeEnvironment {
+  now: number;
+  random: () => number; // Engine random source, keeps replays deterministic
+  params: SessionChallengeParams; // Values pinned by an issued challenge
+}
+
+/**
+ * Partial state produced by a challenge; merged into LivenessState
+ */
+export type ChallengeUpdate = Partial<LivenessState>;
+
+/**
+ * Challenge plugin. State of its own lives in its slot of LivenessState.challengeState,
+ * keyed by id (see getChallengeState), so a plugin never has to extend LivenessState.
+ */
+export interface LivenessChallenge<S = unknown> {
+  id: LivenessStep;
+  label: string;          // Short label for the step indicator
+  instruction: string;    // Main prompt text
+  icon: React.ElementType;
+  direction?: ChallengeDirection; // Shows an arrow in the DirectionGuide
+  animateIcon?: boolean;
+  timeoutMs?: number;     // Overrides the default step timeout
+
+  // Initial contents of the state slot, created on first use
+  createState?: () => S;
+
+  // Secondary prompt line (e.g. calibration status)
+  getHint?: (state: LivenessState) => string | null;
+
+  // Progress towards completion (0-100) for visual feedback
+  getProgress?: (state: LivenessState) => number;
+
+  // Main measurement for the current frame (e.g. yaw delta); the step's peak is reported in the result
+  getMetric?: (state: LivenessState) => number | null;
+
+  // Point in the camera view the user should look at; shown as a dot
+  getTarget?: (state: LivenessState) => ViewPoint | null;
+
+  // CSS color the whole screen should be filled with; null to show the camera as usual
+  getScreenColor?: (state: LivenessState) => string | null;
+
+  // Process one frame while this challenge is active
+  evaluate: (ctx: ChallengeContext) => ChallengeUpdate;
+
+  // Wrong response that fails the attempt (e.g. blinked too often); null while still valid
+  getFailure?: (state: LivenessState) => string | null;
+
+  // Completion criteria, checked after each evaluated frame
+  isComplete: (state: LivenessState) => boolean;
+
+  // Reset challenge state when the step is entered
+  reset?: (state: LivenessState, env: ChallengeEnvironment) => ChallengeUpdate;
+}
@@ -0,0 +1,122 @@
+// Wink challenges - one eye closes below its own calibrated threshold while the other stays open
+
+import { Eye } from 'lucide-react';
+import { CONFIG, BlinkState, initialBlinkState } from '@/types/liveness';
+import { getEyeState } from '@/utils/ear';
+import { calibrateEyes, getEyeClosure, smoothEyes } from './blink';
+import type { LivenessChallenge } from './types';
+
+type WinkEye = 'left' | 'right';
+
+interface WinkOptions {
+  id: 'WINK_LEFT' | 'WINK_RIGHT';
+  label: string;
+  instruction: string;
+  eye: WinkEye; // The user's own eye, not the screen side
+}
+
+/**
+ * Create a wink challenge for one eye
+ */
+function createWinkChallenge({ id, label, instruction, eye }: WinkOptions): LivenessChallenge {
+  const other: WinkEye = eye === 'left' ? 'right' : 'left';
+
+  return {
+    id,
+    label,
+    instruction,
+    icon: Eye,
+    animateIcon: true,
+
+    getHint: (state) => {
+      const { isCalibrating, winkError } = state.blinkState;
+
+      if (isCalibrating) return 'Calibrating eye detection...';
+      if (winkError === 'BOTH_EYES') return `Keep your ${other} eye open`;
+      if (winkError === 'WRONG_EYE') return `That was your ${other} eye - wink your ${eye} eye`;
+      return `Close only your ${eye} eye, then open it`;
+    },
+
+    getMetric: ({ smoothed, blinkState }) => eye === 'left'
+      ? getEyeClosure(smoothed.leftEAR, blinkState.leftOpenBaseline)
+      : getEyeClosure(smoothed.rightEAR, blinkState.rightOpenBaseline),
+
+    evaluate: ({ state, metrics, now }) => {
+      const smoothed = smoothEyes(metrics, state.smoothed);
+
+      // Calibration phase
+      if (state.blinkState.isCalibrating) {
+        return { smoothed, blinkState: calibrateEyes(state.blinkState, smoothed) };
+      }
+
+      // Check if in cooldown
+      if (now - state.blinkState.lastBlinkTime < CONFIG.BLINK_COOLDOWN_MS) {
+        return { smoothed };
+      }
+
+      const blinkState: BlinkState = { ...state.blinkState };
+
+      const targetEAR = eye === 'left' ? smoothed.leftEAR : smoothed.rightEAR;
+      const otherEAR = eye === 'left' ? smoothed.rightEAR : smoothed.leftEAR;
+      const targetBaseline = eye === 'left' ? blinkState.leftOpenBaseline : blinkState.rightOpenBaseline;
+      const otherBaseline = eye === 'left' ? blinkState.rightOpenBaseline : blinkState.leftOpenBaseline;
+
+      const targetState = getEyeState(targetEAR, targetBaseline, CONFIG.CLOSED_THRESHOLD_RATIO);
+      const otherState = getEyeState(otherEAR, otherBaseline, CONFIG.CLOSED_THRESHOLD_RATIO);
+      const otherOpen = otherEAR >= otherBaseline * CONFIG.WINK_OPEN_EYE_RATIO;
+
+      if (targetState === 'CLOSED') {
+        if (otherOpen) {
+          blinkState.closedFrameCount++;
+          blinkState.openFrameCount = 0;
+          blinkState.winkError = null;
+        } else {
+          // Both eyes closing is a blink, not a wink
+          blinkState.closedFrameCount = 0;
+          blinkState.openFrameCount = 0;
+          blinkState.winkError = 'BOTH_EYES';
+        }
+        blinkState.eyeState = 'CLOSED';
+      } else if (otherState === 'CLOSED') {
+        blinkState.closedFrameCount = 0;
+        blinkState.openFrameCount = 0;
+        blinkState.winkError = 'WRONG_EYE';
+        blinkState.eyeState = 'OPEN';
+      } else {
+        // Check if we had enough closed frames
+        if (blinkState.closedFrameCount >= CONFIG.CLOSED_FRAME_THRESHOLD) {
+          blinkState.openFrameCount++;
+
+          if (blinkState.openFrameCount >= CONFIG.OPEN_FRAME_THRESHOLD) {
+            // Wink detected!
+            blinkState.blinkDetected = true;
+            blinkState.lastBlinkTime = now;
+          }
+        } else {
+          blinkState.closedFrameCount = 0;
+        }
+        blinkState.eyeState = 'OPEN';
+      }
+
+      return { smoothed, blinkState };
+    },
+
+    isComplete: (state) => state.blinkState.blinkDetected,
+
+    reset: () => ({ blinkState: { ...initialBlinkState } }),
+  };
+}
+
+export const winkLeftChallenge = createWinkChallenge({
+  id: 'WINK_LEFT',
+  label: 'Wink L',
+  instruction: 'Wink your left eye',
+  eye: 'left',
+});
+
+export const winkRightChallenge = createWinkChallenge({
+  id: 'WINK_RIGHT',
+  label: 'Wink R',
+  instruction: 'Wink your right eye',
+  eye: 'right',
+});
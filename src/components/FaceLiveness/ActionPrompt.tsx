@@ -1,42 +1,26 @@
 // Modern action prompt with smooth animated feedback
 
-import { Eye, User, MoveLeft, MoveRight, MoveUp, MoveDown, CheckCircle2, AlertCircle } from 'lucide-react';
+import { User, CheckCircle2, AlertCircle } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { LivenessStep, STEP_INSTRUCTIONS } from '@/types/liveness';
+import { LivenessStep } from '@/types/liveness';
+import { getChallenge, getStepInstruction } from '@/challenges';
 
 interface ActionPromptProps {
   currentStep: LivenessStep;
   error: string | null;
-  isCalibrating?: boolean;
+  hint?: string | null;
 }
 
-const STEP_ICONS: Record<LivenessStep, React.ElementType> = {
+const LIFECYCLE_ICONS: Record<string, React.ElementType> = {
   IDLE: User,
-  ALIGN: User,
-  BLINK: Eye,
-  TURN_LEFT: MoveLeft,
-  TURN_RIGHT: MoveRight,
-  TURN_UP: MoveUp,
-  TURN_DOWN: MoveDown,
   SUCCESS: CheckCircle2,
 };
 
-export function ActionPrompt({ currentStep, error, isCalibrating }: ActionPromptProps) {
-  const Icon = error ? AlertCircle : STEP_ICONS[currentStep];
-  const instruction = error || STEP_INSTRUCTIONS[currentStep];
-
-  const getSubtext = () => {
-    if (error) return null;
-    if (isCalibrating && currentStep === 'BLINK') return 'Calibrating eye detection...';
-    if (currentStep === 'BLINK') return 'Close and open your eyes naturally';
-    if (currentStep === 'ALIGN') return 'Position your face within the frame';
-    if (['TURN_LEFT', 'TURN_RIGHT', 'TURN_UP', 'TURN_DOWN'].includes(currentStep)) {
-      return 'Hold the position briefly';
-    }
-    return null;
-  };
-
-  const subtext = getSubtext();
+export function ActionPrompt({ currentStep, error, hint }: ActionPromptProps) {
+  const challenge = getChallenge(currentStep);
+  const Icon = error ? AlertCircle : challenge?.icon ?? LIFECYCLE_ICONS[currentStep] ?? User;
+  const instruction = error || getStepInstruction(currentStep);
+  const subtext = error ? null : hint;
 
   return (
     <div
@@ -59,7 +43,7 @@ export function ActionPrompt({ currentStep, error, isCalibrating }: ActionPrompt
       >
         <Icon className={cn(
           "w-5 h-5 sm:w-6 sm:h-6 transition-transform duration-300",
-          !error && currentStep === 'BLINK' && "animate-pulse"
+          !error && challenge?.animateIcon && "animate-pulse"
         )} />
       </div>
 
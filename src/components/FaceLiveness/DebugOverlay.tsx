@@ -2,6 +2,10 @@
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { ShieldAlert, ShieldCheck } from 'lucide-react';
+import type { HeadPose3D } from '@/utils/headPose3d';
+import type { TextureMetrics } from '@/utils/texture';
+import type { PulseMetrics } from '@/utils/pulse';
+import type { SpoofVerdict } from '@/detectors';
 
 interface DebugOverlayProps {
   isVisible: boolean;
@@ -15,11 +19,17 @@ interface DebugOverlayProps {
   yawDelta: number;
   pitchDelta: number;
   rollMetric: number;
+  headPose?: HeadPose3D | null;
   alignedFrames: number;
   heldFrames: number;
+  browRaise?: number;
   // Anti-spoof metrics
   depthVariance?: number;
   microMovement?: number;
+  textureScore?: number;
+  texture?: TextureMetrics | null;
+  pulse?: PulseMetrics | null;
+  spoofVerdict?: SpoofVerdict | null;
   spoofScore?: number;
   isSpoof?: boolean;
 }
@@ -36,10 +46,16 @@ export function DebugOverlay({
   yawDelta,
   pitchDelta,
   rollMetric,
+  headPose = null,
   alignedFrames,
   heldFrames,
+  browRaise = 0,
   depthVariance = 0,
   microMovement = 0,
+  textureScore = 0,
+  texture = null,
+  pulse = null,
+  spoofVerdict = null,
   spoofScore = 0,
   isSpoof = false,
 }: DebugOverlayProps) {
@@ -93,12 +109,49 @@ export function DebugOverlay({
             <span className="text-muted-foreground">Movement:</span>
             <span className="font-mono">{(microMovement * 100).toFixed(2)}</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Texture:</span>
+            <span className={`font-mono ${textureScore >= 0.5 ? 'text-destructive' : 'text-success'}`}>
+              {(textureScore * 100).toFixed(0)}%
+            </span>
+          </div>
+          {texture && (
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">HF/Moiré/Band/LBP:</span>
+              <span className="font-mono">
+                {[texture.highFrequency, texture.moire, texture.banding, texture.lbpNonUniform]
+                  .map(value => value.toFixed(2))
+                  .join(' ')}
+              </span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Pulse:</span>
+            {pulse ? (
+              <span className={`font-mono ${pulse.score < 0.5 ? 'text-destructive' : 'text-success'}`}>
+                {pulse.heartRate} bpm {pulse.snr.toFixed(1)} dB
+              </span>
+            ) : (
+              <span className="font-mono text-muted-foreground">--</span>
+            )}
+          </div>
           <div className="flex justify-between">
             <span className="text-muted-foreground">Spoof Score:</span>
-            <span className={`font-mono ${spoofScore >= 0.6 ? 'text-destructive' : 'text-success'}`}>
+            <span className={`font-mono ${spoofScore >= (spoofVerdict?.threshold ?? 0.6) ? 'text-destructive' : 'text-success'}`}>
               {(spoofScore * 100).toFixed(0)}%
             </span>
           </div>
+          {spoofVerdict?.detectors.map(detector => (
+            <div key={detector.id} className="flex justify-between">
+              <span className="text-muted-foreground">
+                {detector.label}{detector.veto ? ' (veto)' : ''}:
+              </span>
+              <span className={`font-mono ${detector.contribution > 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                {(detector.score * 100).toFixed(0)}% × {detector.weight.toFixed(2)}
+                {detector.confidence < 1 ? ` @${(detector.confidence * 100).toFixed(0)}%` : ''}
+              </span>
+            </div>
+          ))}
         </div>
         
         <div className="border-t border-muted my-1 pt-1">
@@ -137,6 +190,24 @@ export function DebugOverlay({
             <span className="text-muted-foreground">Roll:</span>
             <span className="font-mono">{rollMetric.toFixed(3)}</span>
           </div>
+          {headPose && (
+            <>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">3D Y/P/R:</span>
+                <span className="font-mono">
+                  {headPose.yaw.toFixed(0)}° {headPose.pitch.toFixed(0)}° {headPose.roll.toFixed(0)}°
+                </span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Reproj:</span>
+                <span className="font-mono">{headPose.reprojectionError.toFixed(1)}px</span>
+              </div>
+            </>
+          )}
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Brow Δ:</span>
+            <span className="font-mono">{browRaise.toFixed(3)}</span>
+          </div>
         </div>
         
         <div className="border-t border-muted my-1 pt-1">
@@ -3,6 +3,7 @@
 import { ArrowLeft, ArrowRight, ArrowUp, ArrowDown } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { LivenessStep } from '@/types/liveness';
+import { getChallenge } from '@/challenges';
 
 interface DirectionGuideProps {
   currentStep: LivenessStep;
@@ -10,21 +11,22 @@ interface DirectionGuideProps {
 }
 
 export function DirectionGuide({ currentStep, progress }: DirectionGuideProps) {
-  if (!['TURN_LEFT', 'TURN_RIGHT', 'TURN_UP', 'TURN_DOWN'].includes(currentStep)) {
+  const direction = getChallenge(currentStep)?.direction;
+  if (!direction) {
     return null;
   }
 
   const getArrowConfig = () => {
     // Positions are mirrored to match the camera's mirror view
     // When user turns left, their head moves to the RIGHT side of the screen
-    switch (currentStep) {
-      case 'TURN_LEFT':
+    switch (direction) {
+      case 'left':
         return { Icon: ArrowLeft, position: 'right-3 sm:right-6 top-1/2 -translate-y-1/2', animate: 'animate-bounce-right' };
-      case 'TURN_RIGHT':
+      case 'right':
         return { Icon: ArrowRight, position: 'left-3 sm:left-6 top-1/2 -translate-y-1/2', animate: 'animate-bounce-left' };
-      case 'TURN_UP':
+      case 'up':
         return { Icon: ArrowUp, position: 'top-3 sm:top-6 left-1/2 -translate-x-1/2', animate: 'animate-bounce-up' };
-      case 'TURN_DOWN':
+      case 'down':
         return { Icon: ArrowDown, position: 'bottom-3 sm:bottom-6 left-1/2 -translate-x-1/2', animate: 'animate-bounce-down' };
       default:
         return null;
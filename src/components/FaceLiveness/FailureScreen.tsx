@@ -0,0 +1,68 @@
+// Failure screen component
+
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { XCircle } from 'lucide-react';
+import type { LivenessFailure } from '@/types/liveness';
+import { getStepLabel } from '@/challenges';
+
+interface FailureScreenProps {
+  failure: LivenessFailure | null;
+  onRestart: () => void;
+}
+
+export function FailureScreen({ failure, onRestart }: FailureScreenProps) {
+  return (
+    <div className="flex flex-col items-center justify-center min-h-[350px] sm:min-h-[400px] p-4 sm:p-6">
+      <div className="animate-in fade-in zoom-in duration-500 w-full">
+        <div className="flex justify-center mb-4 sm:mb-6">
+          <div className="w-20 h-20 sm:w-24 sm:h-24 rounded-full bg-destructive/10 flex items-center justify-center">
+            <XCircle className="w-10 h-10 sm:w-12 sm:h-12 text-destructive" />
+          </div>
+        </div>
+        
+        <Card className="w-full max-w-md mx-auto">
+          <CardHeader className="text-center pb-2 sm:pb-4">
+            <CardTitle className="text-xl sm:text-2xl text-destructive">
+              Verification Failed
+            </CardTitle>
+            <CardDescription className="text-sm">
+              {failure?.message ?? 'We could not verify your face liveness'}
+            </CardDescription>
+          </CardHeader>
+          
+          <CardContent className="space-y-3 sm:space-y-4">
+            {failure && (
+              <div className="bg-muted rounded-lg p-3 sm:p-4 text-xs sm:text-sm space-y-2">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Reason:</span>
+                  <span className="font-mono">{failure.reason}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Failed Step:</span>
+                  <span className="font-mono">{getStepLabel(failure.step)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Steps Completed:</span>
+                  <span className="font-mono">{failure.stepsCompleted.length}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Attempts:</span>
+                  <span className="font-mono">{failure.attempts}</span>
+                </div>
+              </div>
+            )}
+            
+            <Button 
+              onClick={onRestart} 
+              className="w-full"
+              size="lg"
+            >
+              Try Again
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+// Gaze target dot for eye-following challenges
+
+import { ViewPoint } from '@/types/liveness';
+
+interface GazeDotProps {
+  target: ViewPoint | null; // View coordinates, -1 to 1 on both axes
+}
+
+export function GazeDot({ target }: GazeDotProps) {
+  if (!target) return null;
+
+  return (
+    <div
+      className="absolute z-10 -translate-x-1/2 -translate-y-1/2 transition-all duration-150 ease-out"
+      style={{
+        left: `${50 + target.x * 50}%`,
+        top: `${50 + target.y * 50}%`,
+      }}
+    >
+      {/* Pulsing halo */}
+      <div className="absolute inset-0 rounded-full bg-primary/30 scale-[2.5] animate-ping" />
+      <div className="relative w-4 h-4 sm:w-5 sm:h-5 rounded-full bg-primary border-2 border-background shadow-lg" />
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+// Full-screen color for reflection-based challenges
+
+import { createPortal } from 'react-dom';
+
+interface ScreenFlashProps {
+  color: string | null; // CSS color; null hides the flash
+}
+
+export function ScreenFlash({ color }: ScreenFlashProps) {
+  if (!color) return null;
+
+  // Portal to the body so transformed ancestors can't shrink it to the camera view.
+  // No transition: the analyzer times each color from the moment it is shown.
+  return createPortal(
+    <div
+      className="fixed inset-0 z-50 pointer-events-none"
+      style={{ backgroundColor: color }}
+      aria-hidden="true"
+    />,
+    document.body
+  );
+}
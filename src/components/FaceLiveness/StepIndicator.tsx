@@ -1,8 +1,9 @@
 // Modern step indicator with icons and smooth animations
 
-import { Check, Eye, MoveLeft, MoveRight, MoveUp, MoveDown, User } from 'lucide-react';
+import { Check, User } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { LivenessStep } from '@/types/liveness';
+import { getChallenge, getStepLabel } from '@/challenges';
 
 interface StepIndicatorProps {
   currentStep: LivenessStep;
@@ -10,33 +11,16 @@ interface StepIndicatorProps {
   stepOrder: LivenessStep[];
 }
 
-const STEP_ICONS: Record<LivenessStep, React.ElementType> = {
+const LIFECYCLE_ICONS: Record<string, React.ElementType> = {
   IDLE: User,
-  ALIGN: User,
-  BLINK: Eye,
-  TURN_LEFT: MoveLeft,
-  TURN_RIGHT: MoveRight,
-  TURN_UP: MoveUp,
-  TURN_DOWN: MoveDown,
   SUCCESS: Check,
 };
 
-const STEP_LABELS: Record<LivenessStep, string> = {
-  IDLE: 'Ready',
-  ALIGN: 'Align',
-  BLINK: 'Blink',
-  TURN_LEFT: 'Left',
-  TURN_RIGHT: 'Right',
-  TURN_UP: 'Up',
-  TURN_DOWN: 'Down',
-  SUCCESS: 'Done',
-};
-
 export function StepIndicator({ currentStep, completedSteps, stepOrder }: StepIndicatorProps) {
   return (
     <div className="flex items-center justify-center gap-1 sm:gap-2 px-2 animate-fade-in">
       {stepOrder.map((step, index) => {
-        const Icon = STEP_ICONS[step];
+        const Icon = getChallenge(step)?.icon ?? LIFECYCLE_ICONS[step] ?? User;
         const isCompleted = completedSteps.includes(step);
         const isCurrent = currentStep === step;
         const isPending = !isCompleted && !isCurrent;
@@ -76,7 +60,7 @@ export function StepIndicator({ currentStep, completedSteps, stepOrder }: StepIn
                   isPending && "text-muted-foreground"
                 )}
               >
-                {STEP_LABELS[step]}
+                {getStepLabel(step)}
               </span>
             </div>
             
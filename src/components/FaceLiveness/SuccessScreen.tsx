@@ -1,16 +1,65 @@
 // Success screen component
 
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { CheckCircle } from 'lucide-react';
-import type { LivenessResult } from '@/types/liveness';
+import type { LivenessResult, StepRecord } from '@/types/liveness';
+import { getChallenge } from '@/challenges';
 
 interface SuccessScreenProps {
   result: LivenessResult | null;
   onRestart: () => void;
 }
 
+// Object URL for an image blob, revoked when the blob changes
+function useObjectUrl(blob: Blob | undefined): string | null {
+  const [url, setUrl] = useState<string | null>(null);
+  
+  useEffect(() => {
+    if (!blob) {
+      setUrl(null);
+      return;
+    }
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  
+  return url;
+}
+
+function StepSummary({ record }: { record: StepRecord }) {
+  const evidenceUrl = useObjectUrl(record.evidenceFrame?.blob);
+  const seconds = ((record.completedAt - record.enteredAt) / 1000).toFixed(1);
+  
+  return (
+    <li className="flex items-center gap-3">
+      {evidenceUrl ? (
+        <img
+          src={evidenceUrl}
+          alt=""
+          className="w-10 h-8 rounded object-cover shrink-0"
+          style={{ transform: 'scaleX(-1)' }}
+        />
+      ) : (
+        <div className="w-10 h-8 rounded bg-background shrink-0" />
+      )}
+      <span className="flex-1 truncate">{getChallenge(record.step)?.label ?? record.step}</span>
+      {record.peakMetric !== null && (
+        <span className="font-mono text-muted-foreground">{record.peakMetric.toFixed(2)}</span>
+      )}
+      {record.attempts > 1 && (
+        <span className="text-muted-foreground">×{record.attempts}</span>
+      )}
+      <span className="font-mono w-12 text-right">{seconds}s</span>
+    </li>
+  );
+}
+
 export function SuccessScreen({ result, onRestart }: SuccessScreenProps) {
+  const selfieUrl = useObjectUrl(result?.bestFrame?.blob);
+  
   return (
     <div className="flex flex-col items-center justify-center min-h-[350px] sm:min-h-[400px] p-4 sm:p-6">
       <div className="animate-in fade-in zoom-in duration-500 w-full">
@@ -31,6 +80,15 @@ export function SuccessScreen({ result, onRestart }: SuccessScreenProps) {
           </CardHeader>
           
           <CardContent className="space-y-3 sm:space-y-4">
+            {selfieUrl && (
+              <img
+                src={selfieUrl}
+                alt="Captured selfie"
+                className="w-32 h-32 sm:w-40 sm:h-40 mx-auto rounded-lg object-cover"
+                style={{ transform: 'scaleX(-1)' }}
+              />
+            )}
+            
             {result && (
               <div className="bg-muted rounded-lg p-3 sm:p-4 text-xs sm:text-sm space-y-2">
                 <div className="flex justify-between">
@@ -54,6 +112,14 @@ export function SuccessScreen({ result, onRestart }: SuccessScreenProps) {
               </div>
             )}
             
+            {result && result.steps.length > 0 && (
+              <ul className="bg-muted rounded-lg p-3 sm:p-4 text-xs sm:text-sm space-y-2">
+                {result.steps.map((record, i) => (
+                  <StepSummary key={`${record.step}-${i}`} record={record} />
+                ))}
+              </ul>
+            )}
+            
             <Button 
               onClick={onRestart} 
               className="w-full"
@@ -5,28 +5,81 @@ import { Button } from '@/components/ui/button';
 import { Switch } from '@/components/ui/switch';
 import { Label } from '@/components/ui/label';
 import { Loader2, Camera, RefreshCcw, Bug, Shield } from 'lucide-react';
+import type { Face as DetectedFace } from '@tensorflow-models/face-landmarks-detection';
 
 import { useCamera } from '@/hooks/useCamera';
 import { useFaceDetector, Face } from '@/hooks/useFaceDetector';
 import { useRafThrottleLoop } from '@/hooks/useRafThrottleLoop';
 import { useLivenessStateMachine } from '@/hooks/useLivenessStateMachine';
+import { useBestFrame, BestFrameOptions } from '@/hooks/useBestFrame';
+import { useSessionRecorder } from '@/hooks/useSessionRecorder';
+import { useTextureAnalyzer } from '@/hooks/useTextureAnalyzer';
+import { useReflectionSampler } from '@/hooks/useReflectionSampler';
+import { usePulseSampler } from '@/hooks/usePulseSampler';
+import { useReplaySampler } from '@/hooks/useReplaySampler';
 
 import { CameraView } from './CameraView';
 import { StepIndicator } from './StepIndicator';
 import { ActionPrompt } from './ActionPrompt';
 import { DirectionGuide } from './DirectionGuide';
+import { GazeDot } from './GazeDot';
+import { ScreenFlash } from './ScreenFlash';
 import { DebugOverlay } from './DebugOverlay';
 import { SuccessScreen } from './SuccessScreen';
+import { FailureScreen } from './FailureScreen';
 
-import { CONFIG, BoundingBox, LivenessResult } from '@/types/liveness';
+import {
+  CONFIG,
+  BoundingBox,
+  EvidenceFrame,
+  LivenessResult,
+  LivenessFailure,
+  LivenessStep,
+  PoseSource,
+  SessionChallenge,
+} from '@/types/liveness';
+import { getChallenge } from '@/challenges';
+import { createAttestationKey, hashVideoFrame, signLivenessAttestation } from '@/attestation';
+import type { SessionRecorderOptions } from '@/recording';
+import type { AntiSpoofPolicy } from '@/detectors';
+import { TraceRecorder, LandmarkTrace } from '@/trace';
 import { isFaceInsideGuide, calculateBoundingBox } from '@/utils/landmarks';
+import { captureVideoFrame } from '@/utils/capture';
 import { cn } from '@/lib/utils';
 
 interface FaceLivenessProps {
   onSuccess?: (result: LivenessResult) => void;
+  onFailure?: (failure: LivenessFailure) => void;
+  steps?: LivenessStep[]; // Challenge ids to randomize after ALIGN
+  challenge?: SessionChallenge; // Backend-issued challenge; overrides `steps`
+  attestationKey?: CryptoKeyPair; // Key registered with the challenge; required to sign challenge sessions
+  bestFrame?: BestFrameOptions | false; // Selfie returned in the result; false disables capture
+  recording?: SessionRecorderOptions | boolean; // Opt-in session video for success and failure callbacks
+  onTrace?: (trace: LandmarkTrace) => void; // Landmark trace of each finished session, for offline replay
+  stepTimeoutMs?: number;
+  stepTimeouts?: Partial<Record<LivenessStep, number>>;
+  sessionTimeoutMs?: number;
+  maxAttempts?: number;
+  antiSpoof?: AntiSpoofPolicy; // Anti-spoof detector weights, vetoes and threshold
+  poseSource?: PoseSource; // Where the TURN_* steps read yaw/pitch from; defaults to CONFIG.POSE_SOURCE
 }
 
-export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
+export function FaceLiveness({
+  onSuccess,
+  onFailure,
+  steps,
+  challenge,
+  attestationKey,
+  bestFrame,
+  recording,
+  onTrace,
+  stepTimeoutMs,
+  stepTimeouts,
+  sessionTimeoutMs,
+  maxAttempts,
+  antiSpoof,
+  poseSource,
+}: FaceLivenessProps) {
   const [isStarted, setIsStarted] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [showLandmarks, setShowLandmarks] = useState(false);
@@ -34,18 +87,119 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
   const [guideBox, setGuideBox] = useState<BoundingBox | null>(null);
   const [fps, setFps] = useState(0);
   const [result, setResult] = useState<LivenessResult | null>(null);
+  const [failure, setFailure] = useState<LivenessFailure | null>(null);
   const [loadingMessage, setLoadingMessage] = useState('');
   
   const frameCountRef = useRef(0);
   const fpsIntervalRef = useRef<number | null>(null);
+  const frameHashesRef = useRef<Promise<string | null>[]>([]);
+  const evidenceFramesRef = useRef<Partial<Record<LivenessStep, Promise<EvidenceFrame | null>>>>({});
+  const screenColorRef = useRef<string | null>(null); // Color a challenge filled the screen with this frame
   
   const camera = useCamera();
   const detector = useFaceDetector();
-  const livenessState = useLivenessStateMachine((livenessResult) => {
-    setResult(livenessResult);
-    onSuccess?.(livenessResult);
+  const {
+    consider: considerBestFrame,
+    getBestFrame,
+    reset: resetBestFrame,
+  } = useBestFrame(camera.videoRef, bestFrame || undefined);
+  const { analyze: analyzeTexture, reset: resetTexture } = useTextureAnalyzer(camera.videoRef);
+  const { sample: sampleReflection } = useReflectionSampler(camera.videoRef);
+  const { sample: samplePulse } = usePulseSampler(camera.videoRef);
+  const { sample: sampleReplay } = useReplaySampler(camera.videoRef);
+  const [traceRecorder] = useState(() => new TraceRecorder());
+  const recorder = useSessionRecorder(camera.stream, recording === true ? {} : recording || false);
+  
+  // Downscaled frame at the moment a step completes, keyed by that step
+  const captureEvidence = (step: LivenessStep, at: number) => {
+    const video = camera.videoRef.current;
+    // A frame lit by a flash color is not evidence of what the face looks like
+    const capture = video && !screenColorRef.current
+      ? captureVideoFrame(video, CONFIG.EVIDENCE_FRAME_WIDTH, CONFIG.EVIDENCE_FRAME_JPEG_QUALITY)
+      : Promise.resolve(null);
+    evidenceFramesRef.current[step] = capture
+      .then(image => (image ? { ...image, capturedAt: at } : null))
+      .catch(() => null);
+  };
+  
+  // Pair each step record with the frame captured when that step completed
+  const attachEvidence = async (livenessResult: LivenessResult): Promise<LivenessResult> => {
+    const steps = await Promise.all(livenessResult.steps.map(async (record) => {
+      const frame = await evidenceFramesRef.current[record.step];
+      return frame ? { ...record, evidenceFrame: frame } : record;
+    }));
+    return { ...livenessResult, steps };
+  };
+  
+  // Attach the best frame before signing so its hash is covered by the attestation
+  const attachBestFrame = async (livenessResult: LivenessResult): Promise<LivenessResult> => {
+    if (bestFrame === false) return livenessResult;
+    try {
+      const frame = await getBestFrame();
+      return frame ? { ...livenessResult, bestFrame: frame } : livenessResult;
+    } catch (err) {
+      console.warn('Could not capture best frame:', err);
+      return livenessResult;
+    }
+  };
+  
+  // Sign the result; falls back to the unsigned result without WebCrypto.
+  // A server-issued challenge is only verifiable with the key registered for it, so a fresh
+  // session key is limited to locally shuffled sessions.
+  const attestResult = async (livenessResult: LivenessResult): Promise<LivenessResult> => {
+    if (challenge && (!attestationKey || !challenge.keyThumbprint)) {
+      console.warn('Result not signed: register attestationKey with the challenge issuer (keyThumbprint)');
+      return livenessResult;
+    }
+    try {
+      const video = camera.videoRef.current;
+      const hashes = await Promise.all([
+        ...frameHashesRef.current,
+        video ? hashVideoFrame(video) : null,
+      ]);
+      const keyPair = attestationKey ?? await createAttestationKey();
+      const attestation = await signLivenessAttestation(livenessResult, keyPair, hashes.filter(Boolean));
+      return { ...livenessResult, attestation };
+    } catch (err) {
+      console.warn('Could not sign liveness result:', err);
+      return livenessResult;
+    }
+  };
+  
+  const livenessState = useLivenessStateMachine(async (livenessResult) => {
+    const withFrames = await attachBestFrame(await attachEvidence(livenessResult));
+    const sessionRecording = await recorder.takeRecording();
+    const signedResult = await attestResult(
+      sessionRecording ? { ...withFrames, recording: sessionRecording } : withFrames
+    );
+    onTrace?.(traceRecorder.finish());
+    setResult(signedResult);
+    onSuccess?.(signedResult);
+  }, {
+    steps,
+    challenge,
+    stepTimeoutMs,
+    stepTimeouts,
+    sessionTimeoutMs,
+    maxAttempts,
+    antiSpoof,
+    poseSource,
+    onStepCompleted: captureEvidence,
+    onEvent: recorder.handleEvent,
+    trace: onTrace ? traceRecorder : undefined,
+    onFailure: async (livenessFailure) => {
+      onTrace?.(traceRecorder.finish());
+      const sessionRecording = await recorder.takeRecording();
+      const failureWithRecording = sessionRecording
+        ? { ...livenessFailure, recording: sessionRecording }
+        : livenessFailure;
+      setFailure(failureWithRecording);
+      onFailure?.(failureWithRecording);
+    },
   });
   
+  const isSessionOver = livenessState.state.isComplete || livenessState.state.failure !== null;
+  
   const calculateGuideBox = useCallback((): BoundingBox | null => {
     const video = camera.videoRef.current;
     if (!video || video.videoWidth === 0) return null;
@@ -60,7 +214,7 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
   
   const onFrame = useCallback(async () => {
     const video = camera.videoRef.current;
-    if (!video || !detector.isReady || livenessState.state.isComplete) return;
+    if (!video || !detector.isReady || isSessionOver) return;
     
     if (!guideBox) {
       const newGuideBox = calculateGuideBox();
@@ -72,16 +226,71 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
     const face = faces.length > 0 ? faces[0] : null;
     setCurrentFace(face);
     
-    livenessState.processFace(face as any, guideBox);
+    // The detector returns tfjs faces; the hook's Face only declares what the view draws
+    const detected = face as DetectedFace | null;
+    const now = Date.now();
+    // Reflections are only measured while a challenge is flashing the screen; the flashes
+    // would swamp the pulse, so it is not sampled meanwhile
+    const screenColor = getChallenge(livenessState.state.currentStep)?.getScreenColor?.(livenessState.state) ?? null;
+    const flashing = screenColor !== null;
+    screenColorRef.current = screenColor;
+    const signals = detected
+      ? {
+          texture: analyzeTexture(detected, now),
+          videoFrame: sampleReplay(detected),
+          cameraTrust: camera.cameraTrust,
+          ...(flashing ? { reflection: sampleReflection(detected) } : { skinGreen: samplePulse(detected) }),
+        }
+      : {};
+    
+    livenessState.processFace(detected, guideBox, faces.length, signals);
     frameCountRef.current++;
-  }, [camera.videoRef, detector, livenessState, guideBox, calculateGuideBox]);
+    
+    // Only a single face inside the guide is a selfie candidate
+    if (bestFrame !== false && detected && faces.length === 1) {
+      if (isFaceInsideGuide(calculateBoundingBox(detected), guideBox, CONFIG.INSIDE_GUIDE_MARGIN)) {
+        const { baselineMetrics } = livenessState.state;
+        considerBestFrame(detected, {
+          openEAR: baselineMetrics?.openEAR,
+          pitch: baselineMetrics?.pitchMetric,
+        }, now, screenColor);
+      }
+    }
+  }, [
+    camera.videoRef, detector, livenessState, isSessionOver, guideBox, calculateGuideBox,
+    bestFrame, considerBestFrame, analyzeTexture, sampleReflection, samplePulse, sampleReplay, camera.cameraTrust,
+  ]);
   
   useRafThrottleLoop({
     targetFPS: CONFIG.TARGET_FPS,
     onFrame,
-    enabled: isStarted && camera.hasPermission && detector.isReady && !livenessState.state.isComplete,
+    enabled: isStarted && camera.hasPermission && detector.isReady && !isSessionOver,
   });
   
+  // Fingerprint a frame at each completed step (the final one is taken when signing)
+  const completedCount = livenessState.state.completedSteps.length;
+  const isComplete = livenessState.state.isComplete;
+  useEffect(() => {
+    if (completedCount === 0) {
+      frameHashesRef.current = [];
+      evidenceFramesRef.current = {};
+      resetBestFrame();
+      resetTexture();
+      return;
+    }
+    const video = camera.videoRef.current;
+    if (video && !isComplete) {
+      frameHashesRef.current.push(hashVideoFrame(video));
+    }
+  }, [completedCount, isComplete, camera.videoRef, resetBestFrame, resetTexture]);
+  
+  // Leaving mid-session counts as an aborted attempt
+  const abortRef = useRef(livenessState.abort);
+  abortRef.current = livenessState.abort;
+  useEffect(() => {
+    return () => abortRef.current();
+  }, []);
+  
   useEffect(() => {
     if (isStarted && detector.isReady) {
       fpsIntervalRef.current = window.setInterval(() => {
@@ -97,6 +306,7 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
   
   const handleStart = async () => {
     setResult(null);
+    setFailure(null);
     setLoadingMessage('Starting camera...');
     
     try {
@@ -118,7 +328,9 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
   };
   
   const handleRestart = () => {
+    recorder.cancel();
     setResult(null);
+    setFailure(null);
     setCurrentFace(null);
     const newGuideBox = calculateGuideBox();
     setGuideBox(newGuideBox);
@@ -130,13 +342,12 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
     ? isFaceInsideGuide(calculateBoundingBox(currentFace as any), guideBox, CONFIG.INSIDE_GUIDE_MARGIN)
     : false;
   
+  const currentChallenge = getChallenge(livenessState.state.currentStep);
+  
   // Calculate direction progress for visual feedback
   const getDirectionProgress = () => {
-    const step = livenessState.state.currentStep;
-    if (!['TURN_LEFT', 'TURN_RIGHT', 'TURN_UP', 'TURN_DOWN'].includes(step)) return 0;
-    
-    const heldFrames = debugInfo.heldFrames;
-    return Math.min((heldFrames / CONFIG.POSE_HELD_FRAMES) * 100, 100);
+    if (!currentChallenge?.direction) return 0;
+    return currentChallenge.getProgress?.(livenessState.state) ?? 0;
   };
   
   // Show success screen
@@ -148,6 +359,15 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
     );
   }
   
+  // Show failure screen
+  if (livenessState.state.failure && failure) {
+    return (
+      <div className="w-full max-w-2xl mx-auto p-4 animate-fade-in-scale">
+        <FailureScreen failure={failure} onRestart={handleRestart} />
+      </div>
+    );
+  }
+  
   // Loading state
   if (loadingMessage) {
     return (
@@ -244,6 +464,12 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
           progress={getDirectionProgress()}
         />
         
+        {/* Gaze target */}
+        <GazeDot target={currentChallenge?.getTarget?.(livenessState.state) ?? null} />
+        
+        {/* Screen color for reflection challenges */}
+        <ScreenFlash color={currentChallenge?.getScreenColor?.(livenessState.state) ?? null} />
+        
         {/* Debug overlay */}
         <DebugOverlay
           isVisible={showDebug}
@@ -257,10 +483,16 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
           yawDelta={debugInfo.yawDelta}
           pitchDelta={debugInfo.pitchDelta}
           rollMetric={debugInfo.rollMetric}
+          headPose={debugInfo.headPose}
           alignedFrames={debugInfo.alignedFrames}
           heldFrames={debugInfo.heldFrames}
+          browRaise={debugInfo.browRaise}
           depthVariance={debugInfo.depthVariance}
           microMovement={debugInfo.microMovement}
+          textureScore={debugInfo.textureScore}
+          texture={debugInfo.texture}
+          pulse={debugInfo.pulse}
+          spoofVerdict={debugInfo.spoofVerdict}
           spoofScore={debugInfo.spoofScore}
           isSpoof={debugInfo.isSpoof}
         />
@@ -270,9 +502,15 @@ export function FaceLiveness({ onSuccess }: FaceLivenessProps) {
       <ActionPrompt
         currentStep={livenessState.state.currentStep}
         error={livenessState.state.error}
-        isCalibrating={livenessState.state.blinkState.isCalibrating}
+        hint={currentChallenge?.getHint?.(livenessState.state)}
       />
       
+      {livenessState.state.failedAttempts > 0 && (
+        <p className="text-center text-xs sm:text-sm text-muted-foreground">
+          Attempt {livenessState.state.failedAttempts + 1} of {maxAttempts ?? CONFIG.MAX_ATTEMPTS}
+        </p>
+      )}
+      
       {/* Controls */}
       <div className="flex items-center justify-between pt-1 sm:pt-2">
         <Button
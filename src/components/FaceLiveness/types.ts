@@ -1,10 +1,37 @@
 // FaceLiveness component types
 
 import type { Face } from '@/hooks/useFaceDetector';
-import type { BoundingBox, LivenessResult, LivenessStep } from '@/types/liveness';
+import type { BestFrameOptions } from '@/hooks/useBestFrame';
+import type { SessionRecorderOptions } from '@/recording';
+import type { LandmarkTrace } from '@/trace';
+import type { HeadPose3D } from '@/utils/headPose3d';
+import type { TextureMetrics } from '@/utils/texture';
+import type { PulseMetrics } from '@/utils/pulse';
+import type { AntiSpoofPolicy, SpoofVerdict } from '@/detectors';
+import type {
+  BoundingBox,
+  LivenessFailure,
+  LivenessResult,
+  LivenessStep,
+  PoseSource,
+  SessionChallenge,
+} from '@/types/liveness';
 
 export interface FaceLivenessProps {
   onSuccess?: (result: LivenessResult) => void;
+  onFailure?: (failure: LivenessFailure) => void;
+  steps?: LivenessStep[];
+  challenge?: SessionChallenge;
+  attestationKey?: CryptoKeyPair;
+  bestFrame?: BestFrameOptions | false;
+  recording?: SessionRecorderOptions | boolean;
+  onTrace?: (trace: LandmarkTrace) => void;
+  stepTimeoutMs?: number;
+  stepTimeouts?: Partial<Record<LivenessStep, number>>;
+  sessionTimeoutMs?: number;
+  maxAttempts?: number;
+  antiSpoof?: AntiSpoofPolicy;
+  poseSource?: PoseSource;
 }
 
 export interface CameraViewProps {
@@ -25,7 +52,7 @@ export interface StepIndicatorProps {
 export interface ActionPromptProps {
   currentStep: LivenessStep;
   error: string | null;
-  isCalibrating: boolean;
+  hint?: string | null;
 }
 
 export interface DirectionGuideProps {
@@ -45,10 +72,16 @@ export interface DebugOverlayProps {
   yawDelta: number;
   pitchDelta: number;
   rollMetric: number;
+  headPose: HeadPose3D | null;
   alignedFrames: number;
   heldFrames: number;
+  browRaise: number;
   depthVariance: number;
   microMovement: number;
+  textureScore: number;
+  texture: TextureMetrics | null;
+  pulse: PulseMetrics | null;
+  spoofVerdict: SpoofVerdict | null;
   spoofScore: number;
   isSpoof: boolean;
 }
@@ -57,3 +90,8 @@ export interface SuccessScreenProps {
   result: LivenessResult;
   onRestart: () => void;
 }
+
+export interface FailureScreenProps {
+  failure: LivenessFailure;
+  onRestart: () => void;
+}
@@ -0,0 +1,27 @@
+// Camera detector - virtual cameras inject pre-recorded footage into the stream (see utils/cameraTrust)
+
+import type { CameraTrust } from '@/utils/cameraTrust';
+import type { AntiSpoofDetector } from './types';
+
+declare module '@/types/liveness' {
+  interface FrameSignals {
+    cameraTrust?: CameraTrust | null; // Virtual camera assessment of the stream, from useCamera
+  }
+}
+
+// Latest assessment reported by the caller; null until then
+export const cameraDetector: AntiSpoofDetector<CameraTrust | null> = {
+  id: 'camera',
+  label: 'Camera',
+  // Enough to flag a named virtual camera on its own; suspicious traits alone stay below the threshold
+  weight: 0.6,
+
+  createState: () => null,
+
+  update: ({ signals }, cameraTrust) => signals.cameraTrust ?? cameraTrust,
+
+  evaluate: cameraTrust => {
+    if (!cameraTrust) return { score: 0, confidence: 0, reasons: [] };
+    return { score: cameraTrust.score, confidence: 1, reasons: cameraTrust.reasons };
+  },
+};
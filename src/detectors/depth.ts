@@ -0,0 +1,22 @@
+// Depth detector - photos and screens are flat, so their landmarks show little z-variance
+
+import { getDepthVariances } from '@/utils/antiSpoof';
+import type { AntiSpoofDetector } from './types';
+
+// Minimum average z-variance of a real face
+const MIN_DEPTH_VARIANCE = 0.5;
+
+export const depthDetector: AntiSpoofDetector = {
+  id: 'depth',
+  label: 'Depth',
+  weight: 0.4,
+
+  evaluate: (_detectorState, { frameHistory }) => {
+    const depthVariances = getDepthVariances(frameHistory);
+    if (depthVariances.length === 0) return { score: 0, confidence: 0, reasons: [] };
+
+    const avgDepthVariance = depthVariances.reduce((a, b) => a + b, 0) / depthVariances.length;
+    const flat = avgDepthVariance < MIN_DEPTH_VARIANCE;
+    return { score: flat ? 1 : 0, confidence: 1, reasons: flat ? ['Flat face detected (no depth)'] : [] };
+  },
+};
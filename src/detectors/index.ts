@@ -0,0 +1,15 @@
+// Barrel export for anti-spoof detector plugins
+
+export * from './types';
+export * from './registry';
+export { depthDetector } from './depth';
+export { microMovementDetector, stillnessDetector } from './movement';
+export { textureDetector } from './texture';
+export type { TextureDetectorState } from './texture';
+export { pulseDetector } from './pulse';
+export type { PulseDetectorState } from './pulse';
+export { parallaxDetector } from './parallax';
+export type { ParallaxDetectorState } from './parallax';
+export { replayDetector } from './replay';
+export type { ReplayDetectorState } from './replay';
+export { cameraDetector } from './camera';
@@ -0,0 +1,45 @@
+// Movement detectors - real faces keep making small movements, photos held still don't
+
+import { getMovementScores } from '@/utils/antiSpoof';
+import type { AntiSpoofDetector } from './types';
+
+// Minimum average movement score (x100) of a real face
+const MIN_MICRO_MOVEMENT = 0.3;
+const MIN_MOVEMENT_SAMPLES = 6;
+
+// Frames without movement out of this many recent frames
+const MAX_STATIC_FRAMES = 20;
+const STATIC_FRAME_MOVEMENT = 0.001;
+const MAX_STATIC_RATIO = 0.8;
+
+export const microMovementDetector: AntiSpoofDetector = {
+  id: 'microMovement',
+  label: 'Movement',
+  weight: 0.3,
+
+  evaluate: (_detectorState, { frameHistory }) => {
+    const movementScores = getMovementScores(frameHistory);
+    if (movementScores.length < MIN_MOVEMENT_SAMPLES) return { score: 0, confidence: 0, reasons: [] };
+
+    const avgMovement = movementScores.reduce((a, b) => a + b, 0) / movementScores.length;
+    const still = avgMovement < MIN_MICRO_MOVEMENT / 100;
+    return { score: still ? 1 : 0, confidence: 1, reasons: still ? ['No natural micro-movements'] : [] };
+  },
+};
+
+export const stillnessDetector: AntiSpoofDetector = {
+  id: 'stillness',
+  label: 'Static',
+  weight: 0.3,
+
+  evaluate: (_detectorState, { frameHistory }) => {
+    const movementScores = getMovementScores(frameHistory);
+    if (movementScores.length < MAX_STATIC_FRAMES) return { score: 0, confidence: 0, reasons: [] };
+
+    const staticFrames = movementScores
+      .slice(-MAX_STATIC_FRAMES)
+      .filter(m => m < STATIC_FRAME_MOVEMENT).length;
+    const tooStatic = staticFrames > MAX_STATIC_FRAMES * MAX_STATIC_RATIO;
+    return { score: tooStatic ? 1 : 0, confidence: 1, reasons: tooStatic ? ['Face too static'] : [] };
+  },
+};
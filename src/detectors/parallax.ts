@@ -0,0 +1,56 @@
+// Parallax detector - a tilted photo or screen turns as a plane, not as a 3D head (see utils/parallax)
+
+import {
+  analyzeParallax,
+  measureParallax,
+  PARALLAX_CONFIG,
+  PARALLAX_STEP_AXES,
+  ParallaxMetrics,
+  ParallaxSample,
+} from '@/utils/parallax';
+import type { AntiSpoofDetector } from './types';
+
+export interface ParallaxDetectorState {
+  samples: ParallaxSample[];        // Landmark parallax during the current head turn step
+  parallax: ParallaxMetrics | null; // Latest head turn parallax analysis
+}
+
+export const parallaxDetector: AntiSpoofDetector<ParallaxDetectorState> = {
+  id: 'parallax',
+  label: 'Parallax',
+  // Below the threshold: a turn the 3D fit misreads should not reject a live user without a second signal
+  weight: 0.45,
+
+  createState: () => ({ samples: [], parallax: null }),
+
+  update: ({ face, step, headPose }, detectorState) => {
+    const axis = step ? PARALLAX_STEP_AXES[step] : undefined;
+    if (!axis || !headPose) return detectorState;
+
+    const parallax = measureParallax(face, axis);
+    if (!parallax) return detectorState;
+
+    // A new turn step starts a new fit
+    const previous = detectorState.samples[0]?.step === step ? detectorState.samples : [];
+    const angle = axis === 'yaw' ? headPose.yaw : headPose.pitch;
+    const samples = [...previous, { step, angle, ...parallax }].slice(-PARALLAX_CONFIG.MAX_SAMPLES);
+
+    return { samples, parallax: analyzeParallax(samples, axis) ?? detectorState.parallax };
+  },
+
+  evaluate: ({ parallax }) => {
+    if (!parallax || parallax.angleRange < PARALLAX_CONFIG.MIN_ANGLE_RANGE) {
+      return { score: 0, confidence: 0, reasons: [] };
+    }
+
+    const { PLANAR_CONSISTENCY, RIGID_CONSISTENCY, FULL_ANGLE_RANGE } = PARALLAX_CONFIG;
+    const score = Math.min(1, Math.max(0,
+      (RIGID_CONSISTENCY - parallax.consistency) / (RIGID_CONSISTENCY - PLANAR_CONSISTENCY)
+    ));
+    return {
+      score,
+      confidence: Math.min(1, parallax.angleRange / FULL_ANGLE_RANGE),
+      reasons: score >= 0.5 ? ['Head turn looks flat (no 3D parallax)'] : [],
+    };
+  },
+};
@@ -0,0 +1,42 @@
+// Pulse detector - prints and most replays lack the skin's periodic color change (see utils/pulse)
+
+import { analyzePulse, PULSE_CONFIG, PulseMetrics, PulseSample } from '@/utils/pulse';
+import type { AntiSpoofDetector } from './types';
+
+declare module '@/types/liveness' {
+  interface FrameSignals {
+    skinGreen?: number | null; // Mean green level of the forehead and cheeks
+  }
+}
+
+export interface PulseDetectorState {
+  samples: PulseSample[];     // Skin green levels inside the pulse window
+  pulse: PulseMetrics | null; // Latest pulse analysis, once the window is long enough
+}
+
+// Pulse presence below this counts as no pulse
+const PULSE_PRESENT_SCORE = 0.5;
+
+export const pulseDetector: AntiSpoofDetector<PulseDetectorState> = {
+  id: 'pulse',
+  label: 'Pulse',
+  // Webcam compression often hides a real pulse, so a missing one only adds to the other indicators
+  weight: 0.25,
+
+  createState: () => ({ samples: [], pulse: null }),
+
+  update: ({ now, signals }, detectorState) => {
+    if (signals.skinGreen === undefined || signals.skinGreen === null) return detectorState;
+
+    const samples = [...detectorState.samples, { t: now, green: signals.skinGreen }]
+      .filter(sample => now - sample.t <= PULSE_CONFIG.WINDOW_MS);
+    return { samples, pulse: analyzePulse(samples) ?? detectorState.pulse };
+  },
+
+  evaluate: ({ pulse }) => {
+    if (!pulse) return { score: 0, confidence: 0, reasons: [] };
+
+    const absent = pulse.score < PULSE_PRESENT_SCORE;
+    return { score: absent ? 1 : 0, confidence: 1, reasons: absent ? ['No pulse signal detected'] : [] };
+  },
+};
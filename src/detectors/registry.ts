@@ -0,0 +1,53 @@
+// Detector registry - maps ids to anti-spoof detector plugins, in evaluation order
+
+import type { AntiSpoofDetector } from './types';
+import { depthDetector } from './depth';
+import { microMovementDetector, stillnessDetector } from './movement';
+import { textureDetector } from './texture';
+import { pulseDetector } from './pulse';
+import { parallaxDetector } from './parallax';
+import { replayDetector } from './replay';
+import { cameraDetector } from './camera';
+
+export const BUILT_IN_DETECTORS: AntiSpoofDetector[] = [
+  depthDetector,
+  microMovementDetector,
+  stillnessDetector,
+  textureDetector,
+  pulseDetector,
+  parallaxDetector,
+  replayDetector,
+  cameraDetector,
+];
+
+const registry = new Map<string, AntiSpoofDetector>(
+  BUILT_IN_DETECTORS.map(detector => [detector.id, detector])
+);
+
+/**
+ * Register a detector plugin (replaces any existing detector with the same id)
+ */
+export function registerDetector(detector: AntiSpoofDetector): void {
+  registry.set(detector.id, detector);
+}
+
+/**
+ * Remove a detector plugin from the registry
+ */
+export function unregisterDetector(id: string): void {
+  registry.delete(id);
+}
+
+/**
+ * Look up a detector by id
+ */
+export function getDetector(id: string): AntiSpoofDetector | undefined {
+  return registry.get(id);
+}
+
+/**
+ * List all registered detectors in evaluation order
+ */
+export function getRegisteredDetectors(): AntiSpoofDetector[] {
+  return [...registry.values()];
+}
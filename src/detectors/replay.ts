@@ -0,0 +1,60 @@
+// Replay detector - looped or replayed video repeats frames and face motion (see utils/replay)
+
+import { analyzeReplay, REPLAY_CONFIG, ReplayFrame, ReplayMetrics, VideoFrameSample } from '@/utils/replay';
+import type { AntiSpoofDetector } from './types';
+
+declare module '@/types/liveness' {
+  interface FrameSignals {
+    videoFrame?: VideoFrameSample | null; // Face crop hash and frame timing
+  }
+}
+
+export interface ReplayDetectorState {
+  frames: ReplayFrame[];        // Face position and crop hash inside the replay window
+  replay: ReplayMetrics | null; // Latest replay analysis, once the window is long enough
+}
+
+export const replayDetector: AntiSpoofDetector<ReplayDetectorState> = {
+  id: 'replay',
+  label: 'Replay',
+  // Enough to flag on its own; a live camera never shows the same frame twice
+  weight: 0.6,
+
+  createState: () => ({ frames: [], replay: null }),
+
+  update: ({ state, now, signals }, detectorState) => {
+    const snapshot = state.frameHistory[state.frameHistory.length - 1];
+    const videoFrame = signals.videoFrame;
+    const frame = {
+      t: now,
+      centerX: snapshot.centerX,
+      centerY: snapshot.centerY,
+      faceWidth: snapshot.faceWidth,
+      hash: videoFrame?.hash ?? null,
+      presentedFrames: videoFrame?.presentedFrames ?? 0,
+      comparedFrames: videoFrame?.comparedFrames ?? 0,
+      duplicateFrames: videoFrame?.duplicateFrames ?? 0,
+    };
+
+    const frames = [...detectorState.frames, frame]
+      .filter(f => now - f.t <= REPLAY_CONFIG.WINDOW_MS);
+    return { frames, replay: analyzeReplay(frames) };
+  },
+
+  evaluate: ({ replay }) => {
+    if (!replay) return { score: 0, confidence: 0, reasons: [] };
+
+    const reasons: string[] = [];
+    if (replay.repeatRatio >= REPLAY_CONFIG.REPEAT_RATIO) {
+      reasons.push('Repeated video frames detected');
+    }
+    if (replay.duplicateRatio !== null && replay.duplicateRatio >= REPLAY_CONFIG.DUPLICATE_RATIO) {
+      reasons.push('Video frame rate does not match the camera');
+    }
+    if (replay.loopResidual !== null && replay.loopResidual <= REPLAY_CONFIG.LOOP_RESIDUAL) {
+      reasons.push('Looping face motion detected');
+    }
+
+    return { score: reasons.length > 0 ? 1 : 0, confidence: 1, reasons };
+  },
+};
@@ -0,0 +1,49 @@
+// Texture detector - screens and prints leave a pixel grid, halftone or banding (see utils/texture)
+
+import type { TextureMetrics } from '@/utils/texture';
+import type { AntiSpoofDetector } from './types';
+
+declare module '@/types/liveness' {
+  interface FrameSignals {
+    texture?: TextureMetrics | null; // Cheek patch texture, when sampled this frame
+  }
+}
+
+export interface TextureDetectorState {
+  scores: number[];               // Recapture scores of the sampled video patches
+  texture: TextureMetrics | null; // Latest texture analysis
+}
+
+const MAX_TEXTURE_SAMPLES = 8;
+const MIN_TEXTURE_SAMPLES = 3;
+const TEXTURE_SPOOF_SCORE = 0.5; // Average recapture score treated as a screen or print
+
+export const textureDetector: AntiSpoofDetector<TextureDetectorState> = {
+  id: 'texture',
+  label: 'Texture',
+  // Enough to flag on its own, since landmark depth and movement are hallucinated
+  // for a hand-held photo or phone
+  weight: 0.6,
+
+  createState: () => ({ scores: [], texture: null }),
+
+  update: ({ signals }, detectorState) => {
+    if (!signals.texture) return detectorState;
+    return {
+      scores: [...detectorState.scores, signals.texture.score].slice(-MAX_TEXTURE_SAMPLES),
+      texture: signals.texture,
+    };
+  },
+
+  evaluate: ({ scores }) => {
+    if (scores.length < MIN_TEXTURE_SAMPLES) return { score: 0, confidence: 0, reasons: [] };
+
+    const avgTexture = scores.reduce((a, b) => a + b, 0) / scores.length;
+    const recaptured = avgTexture >= TEXTURE_SPOOF_SCORE;
+    return {
+      score: recaptured ? 1 : 0,
+      confidence: 1,
+      reasons: recaptured ? ['Screen or print texture detected'] : [],
+    };
+  },
+};
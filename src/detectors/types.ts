@@ -0,0 +1,82 @@
+// Anti-spoof detector plugin contract consumed by the anti-spoof pipeline
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { FrameSignals, LivenessStep } from '@/types/liveness';
+import type { AntiSpoofState } from '@/utils/antiSpoof';
+import type { HeadPose3D } from '@/utils/headPose3d';
+
+/**
+ * Where the session stood when the frame arrived; supplied by the engine
+ */
+export interface FrameContext {
+  step?: LivenessStep;
+  headPose?: HeadPose3D | null; // PnP fit of this frame
+}
+
+/**
+ * Per-frame input handed to a detector update
+ */
+export interface DetectorContext {
+  face: Face;
+  state: AntiSpoofState; // Shared frame history, already including this frame
+  now: number;
+  signals: FrameSignals; // Pixel measurements of this frame
+  step: LivenessStep | null;    // Current step; null outside a session
+  headPose: HeadPose3D | null;
+}
+
+export interface DetectorResult {
+  score: number;      // Likelihood of a spoof (0-1)
+  confidence: number; // How well the data supports the score (0-1); 0 while warming up
+  reasons: string[];  // Why the score is raised; empty when it is not
+}
+
+/**
+ * Anti-spoof detector plugin. Its evidence lives in its own slot of
+ * AntiSpoofState.detectorState, keyed by id, which the pipeline never looks into.
+ */
+export interface AntiSpoofDetector<S = unknown> {
+  id: string;
+  label: string;  // Short name for the debug overlay
+  weight: number; // Default contribution of a confident score of 1 to the fused score
+  veto?: boolean; // Default for flagging a spoof on its own, whatever the fused score
+
+  // Initial contents of the state slot, created on first use
+  createState?(): S;
+
+  // Accumulate this frame's evidence into the next contents of the slot
+  update?(ctx: DetectorContext, detectorState: S): S;
+
+  // Score the accumulated evidence
+  evaluate(detectorState: S, state: AntiSpoofState): DetectorResult;
+}
+
+// Overrides for one detector, e.g. from the FaceLiveness `antiSpoof` prop
+export interface DetectorSettings {
+  enabled?: boolean;
+  weight?: number;
+  veto?: boolean;
+}
+
+export interface AntiSpoofPolicy {
+  detectors?: Record<string, DetectorSettings>; // Keyed by detector id
+  threshold?: number; // Fused score that flags a spoof
+}
+
+// One detector's part in the fused verdict
+export interface DetectorVerdict extends DetectorResult {
+  id: string;
+  label: string;
+  weight: number;
+  contribution: number; // weight x score x confidence
+  veto: boolean;        // Whether this detector may veto
+}
+
+export interface SpoofVerdict {
+  score: number;     // Sum of the detector contributions
+  threshold: number;
+  isSpoof: boolean;
+  vetoedBy: string | null; // Detector that flagged the spoof on its own
+  reasons: string[];       // Every contributing reason, strongest first
+  detectors: DetectorVerdict[];
+}
@@ -0,0 +1,718 @@
+// Framework-agnostic liveness engine
+// Pure state transitions: (state, face, guideBox, now) => { state, events }
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import {
+  LivenessStep,
+  LivenessState,
+  LivenessResult,
+  LivenessFailure,
+  LivenessFailureReason,
+  LivenessIssue,
+  LivenessDebugInfo,
+  ActiveStepRecord,
+  SessionChallenge,
+  FaceMetrics,
+  BoundingBox,
+  FrameSignals,
+  PoseSource,
+  STEP_ORDER,
+  RANDOMIZABLE_STEPS,
+  CONFIG,
+  FAILURE_MESSAGES,
+  generateRandomStepOrder,
+  initialBlinkState,
+  initialHeadPoseState,
+  initialSmoothedMetrics,
+} from '@/types/liveness';
+import { getChallenge } from '@/challenges';
+import { calculateAverageEAR } from '@/utils/ear';
+import { calculateSmileMetrics } from '@/utils/smile';
+import { calculateMAR } from '@/utils/mar';
+import { calculateBrowHeight, getBrowRaise } from '@/utils/eyebrow';
+import { calculatePoseMetrics, getYawDelta, getPitchDelta } from '@/utils/pose';
+import { CameraIntrinsics, estimateCameraIntrinsics, estimateHeadPose3D } from '@/utils/headPose3d';
+import { calculateBoundingBox, isFaceInsideGuide } from '@/utils/landmarks';
+import {
+  createAntiSpoofState,
+  updateAntiSpoofState,
+  getAntiSpoofDebugInfo,
+  getDetectorState,
+} from '@/utils/antiSpoof';
+import type { AntiSpoofPolicy } from '@/detectors/types';
+import { cameraDetector } from '@/detectors/camera';
+import { pulseDetector } from '@/detectors/pulse';
+import { textureDetector } from '@/detectors/texture';
+
+export type LivenessEvent =
+  | { type: 'STEP_ENTERED'; step: LivenessStep; at: number }
+  | { type: 'STEP_COMPLETED'; step: LivenessStep; at: number }
+  | { type: 'ATTEMPT_FAILED'; step: LivenessStep; reason: LivenessFailureReason; attempt: number; at: number }
+  | { type: 'SUCCESS'; result: LivenessResult }
+  | { type: 'FAILURE'; failure: LivenessFailure };
+
+export interface LivenessTransition {
+  state: LivenessState;
+  events: LivenessEvent[];
+}
+
+export interface LivenessEngineOptions {
+  // Challenge steps to randomize after ALIGN (registered challenge ids)
+  steps?: LivenessStep[];
+  // Random source for step shuffling (inject for deterministic replays)
+  random?: () => number;
+  // Default time allowed per step
+  stepTimeoutMs?: number;
+  // Per-step overrides, taking precedence over challenge defaults
+  stepTimeouts?: Partial<Record<LivenessStep, number>>;
+  // Time allowed for the whole session
+  sessionTimeoutMs?: number;
+  // Failed attempts allowed before the session fails
+  maxAttempts?: number;
+  // Anti-spoof detector weights, vetoes and threshold
+  antiSpoof?: AntiSpoofPolicy;
+  // Where the TURN_* steps read yaw/pitch from: 2D ratios or the 3D fit in degrees
+  poseSource?: PoseSource;
+}
+
+// How long each issue may persist before the attempt fails
+const ISSUE_TIMEOUTS_MS: Record<LivenessIssue['reason'], number> = {
+  FACE_LOST: CONFIG.FACE_LOST_TIMEOUT_MS,
+  MULTIPLE_FACES: CONFIG.MULTIPLE_FACES_TIMEOUT_MS,
+  SPOOF: CONFIG.SPOOF_TIMEOUT_MS,
+};
+
+/**
+ * Create the idle state before a session starts
+ */
+export function createLivenessState(): LivenessState {
+  return {
+    currentStep: 'IDLE',
+    stepOrder: STEP_ORDER, // Will be randomized on start
+    sessionChallenge: null,
+    poseSource: CONFIG.POSE_SOURCE,
+    sessionStartedAt: 0,
+    stepEnteredAt: 0,
+    stepCompletedAt: null,
+    pendingStep: null,
+    alignedFrameCount: 0,
+    baselineMetrics: null,
+    blinkState: initialBlinkState,
+    headPoseState: initialHeadPoseState,
+    smoothed: initialSmoothedMetrics,
+    challengeState: {},
+    metrics: null,
+    antiSpoof: createAntiSpoofState(),
+    yawDeltas: [],
+    pitchDeltas: [],
+    completedSteps: [],
+    stepTimings: [],
+    stepRecord: null,
+    stepRecords: [],
+    failedAttempts: 0,
+    issue: null,
+    isComplete: false,
+    failure: null,
+    error: null,
+  };
+}
+
+/**
+ * Whether the session has ended (successfully or not)
+ */
+function isSessionOver(state: LivenessState): boolean {
+  return state.isComplete || state.failure !== null;
+}
+
+/**
+ * Why an issued step list cannot be run, or null when every step is registered
+ */
+function getChallengeProblem(steps: LivenessStep[]): string | null {
+  if (steps.length === 0) return 'it has no steps';
+
+  const unknown = steps.filter(step => !getChallenge(step));
+  if (unknown.length === 0) return null;
+  return `unknown step${unknown.length > 1 ? 's' : ''} ${unknown.join(', ')}`;
+}
+
+/**
+ * Camera guessed from the guide box, which is centred in the frame at a fixed ratio of its size
+ */
+function estimateCameraFromGuide(guideBox: BoundingBox): CameraIntrinsics {
+  const camera = estimateCameraIntrinsics(
+    guideBox.width / CONFIG.GUIDE_BOX_WIDTH_RATIO,
+    guideBox.height / CONFIG.GUIDE_BOX_HEIGHT_RATIO
+  );
+  return { ...camera, cx: guideBox.x + guideBox.width / 2, cy: guideBox.y + guideBox.height / 2 };
+}
+
+/**
+ * Compute the per-frame face metrics
+ */
+function calculateFaceMetrics(face: Face, boundingBox: BoundingBox, guideBox: BoundingBox): FaceMetrics {
+  const poseMetrics = calculatePoseMetrics(face);
+  const earData = calculateAverageEAR(face);
+  const smileMetrics = calculateSmileMetrics(face);
+
+  return {
+    boundingBox,
+    yawMetric: poseMetrics.yawMetric,
+    pitchMetric: poseMetrics.pitchMetric,
+    rollMetric: poseMetrics.rollMetric,
+    faceWidth: poseMetrics.faceWidth,
+    faceHeight: poseMetrics.faceHeight,
+    leftEAR: earData.left,
+    rightEAR: earData.right,
+    avgEAR: earData.avg,
+    mouthWidth: smileMetrics.mouthWidth,
+    lipCurvature: smileMetrics.lipCurvature,
+    mar: calculateMAR(face),
+    browHeight: calculateBrowHeight(face),
+    headPose: estimateHeadPose3D(face, estimateCameraFromGuide(guideBox)),
+  };
+}
+
+/**
+ * Fresh breakdown for a step entered for the first time
+ */
+function createStepRecord(step: LivenessStep, now: number): ActiveStepRecord {
+  return { step, enteredAt: now, attempts: 1, peakMetric: null, errors: [] };
+}
+
+/**
+ * Add the error shown this frame to the active step's breakdown
+ */
+function recordStepError(state: LivenessState): LivenessState {
+  const record = state.stepRecord;
+  if (!record || !state.error || state.stepCompletedAt !== null || record.errors.includes(state.error)) {
+    return state;
+  }
+  return { ...state, stepRecord: { ...record, errors: [...record.errors, state.error] } };
+}
+
+/**
+ * Device details, when running in a browser
+ */
+function getDeviceInfo(): LivenessResult['deviceInfo'] {
+  if (typeof navigator === 'undefined') {
+    return { userAgent: 'unknown', platform: 'unknown' };
+  }
+  return {
+    userAgent: navigator.userAgent,
+    platform: navigator.platform ?? 'unknown',
+  };
+}
+
+export class LivenessEngine {
+  private readonly steps: LivenessStep[];
+  private readonly random: () => number;
+  private readonly stepTimeoutMs: number;
+  private readonly stepTimeouts: Partial<Record<LivenessStep, number>>;
+  private readonly sessionTimeoutMs: number;
+  private readonly maxAttempts: number;
+  private readonly antiSpoofPolicy: AntiSpoofPolicy;
+  private readonly poseSource: PoseSource;
+
+  constructor(options: LivenessEngineOptions = {}) {
+    this.steps = options.steps ?? RANDOMIZABLE_STEPS;
+    this.random = options.random ?? Math.random;
+    this.stepTimeoutMs = options.stepTimeoutMs ?? CONFIG.STEP_TIMEOUT_MS;
+    this.stepTimeouts = options.stepTimeouts ?? {};
+    this.sessionTimeoutMs = options.sessionTimeoutMs ?? CONFIG.SESSION_TIMEOUT_MS;
+    this.maxAttempts = options.maxAttempts ?? CONFIG.MAX_ATTEMPTS;
+    this.antiSpoofPolicy = options.antiSpoof ?? {};
+    this.poseSource = options.poseSource ?? CONFIG.POSE_SOURCE;
+  }
+
+  /**
+   * Start a new session
+   * An issued challenge fixes the step order; otherwise the steps are shuffled locally
+   */
+  start(now: number, challenge?: SessionChallenge): LivenessTransition {
+    const events: LivenessEvent[] = [];
+
+    // Never run an expired challenge; its nonce would be rejected anyway
+    if (challenge && now >= challenge.expiresAt) {
+      const state = this.fail(
+        { ...createLivenessState(), sessionChallenge: challenge },
+        'CHALLENGE_EXPIRED',
+        FAILURE_MESSAGES.CHALLENGE_EXPIRED,
+        now,
+        events
+      );
+      return { state, events };
+    }
+
+    const challengeSteps = challenge?.steps.filter(step => step !== 'ALIGN');
+
+    // A challenge with nothing to do, or a step this client cannot run, could never be attested
+    const problem = challengeSteps && getChallengeProblem(challengeSteps);
+    if (problem) {
+      const state = this.fail(
+        { ...createLivenessState(), sessionChallenge: challenge },
+        'INVALID_CHALLENGE',
+        `${FAILURE_MESSAGES.INVALID_CHALLENGE}: ${problem}`,
+        now,
+        events
+      );
+      return { state, events };
+    }
+
+    const stepOrder = challengeSteps
+      ? ['ALIGN', ...challengeSteps]
+      : generateRandomStepOrder(this.steps, this.random);
+
+    events.push({ type: 'STEP_ENTERED', step: 'ALIGN', at: now });
+
+    return {
+      state: {
+        ...createLivenessState(),
+        stepOrder,
+        sessionChallenge: challenge ?? null,
+        poseSource: this.poseSource,
+        currentStep: 'ALIGN',
+        sessionStartedAt: now,
+        stepEnteredAt: now,
+        stepRecord: createStepRecord('ALIGN', now),
+      },
+      events,
+    };
+  }
+
+  /**
+   * Process one detector frame
+   */
+  process(
+    state: LivenessState,
+    face: Face | null,
+    guideBox: BoundingBox,
+    now: number,
+    faceCount: number = face ? 1 : 0,
+    signals: FrameSignals = {}
+  ): LivenessTransition {
+    const transition = this.advance(state, face, guideBox, now, faceCount, signals);
+    return { ...transition, state: recordStepError(transition.state) };
+  }
+
+  /**
+   * Frame transition, before the shown error is recorded
+   */
+  private advance(
+    state: LivenessState,
+    face: Face | null,
+    guideBox: BoundingBox,
+    now: number,
+    faceCount: number,
+    signals: FrameSignals
+  ): LivenessTransition {
+    const events: LivenessEvent[] = [];
+
+    if (isSessionOver(state) || state.currentStep === 'IDLE') {
+      return { state, events };
+    }
+
+    let next = state;
+
+    // The session budget covers every step and retry
+    if (now - next.sessionStartedAt >= this.sessionTimeoutMs) {
+      next = this.fail(next, 'TIMEOUT', 'Session timed out', now, events);
+      return { state: next, events };
+    }
+
+    // Advance to the pending step once the cooldown has elapsed
+    if (next.pendingStep && now - next.stepCompletedAt >= CONFIG.STEP_COOLDOWN_MS) {
+      next = this.enterStep(next, next.pendingStep, now);
+      events.push({ type: 'STEP_ENTERED', step: next.currentStep, at: now });
+    }
+
+    // Step timeout (not counted while waiting for the cooldown)
+    if (next.stepCompletedAt === null && now - next.stepEnteredAt >= this.getStepTimeout(next.currentStep)) {
+      next = this.failAttempt(next, 'TIMEOUT', 'Step timed out', now, events);
+      return { state: next, events };
+    }
+
+    if (!face) {
+      const lost = {
+        ...next,
+        error: 'No face detected. Move into the frame.',
+        alignedFrameCount: 0,
+        headPoseState: initialHeadPoseState,
+      };
+
+      // A face can only be lost once it has been aligned
+      if (!next.baselineMetrics) return { state: lost, events };
+
+      return this.trackIssue(lost, 'FACE_LOST', now, events);
+    }
+
+    if (faceCount > 1) {
+      return this.trackIssue(
+        {
+          ...next,
+          error: 'Only one person should be in the frame',
+          alignedFrameCount: 0,
+          headPoseState: initialHeadPoseState,
+        },
+        'MULTIPLE_FACES',
+        now,
+        events
+      );
+    }
+
+    // A single face is back in view
+    if (next.issue && next.issue.reason !== 'SPOOF') {
+      next = { ...next, issue: null };
+    }
+
+    const faceBbox = calculateBoundingBox(face);
+    const insideGuide = isFaceInsideGuide(faceBbox, guideBox, CONFIG.INSIDE_GUIDE_MARGIN);
+
+    // Check face size
+    const faceRatio = faceBbox.width / guideBox.width;
+    if (faceRatio < CONFIG.MIN_FACE_RATIO) {
+      return { state: { ...next, error: 'Move closer to the camera' }, events };
+    }
+    if (faceRatio > CONFIG.MAX_FACE_RATIO) {
+      return { state: { ...next, error: 'Move further from the camera' }, events };
+    }
+
+    const metrics = calculateFaceMetrics(face, faceBbox, guideBox);
+
+    // Update anti-spoof detection
+    const antiSpoof = updateAntiSpoofState(next.antiSpoof, face, now, signals, this.antiSpoofPolicy, {
+      step: next.currentStep,
+      headPose: metrics.headPose,
+    });
+    next = { ...next, antiSpoof };
+
+    // Check for spoof attempt
+    if (antiSpoof.isSpoof) {
+      return this.trackIssue(
+        {
+          ...next,
+          error: antiSpoof.reason || 'Photo or screen detected. Use a real face.',
+          alignedFrameCount: 0,
+          headPoseState: initialHeadPoseState,
+        },
+        'SPOOF',
+        now,
+        events
+      );
+    }
+
+    // Store current metrics
+    next = { ...next, metrics, issue: null };
+
+    const challenge = getChallenge(next.currentStep);
+
+    // Unknown step, or step already completed and waiting for the cooldown
+    if (!challenge || next.stepCompletedAt !== null) {
+      return { state: next, events };
+    }
+
+    const update = challenge.evaluate({
+      face,
+      state: next,
+      metrics,
+      insideGuide,
+      now,
+      signals,
+    });
+
+    // Clear general errors if face is valid; the challenge may set its own
+    next = {
+      ...next,
+      ...(insideGuide ? { error: null } : {}),
+      ...update,
+    };
+
+    // Keep the best value the challenge reports for the result breakdown
+    const metric = challenge.getMetric?.(next);
+    if (metric !== undefined && metric !== null && next.stepRecord) {
+      const { peakMetric } = next.stepRecord;
+      next = {
+        ...next,
+        stepRecord: {
+          ...next.stepRecord,
+          peakMetric: peakMetric === null ? metric : Math.max(peakMetric, metric),
+        },
+      };
+    }
+
+    // A wrong response fails the attempt rather than waiting for the timeout
+    const failureMessage = challenge.getFailure?.(next);
+    if (failureMessage) {
+      next = this.failAttempt(next, 'CHALLENGE_FAILED', failureMessage, now, events);
+      return { state: next, events };
+    }
+
+    if (challenge.isComplete(next)) {
+      next = this.completeStep(next, now, events);
+    }
+
+    return { state: next, events };
+  }
+
+  /**
+   * Cancel an active session
+   */
+  abort(state: LivenessState, now: number): LivenessTransition {
+    const events: LivenessEvent[] = [];
+
+    if (isSessionOver(state) || state.currentStep === 'IDLE') {
+      return { state, events };
+    }
+
+    const next = this.fail(state, 'ABORTED', FAILURE_MESSAGES.ABORTED, now, events);
+    return { state: next, events };
+  }
+
+  /**
+   * Time allowed for a step
+   */
+  private getStepTimeout(step: LivenessStep): number {
+    return this.stepTimeouts[step] ?? getChallenge(step)?.timeoutMs ?? this.stepTimeoutMs;
+  }
+
+  /**
+   * Record an ongoing issue and fail the attempt once it has persisted too long
+   */
+  private trackIssue(
+    state: LivenessState,
+    reason: LivenessIssue['reason'],
+    now: number,
+    events: LivenessEvent[]
+  ): LivenessTransition {
+    const since = state.issue?.reason === reason ? state.issue.since : now;
+
+    if (now - since >= ISSUE_TIMEOUTS_MS[reason]) {
+      const next = this.failAttempt(state, reason, FAILURE_MESSAGES[reason], now, events);
+      return { state: next, events };
+    }
+
+    return { state: { ...state, issue: { reason, since } }, events };
+  }
+
+  /**
+   * Fail the current attempt; retries the step while the budget allows
+   */
+  private failAttempt(
+    state: LivenessState,
+    reason: LivenessFailureReason,
+    message: string,
+    now: number,
+    events: LivenessEvent[]
+  ): LivenessState {
+    const failedAttempts = state.failedAttempts + 1;
+
+    if (failedAttempts >= this.maxAttempts) {
+      return this.fail({ ...state, failedAttempts }, reason, message, now, events);
+    }
+
+    events.push({
+      type: 'ATTEMPT_FAILED',
+      step: state.currentStep,
+      reason,
+      attempt: failedAttempts,
+      at: now,
+    });
+
+    return {
+      ...this.enterStep(state, state.currentStep, now),
+      failedAttempts,
+      issue: null,
+      error: `${message}. Let's try again.`,
+    };
+  }
+
+  /**
+   * End the session with a failure outcome
+   */
+  private fail(
+    state: LivenessState,
+    reason: LivenessFailureReason,
+    message: string,
+    now: number,
+    events: LivenessEvent[]
+  ): LivenessState {
+    const failure: LivenessFailure = {
+      reason,
+      message,
+      step: state.currentStep,
+      timestamp: new Date(now),
+      attempts: state.failedAttempts,
+      stepsCompleted: state.completedSteps,
+    };
+
+    events.push({ type: 'FAILURE', failure });
+
+    return {
+      ...state,
+      currentStep: 'FAILED',
+      pendingStep: null,
+      issue: null,
+      failure,
+      error: null,
+    };
+  }
+
+  /**
+   * Enter a new step
+   */
+  private enterStep(state: LivenessState, step: LivenessStep, now: number): LivenessState {
+    const challenge = getChallenge(step);
+
+    // A retry of the active step keeps its breakdown
+    const stepRecord = state.stepRecord?.step === step
+      ? { ...state.stepRecord, attempts: state.stepRecord.attempts + 1 }
+      : createStepRecord(step, now);
+
+    return {
+      ...state,
+      currentStep: step,
+      stepRecord,
+      stepEnteredAt: now,
+      stepCompletedAt: null,
+      pendingStep: null,
+      alignedFrameCount: 0,
+      headPoseState: initialHeadPoseState,
+      // Let the challenge reset its own state
+      ...challenge?.reset?.(state, {
+        now,
+        random: this.random,
+        params: state.sessionChallenge?.params ?? {},
+      }),
+    };
+  }
+
+  /**
+   * Complete the current step and schedule the next one
+   */
+  private completeStep(
+    state: LivenessState,
+    now: number,
+    events: LivenessEvent[]
+  ): LivenessState {
+    const step = state.currentStep;
+    const currentIndex = state.stepOrder.indexOf(step);
+    const isLastStep = currentIndex === state.stepOrder.length - 1;
+    const completedSteps = [...state.completedSteps, step];
+    const stepTimings = [
+      ...state.stepTimings,
+      { step, startedAt: state.stepEnteredAt, completedAt: now },
+    ];
+    const stepRecords = [
+      ...state.stepRecords,
+      { ...(state.stepRecord ?? createStepRecord(step, state.stepEnteredAt)), completedAt: now },
+    ];
+
+    events.push({ type: 'STEP_COMPLETED', step, at: now });
+
+    if (!isLastStep) {
+      return {
+        ...state,
+        stepCompletedAt: now,
+        pendingStep: state.stepOrder[currentIndex + 1],
+        completedSteps,
+        stepTimings,
+        stepRecord: null,
+        stepRecords,
+      };
+    }
+
+    // Verification complete
+    const cameraTrust = getDetectorState(state.antiSpoof, cameraDetector);
+    const result: LivenessResult = {
+      timestamp: new Date(now),
+      challengeNonce: state.sessionChallenge?.nonce ?? null,
+      stepsCompleted: completedSteps,
+      stepTimings,
+      steps: stepRecords,
+      deviceInfo: getDeviceInfo(),
+      metricsSummary: {
+        openEAR: state.blinkState.openEARBaseline,
+        blinkThreshold: state.blinkState.closedThreshold,
+        yawDeltas: state.yawDeltas,
+        pitchDeltas: state.pitchDeltas,
+      },
+      ...(state.antiSpoof.verdict ? { antiSpoof: state.antiSpoof.verdict } : {}),
+      ...(cameraTrust ? { cameraTrust } : {}),
+    };
+
+    events.push({ type: 'SUCCESS', result });
+
+    return {
+      ...state,
+      currentStep: 'SUCCESS',
+      stepCompletedAt: now,
+      pendingStep: null,
+      completedSteps,
+      stepTimings,
+      stepRecord: null,
+      stepRecords,
+      isComplete: true,
+    };
+  }
+}
+
+/**
+ * 1-based position of the current step in the session
+ */
+export function getLivenessStepNumber(state: LivenessState): number {
+  if (state.currentStep === 'IDLE') return 0;
+  if (state.currentStep === 'SUCCESS') return state.stepOrder.length;
+  if (state.currentStep === 'FAILED') return state.completedSteps.length;
+
+  const index = state.stepOrder.indexOf(state.currentStep);
+  return index >= 0 ? index + 1 : 0;
+}
+
+/**
+ * Debug values for the overlay
+ */
+export function getLivenessDebugInfo(state: LivenessState): LivenessDebugInfo {
+  const metrics = state.metrics;
+  const antiSpoofDebug = getAntiSpoofDebugInfo(state.antiSpoof);
+  const texture = getDetectorState(state.antiSpoof, textureDetector);
+
+  // Pose challenges decide on smoothed yaw/pitch, so show those while active
+  const usesSmoothedPose = !!getChallenge(state.currentStep)?.direction;
+  const yawMetric = usesSmoothedPose ? state.smoothed.yaw : metrics?.yawMetric;
+  const pitchMetric = usesSmoothedPose ? state.smoothed.pitch : metrics?.pitchMetric;
+
+  const yawDelta = metrics && state.baselineMetrics
+    ? getYawDelta(yawMetric, state.baselineMetrics.yawMetric)
+    : 0;
+  const pitchDelta = metrics && state.baselineMetrics
+    ? getPitchDelta(pitchMetric, state.baselineMetrics.pitchMetric)
+    : 0;
+
+  const browRaise = metrics && state.baselineMetrics
+    ? getBrowRaise(metrics.browHeight, state.baselineMetrics.browHeight)
+    : 0;
+
+  return {
+    currentEAR: state.smoothed.ear,
+    openEARBaseline: state.blinkState.openEARBaseline,
+    blinkThreshold: state.blinkState.closedThreshold,
+    eyeState: state.blinkState.eyeState,
+    yawDelta,
+    pitchDelta,
+    rollMetric: metrics?.rollMetric || 0,
+    headPose: metrics?.headPose ?? null,
+    alignedFrames: state.alignedFrameCount,
+    heldFrames: state.headPoseState.heldFrames,
+    browRaise,
+    // Anti-spoof metrics
+    depthVariance: antiSpoofDebug.avgDepthVariance,
+    microMovement: antiSpoofDebug.avgMovement,
+    textureScore: texture.scores.length > 0
+      ? texture.scores.reduce((a, b) => a + b, 0) / texture.scores.length
+      : 0,
+    texture: texture.texture,
+    pulse: getDetectorState(state.antiSpoof, pulseDetector).pulse,
+    spoofVerdict: antiSpoofDebug.verdict,
+    spoofScore: antiSpoofDebug.spoofScore,
+    isSpoof: antiSpoofDebug.isSpoof,
+  };
+}
@@ -0,0 +1,13 @@
+// Barrel export for the liveness engine
+
+export {
+  LivenessEngine,
+  createLivenessState,
+  getLivenessStepNumber,
+  getLivenessDebugInfo,
+} from './LivenessEngine';
+export type {
+  LivenessEvent,
+  LivenessTransition,
+  LivenessEngineOptions,
+} from './LivenessEngine';
@@ -7,8 +7,15 @@ export { useFaceDetector } from './useFaceDetector';
 export type { FaceDetectorState, FaceDetectorControls, Face } from './useFaceDetector';
 
 export { useLivenessStateMachine } from './useLivenessStateMachine';
+export type { LivenessStateMachineControls, LivenessStateMachineOptions } from './useLivenessStateMachine';
 
 export { useRafThrottleLoop } from './useRafThrottleLoop';
 
+export { useBestFrame } from './useBestFrame';
+export type { BestFrameOptions, BestFrameReference, BestFrameControls } from './useBestFrame';
+
+export { useSessionRecorder } from './useSessionRecorder';
+export type { SessionRecorderControls } from './useSessionRecorder';
+
 export { useToast, toast } from './use-toast';
 export { useIsMobile } from './use-mobile';
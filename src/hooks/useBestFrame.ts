@@ -0,0 +1,187 @@
+// Best-frame selfie hook - keeps the highest quality video frame of a session
+
+import { useRef, useCallback } from 'react';
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { CONFIG, BestFrame, BoundingBox } from '@/types/liveness';
+import { calculateBoundingBox } from '@/utils/landmarks';
+import { calculateAverageEAR } from '@/utils/ear';
+import { calculatePoseMetrics } from '@/utils/pose';
+import { canvasToBlob } from '@/utils/capture';
+import {
+  FrameQuality,
+  analyzePixelQuality,
+  combineFrameQuality,
+  maxFrameQuality,
+  scoreEyes,
+  scorePose,
+} from '@/utils/frameQuality';
+
+// Face region is downscaled to this size before pixel analysis
+const ANALYSIS_SIZE = 96;
+
+export interface BestFrameOptions {
+  crop?: boolean;       // Crop to the padded face box (default true)
+  padding?: number;     // Crop padding as a ratio of the face box
+  jpegQuality?: number;
+}
+
+// Per-user references taken from calibration; scores fall back to defaults without them
+export interface BestFrameReference {
+  openEAR?: number;
+  pitch?: number;
+}
+
+export interface BestFrameControls {
+  // `screenColor` is the color a challenge fills the screen with; a tinted frame is never kept
+  consider: (face: Face, reference: BestFrameReference, now: number, screenColor?: string | null) => void;
+  getBestFrame: () => Promise<BestFrame | null>;
+  reset: () => void;
+}
+
+interface Candidate {
+  quality: FrameQuality;
+  faceBox: BoundingBox;
+  capturedAt: number;
+}
+
+/**
+ * Face box grown by `padding` on every side, clamped to the frame
+ */
+function padBox(box: BoundingBox, padding: number, width: number, height: number): BoundingBox {
+  const x = Math.max(0, box.x - box.width * padding);
+  const y = Math.max(0, box.y - box.height * padding);
+  const right = Math.min(width, box.x + box.width * (1 + padding));
+  const bottom = Math.min(height, box.y + box.height * (1 + padding));
+
+  return {
+    x: Math.round(x),
+    y: Math.round(y),
+    width: Math.round(right - x),
+    height: Math.round(bottom - y),
+  };
+}
+
+export function useBestFrame(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  options: BestFrameOptions = {}
+): BestFrameControls {
+  const {
+    crop = true,
+    padding = CONFIG.BEST_FRAME_PADDING,
+    jpegQuality = CONFIG.BEST_FRAME_JPEG_QUALITY,
+  } = options;
+
+  const bestRef = useRef<Candidate | null>(null);
+  const lastAnalysisRef = useRef(0);
+  const analysisCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const snapshotCanvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const reset = useCallback(() => {
+    bestRef.current = null;
+    lastAnalysisRef.current = 0;
+  }, []);
+
+  // Score the current frame and snapshot it if it beats the best so far
+  const consider = useCallback((
+    face: Face,
+    reference: BestFrameReference,
+    now: number,
+    screenColor: string | null = null
+  ) => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0 || screenColor) return;
+    if (now - lastAnalysisRef.current < CONFIG.BEST_FRAME_INTERVAL_MS) return;
+
+    const pose = scorePose(calculatePoseMetrics(face), reference.pitch);
+    const eyes = scoreEyes(calculateAverageEAR(face).avg, reference.openEAR);
+
+    // Skip the pixel read when even a perfect image could not win
+    const best = bestRef.current;
+    if (best && maxFrameQuality(pose, eyes) <= best.quality.score) return;
+    lastAnalysisRef.current = now;
+
+    const faceBox = calculateBoundingBox(face);
+    const region = padBox(faceBox, 0, video.videoWidth, video.videoHeight); // Clamp only
+    if (region.width < 1 || region.height < 1) return;
+
+    if (!analysisCanvasRef.current) {
+      analysisCanvasRef.current = document.createElement('canvas');
+      analysisCanvasRef.current.width = ANALYSIS_SIZE;
+      analysisCanvasRef.current.height = ANALYSIS_SIZE;
+    }
+    const analysisCtx = analysisCanvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!analysisCtx) return;
+
+    analysisCtx.drawImage(
+      video,
+      region.x, region.y, region.width, region.height,
+      0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE
+    );
+    const pixels = analyzePixelQuality(analysisCtx.getImageData(0, 0, ANALYSIS_SIZE, ANALYSIS_SIZE));
+    const quality = combineFrameQuality({
+      pose,
+      eyes,
+      sharpness: pixels.sharpness,
+      lighting: pixels.lighting,
+    });
+
+    if (best && quality.score <= best.quality.score) return;
+
+    // Copy the full frame now; the video will have moved on by the time the session ends
+    const snapshot = snapshotCanvasRef.current ?? document.createElement('canvas');
+    snapshotCanvasRef.current = snapshot;
+    snapshot.width = video.videoWidth;
+    snapshot.height = video.videoHeight;
+    snapshot.getContext('2d')?.drawImage(video, 0, 0);
+
+    bestRef.current = { quality, faceBox, capturedAt: now };
+  }, [videoRef]);
+
+  // Encode the kept frame, cropped to the padded face box unless disabled
+  const getBestFrame = useCallback(async (): Promise<BestFrame | null> => {
+    const best = bestRef.current;
+    const snapshot = snapshotCanvasRef.current;
+    if (!best || !snapshot) return null;
+
+    const region = crop
+      ? padBox(best.faceBox, padding, snapshot.width, snapshot.height)
+      : null;
+
+    const output = document.createElement('canvas');
+    output.width = region?.width ?? snapshot.width;
+    output.height = region?.height ?? snapshot.height;
+
+    const ctx = output.getContext('2d');
+    if (!ctx) return null;
+
+    if (region) {
+      ctx.drawImage(
+        snapshot,
+        region.x, region.y, region.width, region.height,
+        0, 0, region.width, region.height
+      );
+    } else {
+      ctx.drawImage(snapshot, 0, 0);
+    }
+
+    const blob = await canvasToBlob(output, jpegQuality);
+    if (!blob) return null;
+
+    const bitmap = typeof createImageBitmap === 'function'
+      ? await createImageBitmap(output)
+      : null;
+
+    return {
+      blob,
+      bitmap,
+      width: output.width,
+      height: output.height,
+      quality: best.quality,
+      faceBox: best.faceBox,
+      crop: region,
+      capturedAt: best.capturedAt,
+    };
+  }, [crop, padding, jpegQuality]);
+
+  return { consider, getBestFrame, reset };
+}
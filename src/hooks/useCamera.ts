@@ -2,12 +2,37 @@
 
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { CONFIG } from '@/types/liveness';
+import { assessCameraTrust, CameraCapabilities, CameraTrust } from '@/utils/cameraTrust';
 
 export interface CameraState {
   stream: MediaStream | null;
   error: string | null;
   isLoading: boolean;
   hasPermission: boolean;
+  cameraTrust: CameraTrust | null; // Virtual camera assessment; null until the stream is inspected
+}
+
+/**
+ * Describe the stream's camera from its settings, capabilities and device label, and assess it.
+ * The label is taken from enumerateDevices() as well, since some browsers leave the track's empty.
+ */
+async function inspectCamera(stream: MediaStream): Promise<CameraTrust | null> {
+  const track = stream.getVideoTracks()[0];
+  if (!track) return null;
+
+  const settings = track.getSettings();
+  const devices = await navigator.mediaDevices.enumerateDevices().catch(() => []);
+  const device = devices.find(d => d.kind === 'videoinput' && d.deviceId === settings.deviceId);
+  const supported = navigator.mediaDevices.getSupportedConstraints() as Record<string, boolean | undefined>;
+
+  return assessCameraTrust({
+    label: device?.label || track.label,
+    frameRate: settings.frameRate ?? null,
+    capabilities: typeof track.getCapabilities === 'function'
+      ? track.getCapabilities() as CameraCapabilities
+      : null,
+    exposureControlsSupported: !!supported.exposureMode,
+  });
 }
 
 export interface CameraControls {
@@ -22,6 +47,7 @@ export function useCamera(): CameraState & CameraControls & { videoRef: React.Re
     error: null,
     isLoading: false,
     hasPermission: false,
+    cameraTrust: null,
   });
   
   const videoRef = useRef<HTMLVideoElement>(null);
@@ -41,6 +67,7 @@ export function useCamera(): CameraState & CameraControls & { videoRef: React.Re
       ...prev,
       stream: null,
       hasPermission: false,
+      cameraTrust: null,
     }));
   }, []);
   
@@ -98,6 +125,9 @@ export function useCamera(): CameraState & CameraControls & { videoRef: React.Re
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       streamRef.current = stream;
       
+      // An inspection failure must not block a real camera
+      const cameraTrust = await inspectCamera(stream).catch(() => null);
+      
       // If video element exists, assign stream to it
       if (videoRef.current) {
         await assignStream(videoRef.current);
@@ -108,6 +138,7 @@ export function useCamera(): CameraState & CameraControls & { videoRef: React.Re
         error: null,
         isLoading: false,
         hasPermission: true,
+        cameraTrust,
       });
     } catch (err) {
       let errorMessage = 'Failed to access camera';
@@ -133,6 +164,7 @@ export function useCamera(): CameraState & CameraControls & { videoRef: React.Re
         error: errorMessage,
         isLoading: false,
         hasPermission: false,
+        cameraTrust: null,
       });
     }
   }, [assignStream]);
@@ -76,7 +76,7 @@ export function useFaceDetector(): FaceDetectorState & FaceDetectorControls {
         runtime: 'mediapipe' as const,
         solutionPath: 'https://cdn.jsdelivr.net/npm/@mediapipe/face_mesh@0.4.1633559619',
         refineLandmarks: true,
-        maxFaces: 1,
+        maxFaces: 2, // Second face is only used to reject crowded frames
       };
       
       console.log('Creating face detector with config:', detectorConfig);
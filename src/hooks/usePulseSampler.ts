@@ -0,0 +1,42 @@
+// Pulse sampler hook - mean green level of the forehead and cheeks for rPPG
+
+import { useRef, useCallback } from 'react';
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { getMeanGreen, getPulseSampleRegions } from '@/utils/pulse';
+
+// Regions are averaged down to this size; smoothing does the averaging for free
+const REGION_SAMPLE_SIZE = 8;
+
+export interface PulseSamplerControls {
+  sample: (face: Face) => number | null;
+}
+
+export function usePulseSampler(videoRef: React.RefObject<HTMLVideoElement>): PulseSamplerControls {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Sample every frame; the pulse needs the full frame rate. Null when no skin can be sampled.
+  const sample = useCallback((face: Face): number | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return null;
+
+    const regions = getPulseSampleRegions(face, video.videoWidth, video.videoHeight);
+    if (regions.length === 0) return null;
+
+    const size = REGION_SAMPLE_SIZE;
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement('canvas');
+      canvasRef.current.width = size * regions.length;
+      canvasRef.current.height = size;
+    }
+    const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    regions.forEach((region, i) => {
+      ctx.drawImage(video, region.x, region.y, region.width, region.height, i * size, 0, size, size);
+    });
+
+    return getMeanGreen(ctx.getImageData(0, 0, size * regions.length, size));
+  }, [videoRef]);
+
+  return { sample };
+}
@@ -0,0 +1,50 @@
+// Reflection sampler hook - measures face and background color for the COLOR_FLASH challenge
+
+import { useRef, useCallback } from 'react';
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { calculateBoundingBox } from '@/utils/landmarks';
+import { ReflectionSample, measureReflection } from '@/utils/reflection';
+
+// Mean colors need no detail; a small copy of the frame keeps sampling cheap at full frame rate
+const SAMPLE_WIDTH = 80;
+
+export interface ReflectionSamplerControls {
+  sample: (face: Face) => ReflectionSample | null;
+}
+
+export function useReflectionSampler(videoRef: React.RefObject<HTMLVideoElement>): ReflectionSamplerControls {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  // Sample the current frame; null when the video or the regions are not usable
+  const sample = useCallback((face: Face): ReflectionSample | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return null;
+
+    const scale = SAMPLE_WIDTH / video.videoWidth;
+    const width = SAMPLE_WIDTH;
+    const height = Math.round(video.videoHeight * scale);
+
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement('canvas');
+    }
+    const canvas = canvasRef.current;
+    if (canvas.width !== width || canvas.height !== height) {
+      canvas.width = width;
+      canvas.height = height;
+    }
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(video, 0, 0, width, height);
+
+    const box = calculateBoundingBox(face);
+    return measureReflection(ctx.getImageData(0, 0, width, height), {
+      x: box.x * scale,
+      y: box.y * scale,
+      width: box.width * scale,
+      height: box.height * scale,
+    });
+  }, [videoRef]);
+
+  return { sample };
+}
@@ -0,0 +1,103 @@
+// Replay sampler hook - hashes the face crop and counts duplicated video frames for replay detection
+
+import { useRef, useCallback, useEffect } from 'react';
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { BoundingBox } from '@/types/liveness';
+import { getReplayCropRegion, hashPixels, REPLAY_CONFIG, VideoFrameSample } from '@/utils/replay';
+
+export interface ReplaySamplerControls {
+  sample: (face: Face) => VideoFrameSample | null;
+}
+
+interface FrameCounts {
+  presented: number;
+  compared: number;
+  duplicates: number;
+}
+
+export function useReplaySampler(videoRef: React.RefObject<HTMLVideoElement>): ReplaySamplerControls {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const regionRef = useRef<BoundingBox | null>(null);
+  const countsRef = useRef<FrameCounts>({ presented: 0, compared: 0, duplicates: 0 });
+  const lastFrameRef = useRef<{ presentedFrames: number; hash: number | null } | null>(null);
+  const callbackRef = useRef<{ video: HTMLVideoElement; handle: number } | null>(null);
+
+  const hashRegion = useCallback((video: HTMLVideoElement, region: BoundingBox): number | null => {
+    const size = REPLAY_CONFIG.CROP_SIZE;
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement('canvas');
+      canvasRef.current.width = size;
+      canvasRef.current.height = size;
+    }
+    const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, size, size);
+    return hashPixels(ctx.getImageData(0, 0, size, size));
+  }, []);
+
+  // Runs once per presented video frame, which the detection loop samples only every few frames
+  const watchFrames = useCallback((video: HTMLVideoElement) => {
+    const onFrame = (_now: number, metadata: VideoFrameCallbackMetadata) => {
+      const region = regionRef.current;
+      const hash = region ? hashRegion(video, region) : null;
+      const last = lastFrameRef.current;
+
+      if (last) {
+        const counts = countsRef.current;
+        counts.presented += Math.max(0, metadata.presentedFrames - last.presentedFrames);
+        // Frames in between were missed, so only directly consecutive frames are compared
+        if (metadata.presentedFrames - last.presentedFrames === 1 && hash !== null && last.hash !== null) {
+          counts.compared++;
+          if (hash === last.hash) counts.duplicates++;
+        }
+      }
+      lastFrameRef.current = { presentedFrames: metadata.presentedFrames, hash };
+
+      callbackRef.current = { video, handle: video.requestVideoFrameCallback(onFrame) };
+    };
+
+    callbackRef.current = { video, handle: video.requestVideoFrameCallback(onFrame) };
+  }, [hashRegion]);
+
+  useEffect(() => () => {
+    const callback = callbackRef.current;
+    if (callback) callback.video.cancelVideoFrameCallback(callback.handle);
+    callbackRef.current = null;
+  }, []);
+
+  // Hash the current frame's face crop and hand over the frame counts gathered since the last call
+  const sample = useCallback((face: Face): VideoFrameSample | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return null;
+
+    const region = getReplayCropRegion(face, video.videoWidth, video.videoHeight);
+    regionRef.current = region;
+    if (!region) return null;
+
+    // Frame timing is only reported where requestVideoFrameCallback is supported
+    const timed = 'requestVideoFrameCallback' in video;
+    if (timed && callbackRef.current?.video !== video) {
+      callbackRef.current?.video.cancelVideoFrameCallback(callbackRef.current.handle);
+      lastFrameRef.current = null;
+      watchFrames(video);
+    }
+
+    const hash = hashRegion(video, region);
+    if (hash === null) return null;
+
+    const counts = countsRef.current;
+    countsRef.current = { presented: 0, compared: 0, duplicates: 0 };
+
+    return timed
+      ? {
+          hash,
+          presentedFrames: counts.presented,
+          comparedFrames: counts.compared,
+          duplicateFrames: counts.duplicates,
+        }
+      : { hash };
+  }, [videoRef, hashRegion, watchFrames]);
+
+  return { sample };
+}
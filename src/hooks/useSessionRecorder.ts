@@ -0,0 +1,78 @@
+// Session recording hook - opt-in MediaRecorder capture of a liveness session
+
+import { useRef, useCallback, useEffect } from 'react';
+import type { LivenessEvent } from '@/engine';
+import {
+  SessionRecorder,
+  SessionRecorderOptions,
+  SessionRecording,
+  isRecordingSupported,
+} from '@/recording';
+
+export interface SessionRecorderControls {
+  // Feed every engine event; recording starts on ALIGN and stops on SUCCESS / FAILURE
+  handleEvent: (event: LivenessEvent) => void;
+  // Video of the session that just ended, or null when recording is off
+  takeRecording: () => Promise<SessionRecording | null>;
+  cancel: () => void;
+}
+
+export function useSessionRecorder(
+  stream: MediaStream | null,
+  options: SessionRecorderOptions | false
+): SessionRecorderControls {
+  // Refs so callbacks captured before the camera started still see the stream
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const streamRef = useRef(stream);
+  streamRef.current = stream;
+  
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const recordingRef = useRef<Promise<SessionRecording | null> | null>(null);
+  
+  const cancel = useCallback(() => {
+    recorderRef.current?.cancel();
+    recorderRef.current = null;
+    recordingRef.current = null;
+  }, []);
+  
+  const handleEvent = useCallback((event: LivenessEvent) => {
+    const recorderOptions = optionsRef.current;
+    if (recorderOptions === false) return;
+    
+    if (event.type === 'STEP_ENTERED' && event.step === 'ALIGN' && !recorderRef.current) {
+      if (!streamRef.current || !isRecordingSupported()) return;
+      try {
+        recorderRef.current = new SessionRecorder(streamRef.current, event.at, recorderOptions);
+      } catch (err) {
+        console.warn('Could not start session recording:', err);
+        return;
+      }
+    }
+    
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    
+    recorder.mark(event);
+    
+    // Stop as soon as the outcome is known; the callbacks collect the result
+    if (event.type === 'SUCCESS' || event.type === 'FAILURE') {
+      recorderRef.current = null;
+      recordingRef.current = recorder.stop(Date.now()).catch((err) => {
+        console.warn('Could not finish session recording:', err);
+        return null;
+      });
+    }
+  }, []);
+  
+  const takeRecording = useCallback(async () => {
+    const recording = recordingRef.current;
+    recordingRef.current = null;
+    return recording ?? null;
+  }, []);
+  
+  // Never leave the camera recording after unmount
+  useEffect(() => cancel, [cancel]);
+  
+  return { handleEvent, takeRecording, cancel };
+}
@@ -0,0 +1,48 @@
+// Texture analyzer hook - samples a cheek patch from the video for screen/print detection
+
+import { useRef, useCallback } from 'react';
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { CONFIG } from '@/types/liveness';
+import { TextureMetrics, TEXTURE_CONFIG, analyzeTexture, getTextureSampleRegion } from '@/utils/texture';
+
+export interface TextureAnalyzerControls {
+  analyze: (face: Face, now: number) => TextureMetrics | null;
+  reset: () => void;
+}
+
+export function useTextureAnalyzer(videoRef: React.RefObject<HTMLVideoElement>): TextureAnalyzerControls {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const lastAnalysisRef = useRef(0);
+
+  const reset = useCallback(() => {
+    lastAnalysisRef.current = 0;
+  }, []);
+
+  // Analyze the current frame; null while throttled or when no patch can be sampled
+  const analyze = useCallback((face: Face, now: number): TextureMetrics | null => {
+    const video = videoRef.current;
+    if (!video || video.videoWidth === 0) return null;
+    if (now - lastAnalysisRef.current < CONFIG.TEXTURE_ANALYSIS_INTERVAL_MS) return null;
+
+    const region = getTextureSampleRegion(face, video.videoWidth, video.videoHeight);
+    if (!region) return null;
+    lastAnalysisRef.current = now;
+
+    const size = TEXTURE_CONFIG.PATCH_SIZE;
+    if (!canvasRef.current) {
+      canvasRef.current = document.createElement('canvas');
+      canvasRef.current.width = size;
+      canvasRef.current.height = size;
+    }
+    const ctx = canvasRef.current.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return null;
+
+    // No smoothing: interpolation would blur away the pixel grid being looked for
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(video, region.x, region.y, region.width, region.height, 0, 0, size, size);
+
+    return analyzeTexture(ctx.getImageData(0, 0, size, size));
+  }, [videoRef]);
+
+  return { analyze, reset };
+}
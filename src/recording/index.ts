@@ -0,0 +1,4 @@
+// Barrel export for session recording
+
+export * from './types';
+export * from './sessionRecorder';
@@ -0,0 +1,152 @@
+// MediaRecorder wrapper that records a liveness session with a step timeline
+
+import { CONFIG } from '@/types/liveness';
+import type { LivenessEvent } from '@/engine';
+import {
+  RECORDING_TIMELINE_VERSION,
+  RecordingMarker,
+  SessionRecorderOptions,
+  SessionRecording,
+} from './types';
+
+// Tried in order when no supported type is requested
+const WEBM_MIME_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+/**
+ * Whether the browser can record a MediaStream
+ */
+export function isRecordingSupported(): boolean {
+  return typeof MediaRecorder !== 'undefined';
+}
+
+/**
+ * First supported WebM type, preferring the requested one
+ */
+export function pickRecordingMimeType(preferred?: string): string {
+  const candidates = preferred ? [preferred, ...WEBM_MIME_TYPES] : WEBM_MIME_TYPES;
+  return candidates.find(type => MediaRecorder.isTypeSupported(type)) ?? '';
+}
+
+/**
+ * Timeline marker for an engine event
+ */
+export function toRecordingMarker(event: LivenessEvent, startedAt: number): RecordingMarker {
+  switch (event.type) {
+    case 'SUCCESS': {
+      const at = event.result.timestamp.getTime();
+      return { type: 'SUCCESS', at, offsetMs: at - startedAt, step: 'SUCCESS' };
+    }
+    case 'FAILURE': {
+      const at = event.failure.timestamp.getTime();
+      return {
+        type: 'FAILURE',
+        at,
+        offsetMs: at - startedAt,
+        step: event.failure.step,
+        reason: event.failure.reason,
+      };
+    }
+    case 'ATTEMPT_FAILED':
+      return {
+        type: 'ATTEMPT_FAILED',
+        at: event.at,
+        offsetMs: event.at - startedAt,
+        step: event.step,
+        reason: event.reason,
+        attempt: event.attempt,
+      };
+    default:
+      return { type: event.type, at: event.at, offsetMs: event.at - startedAt, step: event.step };
+  }
+}
+
+export class SessionRecorder {
+  private readonly recorder: MediaRecorder;
+  private readonly mimeType: string;
+  private readonly maxBytes: number;
+  private readonly startedAt: number;
+  private readonly stopped: Promise<void>;
+  private readonly chunks: Blob[] = [];
+  private readonly markers: RecordingMarker[] = [];
+  private sizeBytes = 0;
+  private truncatedAt: number | null = null;
+  private cancelled = false;
+
+  constructor(stream: MediaStream, now: number, options: SessionRecorderOptions = {}) {
+    this.mimeType = pickRecordingMimeType(options.mimeType);
+    this.maxBytes = options.maxBytes ?? CONFIG.RECORDING_MAX_BYTES;
+    this.startedAt = now;
+
+    this.recorder = new MediaRecorder(stream, {
+      ...(this.mimeType ? { mimeType: this.mimeType } : {}),
+      videoBitsPerSecond: options.videoBitsPerSecond ?? CONFIG.RECORDING_BITRATE,
+    });
+    this.recorder.ondataavailable = (event) => this.append(event.data, Date.now());
+    this.stopped = new Promise(resolve => {
+      this.recorder.addEventListener('stop', () => resolve(), { once: true });
+    });
+
+    // Timesliced so the size cap is enforced while recording
+    this.recorder.start(CONFIG.RECORDING_TIMESLICE_MS);
+  }
+
+  get isRecording(): boolean {
+    return this.recorder.state !== 'inactive';
+  }
+
+  /**
+   * Add an engine event to the timeline
+   */
+  mark(event: LivenessEvent): void {
+    this.markers.push(toRecordingMarker(event, this.startedAt));
+  }
+
+  /**
+   * Stop recording and assemble the video and timeline
+   */
+  async stop(now: number): Promise<SessionRecording> {
+    if (this.isRecording) this.recorder.stop();
+    await this.stopped;
+
+    const mimeType = this.mimeType || this.recorder.mimeType || 'video/webm';
+
+    return {
+      blob: new Blob(this.chunks, { type: mimeType }),
+      mimeType,
+      sizeBytes: this.sizeBytes,
+      truncated: this.truncatedAt !== null,
+      timeline: {
+        version: RECORDING_TIMELINE_VERSION,
+        mimeType,
+        startedAt: this.startedAt,
+        endedAt: now,
+        truncatedAt: this.truncatedAt,
+        markers: [...this.markers],
+      },
+    };
+  }
+
+  /**
+   * Stop recording and drop the data
+   */
+  cancel(): void {
+    this.cancelled = true;
+    if (this.isRecording) this.recorder.stop();
+    this.chunks.length = 0;
+    this.sizeBytes = 0;
+  }
+
+  // Keep chunks until the next one would cross the cap, then stop for good
+  private append(chunk: Blob, now: number): void {
+    if (chunk.size === 0 || this.cancelled || this.truncatedAt !== null) return;
+
+    if (this.sizeBytes + chunk.size > this.maxBytes) {
+      this.truncatedAt = now - this.startedAt;
+      if (this.isRecording) this.recorder.stop();
+      return;
+    }
+
+    this.chunks.push(chunk);
+    this.sizeBytes += chunk.size;
+  }
+}
@@ -0,0 +1,46 @@
+// Session recording types shared by the recorder and result consumers
+
+import type { LivenessFailureReason, LivenessStep } from '@/types/liveness';
+
+export const RECORDING_TIMELINE_VERSION = 1;
+
+export type RecordingMarkerType =
+  | 'STEP_ENTERED'
+  | 'STEP_COMPLETED'
+  | 'ATTEMPT_FAILED'
+  | 'SUCCESS'
+  | 'FAILURE';
+
+// One engine event, positioned in the video
+export interface RecordingMarker {
+  type: RecordingMarkerType;
+  at: number;       // Epoch ms
+  offsetMs: number; // From the start of the recording
+  step: LivenessStep;
+  reason?: LivenessFailureReason;
+  attempt?: number;
+}
+
+// Sidecar timeline; serialize with JSON.stringify next to the video
+export interface RecordingTimeline {
+  version: number;
+  mimeType: string;
+  startedAt: number;          // Epoch ms of the first video frame
+  endedAt: number;
+  truncatedAt: number | null; // Offset where the size cap cut the video, if it did
+  markers: RecordingMarker[];
+}
+
+export interface SessionRecording {
+  blob: Blob;
+  mimeType: string;
+  sizeBytes: number;
+  truncated: boolean; // The size cap was reached; the video ends at timeline.truncatedAt
+  timeline: RecordingTimeline;
+}
+
+export interface SessionRecorderOptions {
+  mimeType?: string;           // Preferred container/codec; falls back to the first supported WebM type
+  videoBitsPerSecond?: number;
+  maxBytes?: number;           // Hard cap on the recorded video size
+}
@@ -0,0 +1,89 @@
+// Reference challenge issuer - what a backend hands to <FaceLiveness challenge={...} />
+// Isomorphic: uses the WebCrypto random source available in browsers and Node 20+
+
+import {
+  CONFIG,
+  LivenessStep,
+  RANDOMIZABLE_STEPS,
+  SessionChallenge,
+  SessionChallengeParams,
+  generateRandomStepOrder,
+} from '@/types/liveness';
+import { generateDigits } from '@/challenges/speakDigits';
+import { generateDotTargets } from '@/challenges/followDot';
+import { generateFlashColors } from '@/challenges/colorFlash';
+
+export interface IssueChallengeOptions {
+  steps?: LivenessStep[]; // Candidate steps, shuffled by the issuer
+  stepCount?: number;     // Number of steps to keep after shuffling (default: all)
+  ttlMs?: number;         // Time until the challenge expires
+  keyThumbprint?: string; // Client attestation key to bind to this challenge
+  now?: number;
+}
+
+export const DEFAULT_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Cryptographically secure replacement for Math.random
+ */
+export function secureRandom(): number {
+  const buffer = new Uint32Array(1);
+  crypto.getRandomValues(buffer);
+  return buffer[0] / 2 ** 32;
+}
+
+/**
+ * Random hex nonce
+ */
+export function generateNonce(bytes: number = 16): string {
+  const buffer = new Uint8Array(bytes);
+  crypto.getRandomValues(buffer);
+  return Array.from(buffer, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Pin the random parts of the selected challenges
+ */
+function generateParams(steps: LivenessStep[]): SessionChallengeParams {
+  const params: SessionChallengeParams = {};
+
+  if (steps.includes('BLINK_N')) {
+    const range = CONFIG.BLINK_N_MAX - CONFIG.BLINK_N_MIN + 1;
+    params.blinkCount = CONFIG.BLINK_N_MIN + Math.floor(secureRandom() * range);
+  }
+  if (steps.includes('SPEAK_DIGITS')) {
+    params.digits = generateDigits(secureRandom);
+  }
+  if (steps.includes('FOLLOW_DOT')) {
+    params.dotTargets = generateDotTargets(CONFIG.GAZE_TARGET_COUNT, secureRandom);
+  }
+  if (steps.includes('COLOR_FLASH')) {
+    params.flashColors = generateFlashColors(CONFIG.COLOR_FLASH_COUNT, secureRandom);
+  }
+
+  return params;
+}
+
+/**
+ * Issue a new session challenge with a fresh nonce and shuffled steps
+ */
+export function issueSessionChallenge({
+  steps = RANDOMIZABLE_STEPS,
+  stepCount,
+  ttlMs = DEFAULT_CHALLENGE_TTL_MS,
+  keyThumbprint,
+  now = Date.now(),
+}: IssueChallengeOptions = {}): SessionChallenge {
+  // Drop ALIGN from the shuffled order; the client always runs it first
+  const order = generateRandomStepOrder(steps, secureRandom).slice(1);
+  const selected = stepCount ? order.slice(0, stepCount) : order;
+
+  return {
+    nonce: generateNonce(),
+    steps: selected,
+    issuedAt: now,
+    expiresAt: now + ttlMs,
+    params: generateParams(selected),
+    ...(keyThumbprint ? { keyThumbprint } : {}),
+  };
+}
@@ -0,0 +1,35 @@
+// Local reference issuer for testing - not for production use
+// Run with `npm run issuer`, then fetch GET http://localhost:8787/challenge
+
+import { createServer } from 'node:http';
+import { issueSessionChallenge } from './challengeIssuer';
+import type { LivenessStep } from '@/types/liveness';
+
+const PORT = Number(process.env.PORT ?? 8787);
+
+const server = createServer((req, res) => {
+  const url = new URL(req.url ?? '/', `http://localhost:${PORT}`);
+
+  // The demo app runs on another origin during development
+  res.setHeader('Access-Control-Allow-Origin', '*');
+
+  if (req.method !== 'GET' || url.pathname !== '/challenge') {
+    res.writeHead(404).end();
+    return;
+  }
+
+  // Optional ?steps=BLINK,SMILE&count=2&ttl=60000&key=<JWK thumbprint>
+  const steps = url.searchParams.get('steps')?.split(',') as LivenessStep[] | undefined;
+  const stepCount = Number(url.searchParams.get('count')) || undefined;
+  const ttlMs = Number(url.searchParams.get('ttl')) || undefined;
+  const keyThumbprint = url.searchParams.get('key') ?? undefined;
+
+  const challenge = issueSessionChallenge({ steps, stepCount, ttlMs, keyThumbprint });
+
+  res.writeHead(200, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(challenge));
+});
+
+server.listen(PORT, () => {
+  console.log(`Challenge issuer listening on http://localhost:${PORT}/challenge`);
+});
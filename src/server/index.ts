@@ -0,0 +1,4 @@
+// Barrel export for backend reference helpers
+
+export * from './challengeIssuer';
+export * from './verifyAttestation';
@@ -0,0 +1,137 @@
+// Backend verification of signed liveness results
+// Uses the WebCrypto API, available globally in Node 20+
+
+import { CONFIG, SessionChallenge } from '@/types/liveness';
+import {
+  ATTESTATION_VERSION,
+  AttestationPayload,
+  LivenessAttestation,
+  SIGNATURE_ALGORITHM,
+  canonicalize,
+  fromBase64Url,
+  getKeyThumbprint,
+  importPublicKey,
+} from '@/attestation';
+
+export type AttestationFailureReason =
+  | 'MALFORMED'
+  | 'UNSUPPORTED_ALGORITHM'
+  | 'KEY_MISMATCH'
+  | 'UNBOUND_KEY'
+  | 'NONCE_MISMATCH'
+  | 'STEP_MISMATCH'
+  | 'EXPIRED'
+  | 'BAD_SIGNATURE'
+  | 'SPOOF_FLAGGED'
+  | 'REPLAYED';
+
+export type AttestationVerification =
+  | { valid: true; payload: AttestationPayload }
+  | { valid: false; reason: AttestationFailureReason };
+
+// Remembers redeemed nonces; a Set works for a single process
+export interface NonceStore {
+  has(nonce: string): boolean;
+  add(nonce: string): unknown;
+}
+
+export interface VerifyAttestationOptions {
+  challenge: SessionChallenge; // The challenge issued for this session
+  usedNonces: NonceStore;
+  now?: number;
+  maxSessionMs?: number;       // How long after expiry a started session may still finish
+}
+
+function isAttestation(value: unknown): value is LivenessAttestation {
+  const attestation = value as LivenessAttestation;
+  return (
+    !!attestation &&
+    typeof attestation.signature === 'string' &&
+    !!attestation.publicKey &&
+    !!attestation.payload &&
+    typeof attestation.payload.timestamp === 'number' &&
+    attestation.payload.antiSpoof !== undefined &&
+    attestation.payload.cameraTrust !== undefined
+  );
+}
+
+/**
+ * Verify a signed liveness result against the challenge it was issued for
+ * The nonce is only marked as used once everything else checks out
+ */
+export async function verifyLivenessAttestation(
+  attestation: unknown,
+  {
+    challenge,
+    usedNonces,
+    now = Date.now(),
+    maxSessionMs = CONFIG.SESSION_TIMEOUT_MS,
+  }: VerifyAttestationOptions
+): Promise<AttestationVerification> {
+  if (!isAttestation(attestation) || attestation.payload.version !== ATTESTATION_VERSION) {
+    return { valid: false, reason: 'MALFORMED' };
+  }
+  if (attestation.algorithm !== 'ES256') {
+    return { valid: false, reason: 'UNSUPPORTED_ALGORITHM' };
+  }
+
+  const { payload, publicKey } = attestation;
+
+  // Anyone can sign with a fresh key, so only a key registered with the challenge proves anything
+  if (!challenge.keyThumbprint) {
+    return { valid: false, reason: 'UNBOUND_KEY' };
+  }
+
+  // The signing key must be the one named in the payload and registered with the challenge
+  const thumbprint = await getKeyThumbprint(publicKey);
+  if (thumbprint !== payload.keyThumbprint || thumbprint !== challenge.keyThumbprint) {
+    return { valid: false, reason: 'KEY_MISMATCH' };
+  }
+
+  if (payload.nonce !== challenge.nonce) {
+    return { valid: false, reason: 'NONCE_MISMATCH' };
+  }
+
+  const deadline = challenge.expiresAt + maxSessionMs;
+  if (payload.timestamp < challenge.issuedAt || payload.timestamp > deadline || now > deadline) {
+    return { valid: false, reason: 'EXPIRED' };
+  }
+
+  let signatureValid = false;
+  try {
+    signatureValid = await crypto.subtle.verify(
+      SIGNATURE_ALGORITHM,
+      await importPublicKey(publicKey),
+      fromBase64Url(attestation.signature),
+      new TextEncoder().encode(canonicalize(payload))
+    );
+  } catch {
+    return { valid: false, reason: 'MALFORMED' };
+  }
+  if (!signatureValid) {
+    return { valid: false, reason: 'BAD_SIGNATURE' };
+  }
+
+  // The session must have run exactly the issued steps, after ALIGN; like the engine,
+  // an ALIGN listed in the challenge is not run twice
+  const expectedSteps = ['ALIGN', ...challenge.steps.filter(step => step !== 'ALIGN')];
+  if (
+    !Array.isArray(payload.steps) ||
+    payload.steps.length !== expectedSteps.length ||
+    payload.steps.some((step, i) => step !== expectedSteps[i])
+  ) {
+    return { valid: false, reason: 'STEP_MISMATCH' };
+  }
+
+  // The signed verdict is what the client saw; a flagged spoof or a virtual camera never passes
+  if (payload.antiSpoof?.isSpoof || payload.cameraTrust === 'virtual') {
+    return { valid: false, reason: 'SPOOF_FLAGGED' };
+  }
+
+  if (usedNonces.has(challenge.nonce)) {
+    return { valid: false, reason: 'REPLAYED' };
+  }
+  usedNonces.add(challenge.nonce);
+
+  return { valid: true, payload };
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, afterEach } from "vitest";
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import {
+  AntiSpoofDetector,
+  AntiSpoofPolicy,
+  BUILT_IN_DETECTORS,
+  getRegisteredDetectors,
+  registerDetector,
+  unregisterDetector,
+} from "@/detectors";
+import { AntiSpoofState, createAntiSpoofState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { LivenessEngine, LivenessTransition } from "@/engine";
+import { CONFIG, FrameSignals, LivenessResult } from "@/types/liveness";
+import { syntheticFaceSequence, SyntheticFaceOptions, GUIDE_BOX, textureMetrics } from "./syntheticFace";
+
+type SequenceOptions = SyntheticFaceOptions & { sway?: number };
+
+function run(
+  options: SequenceOptions,
+  policy: AntiSpoofPolicy = {},
+  signals: (frame: number) => FrameSignals = () => ({})
+): AntiSpoofState {
+  const frames = syntheticFaceSequence(options);
+  let state = createAntiSpoofState();
+  for (let i = 0; i < 30; i++) {
+    state = updateAntiSpoofState(state, frames.next().value as Face, 1000 + i * CONFIG.FRAME_INTERVAL, signals(i), policy);
+  }
+  return state;
+}
+
+const FLAT_AND_STILL: SequenceOptions = { depth: 0, sway: 0 };
+const LIVE: SequenceOptions = { jitter: 0.3 };
+const RECAPTURED = () => ({ texture: textureMetrics(0.9) });
+
+describe("anti-spoof detector pipeline", () => {
+  afterEach(() => unregisterDetector("blur"));
+
+  it("lists every detector's score in the verdict", () => {
+    const { verdict } = run(LIVE);
+
+    expect(verdict.detectors.map(d => d.id)).toEqual(BUILT_IN_DETECTORS.map(d => d.id));
+    expect(verdict.score).toBe(0);
+    expect(verdict.isSpoof).toBe(false);
+
+    // Texture and pulse abstain without pixel signals
+    const textureVerdict = verdict.detectors.find(d => d.id === "texture");
+    expect(textureVerdict).toMatchObject({ confidence: 0, contribution: 0, weight: 0.6 });
+  });
+
+  it("reports every reason, strongest first", () => {
+    const state = run(FLAT_AND_STILL);
+
+    expect(state.verdict.reasons).toEqual([
+      "Flat face detected (no depth)",
+      "No natural micro-movements",
+      "Face too static",
+    ]);
+    expect(state.reason).toBe("Flat face detected (no depth)");
+    expect(state.spoofScore).toBeCloseTo(1);
+  });
+
+  it("disables detectors and overrides weights and the threshold", () => {
+    const withoutDepth = run(FLAT_AND_STILL, { detectors: { depth: { enabled: false } } });
+    expect(withoutDepth.verdict.detectors.map(d => d.id)).not.toContain("depth");
+    expect(withoutDepth.reason).toBe("No natural micro-movements");
+    expect(withoutDepth.spoofScore).toBeCloseTo(0.6);
+
+    expect(run(LIVE, {}, RECAPTURED).isSpoof).toBe(true);
+    expect(run(LIVE, { detectors: { texture: { weight: 0.3 } } }, RECAPTURED).isSpoof).toBe(false);
+    expect(run(LIVE, { threshold: 0.7 }, RECAPTURED).isSpoof).toBe(false);
+  });
+
+  it("lets a vetoing detector flag a spoof on its own", () => {
+    const policy = { detectors: { texture: { weight: 0.1, veto: true } } };
+    const state = run(LIVE, policy, RECAPTURED);
+
+    expect(state.spoofScore).toBeCloseTo(0.1);
+    expect(state.isSpoof).toBe(true);
+    expect(state.verdict.vetoedBy).toBe("texture");
+    expect(state.reason).toBe("Screen or print texture detected");
+  });
+
+  it("runs registered custom detectors on their own state", () => {
+    const blur: AntiSpoofDetector<number> = {
+      id: "blur",
+      label: "Blur",
+      weight: 0.7,
+      createState: () => 0,
+      update: (_ctx, frames) => frames + 1,
+      evaluate: (frames) => ({ score: 1, confidence: Math.min(1, frames / 20), reasons: ["Too blurry"] }),
+    };
+    registerDetector(blur);
+    expect(getRegisteredDetectors()).toContain(blur);
+
+    const state = run(LIVE);
+    expect(state.detectorState.blur).toBe(30);
+    expect(state.isSpoof).toBe(true);
+    expect(state.reason).toBe("Too blurry");
+
+    unregisterDetector("blur");
+    expect(run(LIVE).isSpoof).toBe(false);
+  });
+
+  it("takes the policy from the engine options and returns the verdict in the result", () => {
+    const engine = new LivenessEngine({
+      steps: [],
+      random: () => 0.5,
+      antiSpoof: { detectors: { stillness: { enabled: false } } },
+    });
+    let result: LivenessResult | undefined;
+    const apply = ({ events }: LivenessTransition) => {
+      for (const event of events) {
+        if (event.type === "SUCCESS") result = event.result;
+      }
+    };
+
+    let { state } = engine.start(1000);
+    const frames = syntheticFaceSequence(LIVE);
+    for (let i = 1; i <= CONFIG.ALIGN_REQUIRED_FRAMES + 10 && !result; i++) {
+      const transition = engine.process(state, frames.next().value, GUIDE_BOX, 1000 + i * CONFIG.FRAME_INTERVAL);
+      state = transition.state;
+      apply(transition);
+    }
+
+    expect(result).toBeDefined();
+    expect(result.antiSpoof.isSpoof).toBe(false);
+    expect(result.antiSpoof.detectors.map(d => d.id)).not.toContain("stillness");
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect } from "vitest";
+import {
+  LivenessAttestation,
+  canonicalize,
+  createAttestationKey,
+  exportPublicKey,
+  getKeyThumbprint,
+  signLivenessAttestation,
+} from "@/attestation";
+import { verifyLivenessAttestation, issueSessionChallenge } from "@/server";
+import type { LivenessResult, SessionChallenge } from "@/types/liveness";
+import type { SpoofVerdict } from "@/detectors";
+import type { CameraTrust } from "@/utils/cameraTrust";
+
+const NOW = 1_700_000_000_000;
+
+const VERDICT: SpoofVerdict = { score: 0.1, threshold: 0.6, isSpoof: false, vetoedBy: null, reasons: [], detectors: [] };
+const WEBCAM: CameraTrust = { level: "trusted", score: 0, label: "FaceTime HD Camera", signature: null, reasons: [] };
+
+function makeResult(
+  challenge: SessionChallenge,
+  { steps = ["ALIGN", ...challenge.steps], timestamp = NOW + 20_000, antiSpoof = VERDICT, cameraTrust = WEBCAM } = {}
+): LivenessResult {
+  return {
+    timestamp: new Date(timestamp),
+    challengeNonce: challenge.nonce,
+    stepsCompleted: steps,
+    stepTimings: [{ step: "ALIGN", startedAt: NOW + 1000, completedAt: NOW + 2000 }],
+    steps: [],
+    deviceInfo: { userAgent: "test", platform: "test" },
+    metricsSummary: { openEAR: 0.25, blinkThreshold: 0.16, yawDeltas: [0.12], pitchDeltas: [] },
+    antiSpoof,
+    cameraTrust,
+  };
+}
+
+async function setup(bindKey = true) {
+  const keyPair = await createAttestationKey();
+  const keyThumbprint = await getKeyThumbprint(await exportPublicKey(keyPair.publicKey));
+  const challenge = issueSessionChallenge({
+    steps: ["BLINK", "TURN_LEFT"],
+    now: NOW,
+    ttlMs: 60_000,
+    ...(bindKey ? { keyThumbprint } : {}),
+  });
+  const attestation = await signLivenessAttestation(makeResult(challenge), keyPair, ["ab12", "cd34"]);
+
+  return { keyPair, challenge, attestation };
+}
+
+const verify = (attestation: unknown, challenge: SessionChallenge, usedNonces = new Set<string>()) =>
+  verifyLivenessAttestation(attestation, { challenge, usedNonces, now: NOW + 21_000 });
+
+// Structured clone so tampering never touches the original
+const clone = (attestation: LivenessAttestation): LivenessAttestation =>
+  JSON.parse(JSON.stringify(attestation));
+
+describe("canonicalize", () => {
+  it("is independent of key order and drops undefined values", () => {
+    expect(canonicalize({ b: 1, a: [true, null], c: undefined })).toBe('{"a":[true,null],"b":1}');
+    expect(canonicalize({ a: [true, null], b: 1 })).toBe(canonicalize({ b: 1, a: [true, null] }));
+  });
+});
+
+describe("verifyLivenessAttestation", () => {
+  it("accepts a valid attestation for its challenge", async () => {
+    const { challenge, attestation } = await setup();
+    const verification = await verify(attestation, challenge);
+
+    expect(verification).toMatchObject({ valid: true });
+    expect(verification.valid && verification.payload.frameHashes).toEqual(["ab12", "cd34"]);
+  });
+
+  it("survives a JSON round trip with reordered keys", async () => {
+    const { challenge, attestation } = await setup();
+    const { payload, ...rest } = clone(attestation);
+    const reordered = { ...rest, payload: Object.fromEntries(Object.entries(payload).reverse()) };
+
+    expect(await verify(reordered, challenge)).toMatchObject({ valid: true });
+  });
+
+  it("rejects tampered metrics, steps and timings", async () => {
+    const { challenge, attestation } = await setup();
+
+    const metrics = clone(attestation);
+    metrics.payload.metricsSummary.yawDeltas = [0.5];
+    expect(await verify(metrics, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+
+    const steps = clone(attestation);
+    steps.payload.steps.pop();
+    expect(await verify(steps, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+
+    const timings = clone(attestation);
+    timings.payload.stepTimings[0].completedAt += 1;
+    expect(await verify(timings, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+  });
+
+  it("signs the anti-spoof verdict and camera trust and rejects tampering with them", async () => {
+    const { challenge, attestation } = await setup();
+    expect(attestation.payload.antiSpoof).toEqual({ score: 0.1, threshold: 0.6, isSpoof: false, vetoedBy: null });
+    expect(attestation.payload.cameraTrust).toBe("trusted");
+
+    const score = clone(attestation);
+    score.payload.antiSpoof.score = 0;
+    expect(await verify(score, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+
+    const veto = clone(attestation);
+    veto.payload.antiSpoof.vetoedBy = "texture";
+    expect(await verify(veto, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+
+    const camera = clone(attestation);
+    camera.payload.cameraTrust = "suspicious";
+    expect(await verify(camera, challenge)).toEqual({ valid: false, reason: "BAD_SIGNATURE" });
+
+    const stripped = clone(attestation);
+    delete stripped.payload.antiSpoof;
+    expect(await verify(stripped, challenge)).toEqual({ valid: false, reason: "MALFORMED" });
+  });
+
+  it("rejects a signed spoof verdict or a virtual camera", async () => {
+    const { keyPair, challenge } = await setup();
+
+    const spoof = { ...VERDICT, score: 0.9, isSpoof: true, vetoedBy: "replay" };
+    const spoofed = await signLivenessAttestation(makeResult(challenge, { antiSpoof: spoof }), keyPair);
+    expect(await verify(spoofed, challenge)).toEqual({ valid: false, reason: "SPOOF_FLAGGED" });
+
+    const obs = { ...WEBCAM, level: "virtual" as const, score: 1, signature: "OBS Virtual Camera" };
+    const virtual = await signLivenessAttestation(makeResult(challenge, { cameraTrust: obs }), keyPair);
+    expect(await verify(virtual, challenge)).toEqual({ valid: false, reason: "SPOOF_FLAGGED" });
+  });
+
+  it("rejects a result re-signed with a different key", async () => {
+    const { challenge, attestation } = await setup();
+    const otherKey = await createAttestationKey();
+    const forged = await signLivenessAttestation(makeResult(challenge), otherKey);
+
+    expect(await verify(forged, challenge)).toEqual({ valid: false, reason: "KEY_MISMATCH" });
+
+    // Swapping only the public key breaks the thumbprint binding
+    const swapped = { ...clone(attestation), publicKey: forged.publicKey };
+    expect(await verify(swapped, challenge)).toEqual({ valid: false, reason: "KEY_MISMATCH" });
+  });
+
+  it("rejects an attestation for another challenge", async () => {
+    const { challenge, attestation } = await setup();
+    const other = issueSessionChallenge({ now: NOW, ttlMs: 60_000, keyThumbprint: challenge.keyThumbprint });
+
+    expect(await verify(attestation, other)).toEqual({ valid: false, reason: "NONCE_MISMATCH" });
+  });
+
+  it("rejects a key that was not registered with the challenge", async () => {
+    const { challenge, attestation } = await setup(false);
+
+    expect(challenge.keyThumbprint).toBeUndefined();
+    expect(await verify(attestation, challenge)).toEqual({ valid: false, reason: "UNBOUND_KEY" });
+  });
+
+  it("rejects a session that ran other steps than issued", async () => {
+    const { keyPair, challenge } = await setup();
+
+    const reordered = ["ALIGN", ...[...challenge.steps].reverse()];
+    for (const steps of [["ALIGN"], reordered, [...challenge.steps], ["ALIGN", ...challenge.steps, "SMILE"]]) {
+      const attestation = await signLivenessAttestation(makeResult(challenge, { steps }), keyPair);
+      expect(await verify(attestation, challenge)).toEqual({ valid: false, reason: "STEP_MISMATCH" });
+    }
+  });
+
+  it("accepts a challenge that lists ALIGN, which the engine runs only once", async () => {
+    const { keyPair, challenge } = await setup();
+    const withAlign = { ...challenge, steps: ["ALIGN", ...challenge.steps] };
+    const attestation = await signLivenessAttestation(
+      makeResult(withAlign, { steps: ["ALIGN", ...challenge.steps] }),
+      keyPair
+    );
+
+    expect(await verify(attestation, withAlign)).toMatchObject({ valid: true });
+  });
+
+  it("rejects a completion time outside the challenge's lifetime", async () => {
+    const { keyPair, challenge } = await setup();
+
+    const early = await signLivenessAttestation(makeResult(challenge, { timestamp: NOW - 1 }), keyPair);
+    expect(await verify(early, challenge)).toEqual({ valid: false, reason: "EXPIRED" });
+
+    const future = await signLivenessAttestation(makeResult(challenge, { timestamp: NOW + 365 * 86_400_000 }), keyPair);
+    expect(await verify(future, challenge)).toEqual({ valid: false, reason: "EXPIRED" });
+  });
+
+  it("rejects replays of an accepted attestation", async () => {
+    const { challenge, attestation } = await setup();
+    const usedNonces = new Set<string>();
+
+    expect(await verify(attestation, challenge, usedNonces)).toMatchObject({ valid: true });
+    expect(await verify(attestation, challenge, usedNonces)).toEqual({ valid: false, reason: "REPLAYED" });
+  });
+
+  it("does not burn the nonce on a forged attempt", async () => {
+    const { challenge, attestation } = await setup();
+    const usedNonces = new Set<string>();
+
+    const tampered = clone(attestation);
+    tampered.payload.frameHashes = [];
+    await verify(tampered, challenge, usedNonces);
+
+    expect(await verify(attestation, challenge, usedNonces)).toMatchObject({ valid: true });
+  });
+
+  it("rejects expired challenges and malformed input", async () => {
+    const { challenge, attestation } = await setup();
+    const late = await verifyLivenessAttestation(attestation, {
+      challenge,
+      usedNonces: new Set(),
+      now: challenge.expiresAt + 10 * 60_000,
+    });
+
+    expect(late).toEqual({ valid: false, reason: "EXPIRED" });
+    expect(await verify({ payload: {} }, challenge)).toEqual({ valid: false, reason: "MALFORMED" });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { renderHook } from "@testing-library/react";
+import { useBestFrame } from "@/hooks/useBestFrame";
+import { createRandom, createSyntheticFace } from "./syntheticFace";
+
+const SIZE = 96;
+
+// Mid-grey texture, so every frame is sharp and well exposed
+function textured(seed: number): ImageData {
+  const random = createRandom(seed);
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    const value = 96 + random() * 64;
+    data.set([value, value, value, 255], i);
+  }
+  return { data, width: SIZE, height: SIZE, colorSpace: "srgb" } as ImageData;
+}
+
+const video = { videoWidth: 640, videoHeight: 480 } as HTMLVideoElement;
+
+describe("best-frame selfie", () => {
+  beforeEach(() => {
+    let frame = 0;
+    const context = { drawImage: () => {}, getImageData: () => textured(++frame) };
+    vi.spyOn(HTMLCanvasElement.prototype, "getContext")
+      .mockImplementation((() => context) as unknown as HTMLCanvasElement["getContext"]);
+    HTMLCanvasElement.prototype.toBlob = function (callback: BlobCallback) {
+      callback(new Blob(["jpeg"], { type: "image/jpeg" }));
+    };
+  });
+
+  afterEach(() => vi.restoreAllMocks());
+
+  it("never keeps a frame taken while a challenge fills the screen with color", async () => {
+    const { result } = renderHook(() => useBestFrame({ current: video }));
+    const { consider, getBestFrame } = result.current;
+
+    consider(createSyntheticFace({ yaw: 20 }), {}, 1000);
+    // A frontal face would win, but the screen is flashing red
+    consider(createSyntheticFace(), {}, 2000, "rgb(255, 0, 0)");
+    expect((await getBestFrame()).capturedAt).toBe(1000);
+
+    consider(createSyntheticFace(), {}, 3000);
+    expect((await getBestFrame()).capturedAt).toBe(3000);
+  });
+
+  it("keeps nothing when every frame was tinted", async () => {
+    const { result } = renderHook(() => useBestFrame({ current: video }));
+
+    result.current.consider(createSyntheticFace(), {}, 1000, "rgb(0, 0, 255)");
+    expect(await result.current.getBestFrame()).toBeNull();
+  });
+});
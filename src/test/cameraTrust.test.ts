@@ -0,0 +1,137 @@
+import { describe, it, expect } from "vitest";
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import { assessCameraTrust, CameraDescription, CameraTrust } from "@/utils/cameraTrust";
+import { AntiSpoofState, createAntiSpoofState, getDetectorState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { cameraDetector } from "@/detectors";
+import { LivenessEngine, LivenessTransition } from "@/engine";
+import { CONFIG, LivenessResult } from "@/types/liveness";
+import { syntheticFaceSequence, GUIDE_BOX } from "./syntheticFace";
+
+// A built-in webcam as Chrome describes it
+const WEBCAM: CameraDescription = {
+  label: "FaceTime HD Camera (05ac:8514)",
+  frameRate: 30,
+  capabilities: {
+    frameRate: { min: 1, max: 30 },
+    exposureMode: ["continuous", "manual"],
+    exposureTime: { min: 1, max: 10000 },
+  },
+  exposureControlsSupported: true,
+};
+
+// Live face motion, with the camera assessment reported on every frame after the first
+function run(cameraTrust: CameraTrust): AntiSpoofState {
+  const frames = syntheticFaceSequence({ jitter: 0.3 });
+  let state = createAntiSpoofState();
+  for (let i = 0; i < 30; i++) {
+    const signals = i > 0 ? { cameraTrust } : {};
+    state = updateAntiSpoofState(state, frames.next().value as Face, 1000 + i * CONFIG.FRAME_INTERVAL, signals);
+  }
+  return state;
+}
+
+describe("camera trust", () => {
+  it("trusts a physical webcam", () => {
+    expect(assessCameraTrust(WEBCAM)).toEqual({
+      level: "trusted",
+      score: 0,
+      label: WEBCAM.label,
+      signature: null,
+      reasons: [],
+    });
+  });
+
+  it("names a known virtual camera from its label", () => {
+    const trust = assessCameraTrust({ ...WEBCAM, label: "OBS Virtual Camera" });
+
+    expect(trust).toMatchObject({ level: "virtual", score: 1, signature: "OBS Virtual Camera" });
+    expect(trust.reasons).toEqual(["Virtual camera detected (OBS Virtual Camera)"]);
+    expect(assessCameraTrust({ ...WEBCAM, label: "ManyCam Virtual Webcam" }).signature).toBe("ManyCam");
+    expect(assessCameraTrust({ ...WEBCAM, label: "NDI Webcam Input" }).signature).toBe("NDI");
+  });
+
+  it("does not match loose words in the labels of real cameras", () => {
+    for (const label of [
+      "Integrated Webcam (virtual machine passthrough)",
+      "HD Pro Webcam C920 - Virtual Desktop",
+      "PTZOptics Move 4K NDI",
+      "NDI-ready USB Camera",
+      "Jobs Camera",
+      "Snapdragon Camera",
+    ]) {
+      expect(assessCameraTrust({ ...WEBCAM, label })).toMatchObject({ level: "trusted", signature: null });
+    }
+  });
+
+  it("suspects an unnamed camera with a fixed frame rate and no exposure controls", () => {
+    const trust = assessCameraTrust({
+      ...WEBCAM,
+      label: "USB Video Device",
+      capabilities: { frameRate: { min: 30, max: 30 } },
+    });
+
+    expect(trust.level).toBe("suspicious");
+    expect(trust.score).toBeCloseTo(0.7);
+    expect(trust.reasons).toEqual([
+      "Camera reports a single fixed frame rate",
+      "Camera has no exposure controls",
+    ]);
+  });
+
+  it("does not expect exposure controls the browser cannot report", () => {
+    const capabilities = { frameRate: { min: 1, max: 30 } };
+
+    expect(assessCameraTrust({ ...WEBCAM, capabilities, exposureControlsSupported: false }).level).toBe("trusted");
+    expect(assessCameraTrust({ ...WEBCAM, capabilities: null }).level).toBe("trusted");
+  });
+});
+
+describe("camera anti-spoof indicator", () => {
+  it("flags a virtual camera on its own", () => {
+    const state = run(assessCameraTrust({ ...WEBCAM, label: "OBS Virtual Camera" }));
+
+    expect(state.isSpoof).toBe(true);
+    expect(state.reason).toBe("Virtual camera detected (OBS Virtual Camera)");
+  });
+
+  it("keeps suspicious traits alone below the threshold", () => {
+    const state = run(assessCameraTrust({ ...WEBCAM, capabilities: { frameRate: { min: 30, max: 30 } } }));
+
+    expect(state.isSpoof).toBe(false);
+    expect(state.verdict.detectors.find(d => d.id === "camera")).toMatchObject({ score: 0.7, confidence: 1 });
+  });
+
+  it("abstains until the camera is assessed", () => {
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    let state = createAntiSpoofState();
+    for (let i = 0; i < 30; i++) {
+      state = updateAntiSpoofState(state, frames.next().value as Face, 1000 + i * CONFIG.FRAME_INTERVAL);
+    }
+
+    expect(getDetectorState(state, cameraDetector)).toBeNull();
+    expect(state.verdict.detectors.find(d => d.id === "camera")).toMatchObject({ confidence: 0 });
+  });
+
+  it("reports the camera assessment in the result", () => {
+    const cameraTrust = assessCameraTrust(WEBCAM);
+    const engine = new LivenessEngine({ steps: [], random: () => 0.5 });
+    let result: LivenessResult | undefined;
+    const apply = ({ events }: LivenessTransition) => {
+      for (const event of events) {
+        if (event.type === "SUCCESS") result = event.result;
+      }
+    };
+
+    let { state } = engine.start(1000);
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    for (let i = 1; i <= CONFIG.ALIGN_REQUIRED_FRAMES + 10 && !result; i++) {
+      const now = 1000 + i * CONFIG.FRAME_INTERVAL;
+      const transition = engine.process(state, frames.next().value, GUIDE_BOX, now, 1, { cameraTrust });
+      state = transition.state;
+      apply(transition);
+    }
+
+    expect(result).toBeDefined();
+    expect(result.cameraTrust).toEqual(cameraTrust);
+  });
+});
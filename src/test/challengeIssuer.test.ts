@@ -0,0 +1,36 @@
+import { describe, it, expect } from "vitest";
+import { issueSessionChallenge, generateNonce } from "@/server";
+import { CONFIG } from "@/types/liveness";
+
+describe("issueSessionChallenge", () => {
+  it("issues a fresh nonce and expiry per challenge", () => {
+    const first = issueSessionChallenge({ now: 1000, ttlMs: 5000 });
+    const second = issueSessionChallenge({ now: 1000, ttlMs: 5000 });
+
+    expect(first.nonce).toMatch(/^[0-9a-f]{32}$/);
+    expect(first.nonce).not.toBe(second.nonce);
+    expect(first).toMatchObject({ issuedAt: 1000, expiresAt: 6000 });
+  });
+
+  it("shuffles the candidate steps and keeps ALIGN out of the list", () => {
+    const challenge = issueSessionChallenge({ steps: ["BLINK", "SMILE", "NOD"], stepCount: 2 });
+
+    expect(challenge.steps).toHaveLength(2);
+    expect(challenge.steps).not.toContain("ALIGN");
+    challenge.steps.forEach(step => expect(["BLINK", "SMILE", "NOD"]).toContain(step));
+  });
+
+  it("pins parameters for randomized challenges", () => {
+    const { params } = issueSessionChallenge({ steps: ["BLINK_N", "SPEAK_DIGITS", "FOLLOW_DOT", "COLOR_FLASH"] });
+
+    expect(params.blinkCount).toBeGreaterThanOrEqual(CONFIG.BLINK_N_MIN);
+    expect(params.blinkCount).toBeLessThanOrEqual(CONFIG.BLINK_N_MAX);
+    expect(params.digits).toMatch(/^\d{3,4}$/);
+    expect(params.dotTargets).toHaveLength(CONFIG.GAZE_TARGET_COUNT);
+    expect(params.flashColors).toHaveLength(CONFIG.COLOR_FLASH_COUNT);
+  });
+
+  it("generates nonces of the requested size", () => {
+    expect(generateNonce(8)).toHaveLength(16);
+  });
+});
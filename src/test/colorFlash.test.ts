@@ -0,0 +1,153 @@
+import { describe, it, expect } from "vitest";
+import {
+  FLASH_COLORS,
+  FlashColor,
+  RGB,
+  ReflectionSample,
+  correlateReflection,
+  getChromaticShift,
+  measureReflection,
+} from "@/utils/reflection";
+import { colorFlashChallenge, generateFlashColors, getChallengeState } from "@/challenges";
+import { LivenessEngine, LivenessEvent, LivenessTransition } from "@/engine";
+import { CONFIG, BoundingBox, FrameSignals, LivenessResult, LivenessState } from "@/types/liveness";
+import { syntheticFaceSequence, GUIDE_BOX, createRandom } from "./syntheticFace";
+
+const SKIN: RGB = { r: 190, g: 140, b: 120 };
+const WALL: RGB = { r: 120, g: 125, b: 130 };
+
+// Deterministic per-frame sensor noise of about +-2 levels
+const noise = (seed: number) => {
+  const n = Math.sin(seed * 12.9898) * 43758.5453;
+  return (n - Math.floor(n) - 0.5) * 4;
+};
+
+const add = (base: RGB, light: RGB, gain: number, seed: number): RGB => ({
+  r: base.r + (light.r * gain) / 255 + noise(seed),
+  g: base.g + (light.g * gain) / 255 + noise(seed + 1),
+  b: base.b + (light.b * gain) / 255 + noise(seed + 2),
+});
+
+// Camera view of a scene lit by `color`; the face gets `faceGain` levels of it, the wall `wallGain`
+function observe(color: FlashColor, faceGain: number, wallGain: number, seed: number): ReflectionSample {
+  const light = FLASH_COLORS[color];
+  return { face: add(SKIN, light, faceGain, seed), background: add(WALL, light, wallGain, seed + 3) };
+}
+
+describe("reflection analysis", () => {
+  it("correlates a face lit by the flashes with the emitted colors", () => {
+    const colors: FlashColor[] = ["RED", "BLUE", "GREEN", "RED", "GREEN", "BLUE"];
+    const live = colors.map((color, i) => getChromaticShift(observe(color, 40, 4, i * 10)));
+    expect(correlateReflection(colors, live)).toBeGreaterThan(0.9);
+
+    // A screen replay tints the face and the wall alike
+    const replay = colors.map((color, i) => getChromaticShift(observe(color, 4, 4, i * 10)));
+    expect(correlateReflection(colors, replay)).toBeLessThan(CONFIG.COLOR_FLASH_MIN_CORRELATION);
+
+    // Reflections that follow a different sequence
+    const other: FlashColor[] = ["GREEN", "RED", "BLUE", "GREEN", "BLUE", "RED"];
+    const wrong = other.map((color, i) => getChromaticShift(observe(color, 40, 4, i * 10)));
+    expect(correlateReflection(colors, wrong)).toBeLessThan(0);
+  });
+
+  it("returns 0 for sequences that do not vary or do not match", () => {
+    const flat = { r: 0.1, g: 0, b: -0.1 };
+    expect(correlateReflection(["RED", "GREEN"], [flat, flat])).toBe(0);
+    expect(correlateReflection(["RED", "GREEN"], [flat])).toBe(0);
+  });
+
+  it("measures the face skin apart from the background", () => {
+    const width = 40;
+    const height = 30;
+    const faceBox: BoundingBox = { x: 10, y: 5, width: 20, height: 20 };
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const inFace = x >= faceBox.x && x < faceBox.x + faceBox.width && y >= faceBox.y && y < faceBox.y + faceBox.height;
+        const color = inFace ? SKIN : y >= faceBox.y + faceBox.height ? { r: 0, g: 0, b: 255 } : WALL;
+        data.set([color.r, color.g, color.b, 255], (y * width + x) * 4);
+      }
+    }
+
+    // The torso below the face (blue here) is not background
+    expect(measureReflection({ data, width, height }, faceBox)).toEqual({ face: SKIN, background: WALL });
+    expect(measureReflection({ data, width, height }, { x: 0, y: 0, width: 40, height: 30 })).toBeNull();
+  });
+
+  it("never shows the same color twice in a row", () => {
+    const random = createRandom(7);
+    const colors = generateFlashColors(50, random);
+
+    expect(colors).toHaveLength(50);
+    colors.slice(1).forEach((color, i) => expect(color).not.toBe(colors[i]));
+    expect(generateFlashColors(4, () => 0)).toEqual(["RED", "GREEN", "RED", "GREEN"]);
+  });
+});
+
+describe("COLOR_FLASH challenge", () => {
+  // Runs a session whose camera sees the screen color returned by `reflect`
+  function run(reflect: (color: FlashColor | null, frame: number) => FrameSignals) {
+    const engine = new LivenessEngine({ steps: ["COLOR_FLASH"], random: () => 0.4 });
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    const events: LivenessEvent[] = [];
+    let result: LivenessResult | undefined;
+    let state: LivenessState;
+    const apply = (transition: LivenessTransition) => {
+      state = transition.state;
+      events.push(...transition.events);
+      for (const event of transition.events) {
+        if (event.type === "SUCCESS") result = event.result;
+      }
+    };
+
+    let now = 1000;
+    apply(engine.start(now));
+    for (let frame = 0; frame < 200 && !result && !events.some(e => e.type === "ATTEMPT_FAILED"); frame++) {
+      now += CONFIG.FRAME_INTERVAL;
+      const { colors, colorIndex } = getChallengeState(state, colorFlashChallenge);
+      const shown = colorFlashChallenge.getScreenColor!(state) ? colors[colorIndex] : null;
+      apply(engine.process(state, frames.next().value, GUIDE_BOX, now, 1, reflect(shown, frame)));
+    }
+
+    return { state, events, result };
+  }
+
+  it("passes when the face reflects the flashed colors", () => {
+    const { state, result } = run((color, frame) =>
+      color ? { reflection: observe(color, 40, 4, frame * 10) } : {}
+    );
+
+    expect(result).toBeDefined();
+    expect(getChallengeState(state, colorFlashChallenge).colors).toHaveLength(CONFIG.COLOR_FLASH_COUNT);
+    expect(getChallengeState(state, colorFlashChallenge).result).toBe("PASSED");
+    expect(result.steps[1].peakMetric).toBeGreaterThan(CONFIG.COLOR_FLASH_MIN_CORRELATION);
+  });
+
+  it("fails the attempt when the reflections do not follow the flashes", () => {
+    const { state, events } = run((color, frame) =>
+      color ? { reflection: observe(color, 4, 4, frame * 10) } : {}
+    );
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "COLOR_FLASH" })
+    );
+    expect(state.error).toMatch(/^The screen light was not reflected on your face/);
+  });
+
+  it("fails without reflection samples", () => {
+    const { state, events } = run((color) => (color ? { reflection: null } : {}));
+
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "COLOR_FLASH" })
+    );
+    expect(state.error).toMatch(/^Keep your face in view while the screen flashes/);
+  });
+
+  it("takes the colors pinned by an issued challenge", () => {
+    const flashColors: FlashColor[] = ["BLUE", "RED", "BLUE"];
+    const state = { challengeState: {} } as LivenessState;
+    const update = colorFlashChallenge.reset!(state, { now: 5, random: () => 0, params: { flashColors } });
+
+    expect(update.challengeState?.COLOR_FLASH).toMatchObject({ colors: flashColors, colorShownAt: 5, shifts: [[], [], []] });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzePixelQuality,
+  combineFrameQuality,
+  maxFrameQuality,
+  scoreEyes,
+  scorePose,
+  PixelBuffer,
+} from "@/utils/frameQuality";
+import type { PoseMetrics } from "@/utils/pose";
+
+const pose = (yawMetric: number, pitchMetric: number, rollMetric: number): PoseMetrics => ({
+  yawMetric,
+  pitchMetric,
+  rollMetric,
+  faceWidth: 200,
+  faceHeight: 260,
+});
+
+// Grey image where `pixel(x, y)` returns the 0-255 luma
+function makeBuffer(size: number, pixel: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(size * size * 4);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const p = (y * size + x) * 4;
+      data[p] = data[p + 1] = data[p + 2] = pixel(x, y);
+      data[p + 3] = 255;
+    }
+  }
+  return { data, width: size, height: size };
+}
+
+describe("frame quality", () => {
+  it("prefers frontal poses, measuring pitch from the baseline", () => {
+    expect(scorePose(pose(0, 0.25, 0), 0.25)).toBe(1);
+    expect(scorePose(pose(0.05, 0.25, 0), 0.25)).toBeLessThan(1);
+    expect(scorePose(pose(0.2, 0.25, 0), 0.25)).toBe(0);
+    expect(scorePose(pose(0, 0.4, 0), 0.25)).toBe(0);
+    expect(scorePose(pose(0, 0.25, 0.15), 0.25)).toBeCloseTo(0.5);
+  });
+
+  it("scores open eyes against the calibrated EAR", () => {
+    expect(scoreEyes(0.3, 0.3)).toBe(1);
+    expect(scoreEyes(0.15, 0.3)).toBeCloseTo(0.5);
+    expect(scoreEyes(0.05)).toBeLessThan(0.25);
+  });
+
+  it("rates a sharp, well-exposed image above a blurred or dark one", () => {
+    const sharp = analyzePixelQuality(makeBuffer(32, (x, y) => ((x + y) % 2 ? 200 : 60)));
+    const flat = analyzePixelQuality(makeBuffer(32, () => 128));
+    const dark = analyzePixelQuality(makeBuffer(32, (x, y) => ((x + y) % 2 ? 20 : 0)));
+
+    expect(sharp.sharpness).toBe(1);
+    expect(sharp.lighting).toBeGreaterThan(0.9);
+    expect(flat.sharpness).toBe(0);
+    expect(flat.lighting).toBe(0);
+    expect(dark.lighting).toBeLessThan(0.2);
+  });
+
+  it("bounds the total by the landmark scores", () => {
+    const quality = combineFrameQuality({ pose: 0.5, eyes: 1, sharpness: 1, lighting: 1 });
+
+    expect(quality.score).toBeCloseTo(maxFrameQuality(0.5, 1));
+    expect(maxFrameQuality(1, 1)).toBeCloseTo(1);
+    expect(combineFrameQuality({ pose: 1, eyes: 1, sharpness: 0.2, lighting: 1 }).score)
+      .toBeLessThan(maxFrameQuality(1, 1));
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, it, expect } from "vitest";
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import {
+  TraceRecorder,
+  compareTraceOutcome,
+  compressTrace,
+  decompressTrace,
+  parseTrace,
+  replayTrace,
+  serializeTrace,
+  unpackKeypoints,
+} from "@/trace";
+
+// Every *.trace.json.gz in this folder must reproduce its `expected` outcome
+const TRACE_DIR = join(__dirname, "traces");
+const goldenFiles = readdirSync(TRACE_DIR).filter(name => name.endsWith(".trace.json.gz"));
+
+const loadTrace = (name: string) => decompressTrace(new Uint8Array(readFileSync(join(TRACE_DIR, name))));
+
+describe("golden traces", () => {
+  it("finds the golden traces", () => {
+    expect(goldenFiles.length).toBeGreaterThan(0);
+  });
+
+  it.each(goldenFiles)("%s replays to its expected outcome", async (name) => {
+    const trace = await loadTrace(name);
+    expect(trace.expected).toBeDefined();
+
+    const replay = replayTrace(trace);
+    expect(compareTraceOutcome(replay, trace.expected!)).toEqual([]);
+  });
+});
+
+describe("trace format", () => {
+  it("round-trips frames through JSON and gzip", async () => {
+    const trace = await loadTrace(goldenFiles[0]);
+    const reparsed = parseTrace(serializeTrace(trace));
+    const decompressed = await decompressTrace(await compressTrace(trace));
+
+    for (const copy of [reparsed, decompressed]) {
+      expect(copy.frames).toHaveLength(trace.frames.length);
+      expect(copy.frames.at(-1)).toEqual(trace.frames.at(-1));
+      expect(copy.random).toEqual(trace.random);
+    }
+  });
+
+  it("records what the engine saw and replays it identically", async () => {
+    const golden = await loadTrace(goldenFiles[0]);
+    const recorder = new TraceRecorder(() => 0.5);
+    recorder.start(golden.startedAt, golden.engine);
+    for (const frame of golden.frames) {
+      const face = frame.keypoints ? unpackKeypoints(frame.keypoints) : null;
+      recorder.record(face, frame.guideBox, golden.startedAt + frame.t, frame.faceCount);
+    }
+    const trace = { ...recorder.finish(), random: golden.random };
+
+    expect(replayTrace(trace).state).toEqual(replayTrace(golden).state);
+  });
+
+  it("rejects unknown versions and divergent replays", () => {
+    expect(() => parseTrace(JSON.stringify({ version: 99, frames: [], random: [] }))).toThrow(/version/);
+
+    const trace = new TraceRecorder().finish();
+    expect(() => replayTrace({ ...trace, engine: { steps: ["BLINK", "SMILE"] }, random: [] }))
+      .toThrow(/diverged/);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, it, expect } from "vitest";
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import { estimateCameraIntrinsics, estimateHeadPose3D } from "@/utils/headPose3d";
+import { LivenessEngine, LivenessTransition } from "@/engine";
+import { CONFIG, LivenessResult, LivenessState } from "@/types/liveness";
+import { createSyntheticFace, SyntheticFaceOptions, GUIDE_BOX } from "./syntheticFace";
+
+// 640x480 frame; the synthetic face sits on the optical axis
+const CAMERA = estimateCameraIntrinsics(640, 480);
+const FACE: SyntheticFaceOptions = { y: 240, focalLength: CAMERA.focalLength };
+
+const poseOf = (options: SyntheticFaceOptions) =>
+  estimateHeadPose3D(createSyntheticFace({ ...FACE, ...options }), CAMERA)!;
+
+// The solver fits MediaPipe's canonical face, not the synthetic one, so like a real face it is a few degrees off
+const TOLERANCE = 3.5;
+
+describe("3D head pose", () => {
+  it("recovers yaw, pitch and roll in degrees", () => {
+    const frontal = poseOf({});
+    expect(frontal.yaw).toBeCloseTo(0, 5);
+    expect(Math.abs(frontal.pitch)).toBeLessThan(TOLERANCE);
+    expect(frontal.roll).toBeCloseTo(0, 5);
+    expect(frontal.reprojectionError).toBeLessThan(3);
+
+    for (const yaw of [-35, -15, 20, 40]) {
+      expect(Math.abs(poseOf({ yaw }).yaw - yaw)).toBeLessThan(TOLERANCE);
+    }
+    for (const pitch of [-15, 15]) {
+      expect(Math.abs(poseOf({ pitch }).pitch - pitch)).toBeLessThan(TOLERANCE);
+    }
+    expect(Math.abs(poseOf({ roll: -20 }).roll + 20)).toBeLessThan(TOLERANCE);
+
+    const combined = poseOf({ yaw: 25, pitch: 10, roll: 5 });
+    expect(Math.abs(combined.yaw - 25)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(combined.pitch - 10)).toBeLessThan(TOLERANCE);
+    expect(Math.abs(combined.roll - 5)).toBeLessThan(TOLERANCE);
+  });
+
+  it("ignores expressions and distance", () => {
+    const expressive = poseOf({ yaw: 20, mouthOpen: 1, smile: 1, leftEyeOpen: 0 });
+    const far = poseOf({ yaw: 20, scale: 8 });
+
+    expect(expressive.yaw).toBeCloseTo(poseOf({ yaw: 20 }).yaw, 5);
+    expect(Math.abs(far.yaw - 20)).toBeLessThan(TOLERANCE);
+    expect(far.translation.z).toBeGreaterThan(poseOf({ yaw: 20 }).translation.z);
+  });
+
+  it("reports a larger reprojection error for noisy landmarks", () => {
+    expect(poseOf({ jitter: 2, seed: 3 }).reprojectionError).toBeGreaterThan(poseOf({}).reprojectionError);
+  });
+
+  it("returns null without a full mesh", () => {
+    expect(estimateHeadPose3D({ keypoints: [] } as Face, CAMERA)).toBeNull();
+  });
+
+  it("takes the pose source from CONFIG unless the engine option overrides it", () => {
+    expect(new LivenessEngine().start(0).state.poseSource).toBe(CONFIG.POSE_SOURCE);
+    expect(new LivenessEngine({ poseSource: "3d" }).start(0).state.poseSource).toBe("3d");
+  });
+
+  it("drives the TURN steps in degrees when selected as the pose source", () => {
+    const engine = new LivenessEngine({ steps: ["TURN_LEFT"], random: () => 0.999, poseSource: "3d" });
+    let now = 1000;
+    let frame = 0;
+    let state: LivenessState;
+    let result: LivenessResult | undefined;
+    const apply = (transition: LivenessTransition) => {
+      state = transition.state;
+      for (const event of transition.events) {
+        if (event.type === "SUCCESS") result = event.result;
+      }
+    };
+    const feed = (options: SyntheticFaceOptions, count: number) => {
+      for (let i = 0; i < count; i++) {
+        now += CONFIG.FRAME_INTERVAL;
+        frame++;
+        const face = createSyntheticFace({ ...FACE, ...options, x: 320 + Math.sin(frame * 1.3), jitter: 0.3, seed: frame });
+        apply(engine.process(state, face, GUIDE_BOX, now));
+      }
+    };
+    apply(engine.start(now));
+    expect(state.poseSource).toBe("3d");
+
+    while (state.currentStep !== "TURN_LEFT") feed({}, 1);
+
+    // Short of the threshold, then past it
+    feed({ yaw: -(CONFIG.YAW_THRESHOLD_DEGREES - 5) }, CONFIG.POSE_HELD_FRAMES + 5);
+    expect(state.completedSteps).not.toContain("TURN_LEFT");
+
+    feed({ yaw: -(CONFIG.YAW_THRESHOLD_DEGREES + 5) }, CONFIG.POSE_HELD_FRAMES + 5);
+    expect(result).toBeDefined();
+    expect(result.metricsSummary.yawDeltas[0]).toBeLessThan(-CONFIG.YAW_THRESHOLD_DEGREES);
+    expect(result.metricsSummary.yawDeltas[0]).toBeGreaterThan(-(CONFIG.YAW_THRESHOLD_DEGREES + 6));
+    expect(result.steps[1].peakMetric).toBeGreaterThan(CONFIG.YAW_THRESHOLD_DEGREES);
+  });
+});
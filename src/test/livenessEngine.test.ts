@@ -0,0 +1,688 @@
+import { describe, it, expect, afterEach } from "vitest";
+import {
+  LivenessChallenge,
+  blinkCountChallenge,
+  followDotChallenge,
+  getChallengeState,
+  nodChallenge,
+  openMouthChallenge,
+  raiseEyebrowsChallenge,
+  registerChallenge,
+  setChallengeState,
+  shakeChallenge,
+  smileChallenge,
+  speakDigitsChallenge,
+  unregisterChallenge,
+} from "@/challenges";
+import { LivenessEngine, LivenessEngineOptions, LivenessEvent, LivenessTransition } from "@/engine";
+import { CONFIG, LivenessState, SessionChallenge } from "@/types/liveness";
+import { calculateAverageEAR } from "@/utils/ear";
+import { calculateBrowHeight } from "@/utils/eyebrow";
+import { estimateCameraIntrinsics } from "@/utils/headPose3d";
+import { createSyntheticFace, GUIDE_BOX, SYNTHETIC_FACE_DEFAULTS, SyntheticFaceOptions } from "./syntheticFace";
+
+const CLOSED_EYES: SyntheticFaceOptions = { leftEyeOpen: 0.1, rightEyeOpen: 0.1 };
+
+// The camera the engine assumes for GUIDE_BOX, so the 3D pose fit and head turn parallax see real depth
+const { focalLength } = estimateCameraIntrinsics(640, 480);
+const NEUTRAL_FACE = createSyntheticFace({ focalLength });
+
+class Driver {
+  engine: LivenessEngine;
+  state: LivenessState;
+  now = 1000;
+  frame = 0;
+  events: LivenessEvent[] = [];
+
+  constructor(steps: string[], options: LivenessEngineOptions = {}, challenge?: SessionChallenge) {
+    // Deterministic order: the identity shuffle keeps `steps` as given
+    this.engine = new LivenessEngine({
+      steps,
+      random: () => 0.999,
+      ...options,
+    });
+    this.apply(this.engine.start(this.now, challenge));
+  }
+
+  apply(transition: LivenessTransition) {
+    this.state = transition.state;
+    this.events.push(...transition.events);
+  }
+
+  // A live user sways slightly between frames
+  feed(options: SyntheticFaceOptions | null, frames = 1, faceCount?: number) {
+    for (let i = 0; i < frames; i++) {
+      this.now += CONFIG.FRAME_INTERVAL;
+      this.frame++;
+      const face = options
+        ? createSyntheticFace({ x: SYNTHETIC_FACE_DEFAULTS.x + (this.frame % 2 ? 1.5 : 0), focalLength, ...options })
+        : null;
+      this.apply(this.engine.process(this.state, face, GUIDE_BOX, this.now, faceCount));
+    }
+  }
+
+  // Turn steadily from frontal to `angle` about `axis`, then hold until the step completes,
+  // so the turn has real depth parallax
+  turn(axis: "yaw" | "pitch", angle: number) {
+    const step = this.state.currentStep;
+    const done = () => this.state.completedSteps.includes(step) || this.state.failure !== null;
+    for (let i = 1; i <= 10 && !done(); i++) {
+      this.feed({ [axis]: (angle * i) / 10 });
+    }
+    for (let i = 0; i < CONFIG.POSE_HELD_FRAMES + 5 && !done(); i++) {
+      this.feed({ [axis]: angle });
+    }
+  }
+
+  // Feed frames until `ms` of session time has passed
+  feedFor(options: SyntheticFaceOptions | null, ms: number, faceCount?: number) {
+    const until = this.now + ms;
+    while (this.now < until && !this.state.failure) {
+      this.feed(options, 1, faceCount);
+    }
+  }
+
+  failure() {
+    const event = this.events.find(e => e.type === "FAILURE");
+    return event?.type === "FAILURE" ? event.failure : undefined;
+  }
+
+  // Keep feeding neutral frames until the pending step is entered
+  waitForNextStep() {
+    const step = this.state.currentStep;
+    while (this.state.currentStep === step && !this.state.isComplete) {
+      this.feed({});
+    }
+  }
+}
+
+describe("LivenessEngine", () => {
+  it("starts on ALIGN with the configured step order", () => {
+    const driver = new Driver(["BLINK", "TURN_LEFT"]);
+
+    expect(driver.state.currentStep).toBe("ALIGN");
+    expect(driver.state.stepOrder).toEqual(["ALIGN", "BLINK", "TURN_LEFT"]);
+    expect(driver.events).toEqual([{ type: "STEP_ENTERED", step: "ALIGN", at: 1000 }]);
+  });
+
+  it("ignores frames before the session starts", () => {
+    const engine = new LivenessEngine();
+    const { state } = engine.start(0);
+    const idle = { ...state, currentStep: "IDLE" };
+
+    expect(engine.process(idle, createSyntheticFace(), GUIDE_BOX, 100)).toEqual({ state: idle, events: [] });
+  });
+
+  it("reports a missing face", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feed({}, 3);
+    driver.feed(null);
+
+    expect(driver.state.error).toBe("No face detected. Move into the frame.");
+    expect(driver.state.alignedFrameCount).toBe(0);
+  });
+
+  it("completes ALIGN after the required frames and captures the baseline", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+
+    expect(driver.state.completedSteps).toEqual(["ALIGN"]);
+    expect(driver.state.baselineMetrics).not.toBeNull();
+    expect(driver.state.baselineMetrics.openEAR).toBeCloseTo(calculateAverageEAR(NEUTRAL_FACE).avg);
+    expect(driver.state.pendingStep).toBe("BLINK");
+    expect(driver.events.map(e => e.type)).toEqual(["STEP_ENTERED", "STEP_COMPLETED"]);
+  });
+
+  it("waits for the step cooldown before entering the next step", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    const completedAt = driver.now;
+
+    driver.feed({}, 3);
+    expect(driver.state.currentStep).toBe("ALIGN");
+    expect(driver.state.completedSteps).toEqual(["ALIGN"]);
+
+    driver.waitForNextStep();
+    expect(driver.state.currentStep).toBe("BLINK");
+    expect(driver.now - completedAt).toBeGreaterThanOrEqual(CONFIG.STEP_COOLDOWN_MS);
+  });
+
+  it("runs a full session and emits SUCCESS with the result", () => {
+    const driver = new Driver(["BLINK", "TURN_LEFT", "TURN_UP"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+
+    // BLINK: calibrate, close, reopen
+    driver.feed({}, CONFIG.BLINK_CALIBRATION_FRAMES);
+    driver.feed(CLOSED_EYES, 4);
+    driver.feed({}, 6);
+    expect(driver.state.completedSteps).toContain("BLINK");
+    driver.waitForNextStep();
+
+    // TURN_LEFT
+    driver.turn("yaw", -25);
+    expect(driver.state.completedSteps).toContain("TURN_LEFT");
+    driver.waitForNextStep();
+
+    // TURN_UP
+    driver.turn("pitch", -25);
+
+    expect(driver.state.isComplete).toBe(true);
+    expect(driver.state.currentStep).toBe("SUCCESS");
+
+    const success = driver.events.find(e => e.type === "SUCCESS");
+    expect(success).toBeDefined();
+    if (success?.type !== "SUCCESS") return;
+    expect(success.result.stepsCompleted).toEqual(["ALIGN", "BLINK", "TURN_LEFT", "TURN_UP"]);
+    expect(success.result.metricsSummary.yawDeltas).toHaveLength(1);
+    expect(success.result.metricsSummary.yawDeltas[0]).toBeLessThanOrEqual(-CONFIG.YAW_THRESHOLD);
+    expect(success.result.metricsSummary.pitchDeltas[0]).toBeLessThanOrEqual(-CONFIG.PITCH_THRESHOLD);
+    expect(success.result.antiSpoof.detectors.find(d => d.id === "parallax")).toMatchObject({ score: 0, confidence: 1 });
+  });
+
+  it("records attempts, peak metric and errors per step", () => {
+    const driver = new Driver(["TURN_LEFT"], { stepTimeoutMs: 3000 });
+    driver.feed(null, 3);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    const turnEnteredAt = driver.now;
+
+    // First attempt times out, the retry succeeds
+    driver.feedFor({}, 3100);
+    driver.turn("yaw", -25);
+
+    const success = driver.events.find(e => e.type === "SUCCESS");
+    if (success?.type !== "SUCCESS") throw new Error("expected SUCCESS");
+    const [align, turn] = success.result.steps;
+
+    expect(align).toMatchObject({ step: "ALIGN", enteredAt: 1000, attempts: 1, peakMetric: null });
+    expect(align.errors).toEqual(["No face detected. Move into the frame."]);
+    expect(turn).toMatchObject({ step: "TURN_LEFT", enteredAt: turnEnteredAt, attempts: 2 });
+    expect(turn.errors).toEqual(["Step timed out. Let's try again."]);
+    expect(turn.peakMetric).toBeGreaterThanOrEqual(CONFIG.YAW_THRESHOLD);
+    expect(turn.completedAt).toBe(success.result.stepTimings[1].completedAt);
+  });
+
+  it("does not complete a step twice during the cooldown", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES + 4);
+
+    expect(driver.state.completedSteps).toEqual(["ALIGN"]);
+    expect(driver.events.filter(e => e.type === "STEP_COMPLETED")).toHaveLength(1);
+  });
+
+  it("is deterministic for identical inputs", () => {
+    const run = () => {
+      const driver = new Driver(["BLINK"]);
+      driver.feed({}, 20);
+      return driver.state;
+    };
+
+    expect(run()).toEqual(run());
+  });
+});
+
+describe("SMILE challenge", () => {
+  it("requires neutral, smile and neutral again", () => {
+    const driver = new Driver(["SMILE"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+
+    driver.feed({}, CONFIG.SMILE_NEUTRAL_FRAMES);
+    expect(getChallengeState(driver.state, smileChallenge).phase).toBe("AWAIT_SMILE");
+
+    driver.feed({ smile: 1 }, CONFIG.SMILE_HELD_FRAMES + 4);
+    expect(getChallengeState(driver.state, smileChallenge).phase).toBe("AWAIT_RELEASE");
+
+    driver.feed({}, CONFIG.SMILE_NEUTRAL_FRAMES + 6);
+    expect(driver.state.isComplete).toBe(true);
+    expect(getChallengeState(driver.state, smileChallenge).peakScore).toBeGreaterThan(CONFIG.SMILE_THRESHOLD);
+  });
+
+  it("never completes for a face that keeps smiling", () => {
+    const driver = new Driver(["SMILE"]);
+    driver.feed({ smile: 1 }, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feed({ smile: 1 }, 40);
+
+    expect(getChallengeState(driver.state, smileChallenge).phase).toBe("AWAIT_SMILE");
+    expect(driver.state.isComplete).toBe(false);
+  });
+});
+
+describe("wink challenges", () => {
+  const enterWink = (step: string) => {
+    const driver = new Driver([step]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feed({}, CONFIG.BLINK_CALIBRATION_FRAMES);
+    return driver;
+  };
+
+  it("calibrates each eye separately", () => {
+    const driver = enterWink("WINK_LEFT");
+
+    expect(driver.state.blinkState.isCalibrating).toBe(false);
+    expect(driver.state.blinkState.leftOpenBaseline).toBeCloseTo(calculateAverageEAR(NEUTRAL_FACE).left);
+    expect(driver.state.blinkState.rightOpenBaseline).toBeCloseTo(calculateAverageEAR(NEUTRAL_FACE).right);
+  });
+
+  it("maps WINK_LEFT to the user's left eye on the mirrored image", () => {
+    const driver = enterWink("WINK_LEFT");
+    driver.feed({ leftEyeOpen: 0.1 }, 4);
+    driver.feed({}, 6);
+
+    expect(driver.state.isComplete).toBe(true);
+  });
+
+  it("rejects the wrong eye and a full blink", () => {
+    const driver = enterWink("WINK_RIGHT");
+
+    driver.feed({ leftEyeOpen: 0.1 }, 4);
+    expect(driver.state.blinkState.winkError).toBe("WRONG_EYE");
+    driver.feed({}, 6);
+
+    driver.feed(CLOSED_EYES, 4);
+    expect(driver.state.blinkState.winkError).toBe("BOTH_EYES");
+    driver.feed({}, 6);
+    expect(driver.state.isComplete).toBe(false);
+
+    driver.feed({ rightEyeOpen: 0.1 }, 4);
+    driver.feed({}, 6);
+    expect(driver.state.isComplete).toBe(true);
+  });
+});
+
+describe("BLINK_N challenge", () => {
+  // random 0.999 also picks the largest count
+  const enterBlinkN = () => {
+    const driver = new Driver(["BLINK_N"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feed({}, CONFIG.BLINK_CALIBRATION_FRAMES);
+    return driver;
+  };
+
+  const blink = (driver: Driver, times: number) => {
+    for (let i = 0; i < times; i++) {
+      driver.feed(CLOSED_EYES, 3);
+      driver.feedFor({}, CONFIG.BLINK_COOLDOWN_MS + 100);
+    }
+  };
+
+  it("asks for a randomized blink count", () => {
+    const driver = enterBlinkN();
+    expect(getChallengeState(driver.state, blinkCountChallenge).target).toBe(CONFIG.BLINK_N_MAX);
+  });
+
+  it("completes after exactly the requested blinks", () => {
+    const driver = enterBlinkN();
+    blink(driver, CONFIG.BLINK_N_MAX);
+    expect(driver.state.isComplete).toBe(false);
+
+    driver.feedFor({}, CONFIG.BLINK_N_SETTLE_MS);
+    expect(driver.state.isComplete).toBe(true);
+  });
+
+  it("fails the attempt on too few blinks", () => {
+    const driver = enterBlinkN();
+    blink(driver, 2);
+    driver.feedFor({}, CONFIG.BLINK_N_SETTLE_MS);
+
+    expect(driver.events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "BLINK_N" })
+    );
+    expect(getChallengeState(driver.state, blinkCountChallenge).blinkTimes).toEqual([]);
+  });
+
+  it("fails the attempt on too many blinks", () => {
+    const driver = enterBlinkN();
+    blink(driver, CONFIG.BLINK_N_MAX + 1);
+
+    expect(driver.state.failedAttempts).toBe(1);
+    expect(driver.state.isComplete).toBe(false);
+  });
+});
+
+describe("NOD and SHAKE challenges", () => {
+  const enter = (step: string) => {
+    const driver = new Driver([step]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    return driver;
+  };
+
+  it("completes SHAKE after two reversals", () => {
+    const driver = enter("SHAKE");
+    driver.feed({ yaw: -20 }, 4);
+    driver.feed({ yaw: 20 }, 4);
+    expect(getChallengeState(driver.state, shakeChallenge).reversals).toBe(1);
+
+    driver.feed({ yaw: -20 }, 4);
+    expect(driver.state.isComplete).toBe(true);
+  });
+
+  it("completes NOD from pitch oscillation only", () => {
+    const driver = enter("NOD");
+    driver.feed({ yaw: -20 }, 4);
+    driver.feed({ yaw: 20 }, 4);
+    driver.feed({ yaw: -20 }, 4);
+    expect(getChallengeState(driver.state, nodChallenge).reversals).toBe(0);
+
+    // The ratio pitch moves less per degree than yaw, so each leg is wider and held longer
+    driver.feed({ pitch: 25 }, 5);
+    driver.feed({ pitch: -25 }, 5);
+    driver.feed({ pitch: 25 }, 5);
+    expect(driver.state.isComplete).toBe(true);
+  });
+
+  it("does not complete for a held turn or a motion slower than the window", () => {
+    const driver = enter("SHAKE");
+    driver.feed({ yaw: -20 }, 20);
+    expect(getChallengeState(driver.state, shakeChallenge).reversals).toBe(0);
+
+    const framesPerLeg = Math.ceil(CONFIG.MOTION_WINDOW_MS / CONFIG.FRAME_INTERVAL);
+    driver.feed({ yaw: 20 }, framesPerLeg);
+    driver.feed({ yaw: -20 }, framesPerLeg);
+    expect(driver.state.isComplete).toBe(false);
+  });
+});
+
+describe("FOLLOW_DOT challenge", () => {
+  const enter = () => {
+    const driver = new Driver(["FOLLOW_DOT"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feedFor({}, CONFIG.GAZE_CENTER_MS);
+    return driver;
+  };
+
+  it("completes when the gaze follows every dot position", () => {
+    const driver = enter();
+    expect(getChallengeState(driver.state, followDotChallenge).phase).toBe("TRACKING");
+    expect(getChallengeState(driver.state, followDotChallenge).targets).toHaveLength(CONFIG.GAZE_TARGET_COUNT);
+
+    while (getChallengeState(driver.state, followDotChallenge).phase === "TRACKING" && !driver.state.failure) {
+      const target = getChallengeState(driver.state, followDotChallenge).targets[getChallengeState(driver.state, followDotChallenge).targetIndex];
+      driver.feed({}, 2);
+      driver.feed({ gazeX: target.x, gazeY: target.y }, CONFIG.GAZE_HELD_FRAMES);
+    }
+
+    expect(driver.state.isComplete).toBe(true);
+    expect(getChallengeState(driver.state, followDotChallenge).latencies).toHaveLength(CONFIG.GAZE_TARGET_COUNT);
+    getChallengeState(driver.state, followDotChallenge).latencies.forEach(latency => {
+      expect(latency).toBeGreaterThanOrEqual(CONFIG.GAZE_MIN_LATENCY_MS);
+    });
+  });
+
+  it("fails the attempt when the gaze moves the wrong way", () => {
+    const driver = enter();
+    const target = getChallengeState(driver.state, followDotChallenge).targets[0];
+    driver.feedFor({ gazeX: -target.x, gazeY: -target.y }, CONFIG.GAZE_MAX_LATENCY_MS + 200);
+
+    expect(driver.events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "FOLLOW_DOT" })
+    );
+    expect(getChallengeState(driver.state, followDotChallenge).phase).toBe("CENTER");
+  });
+});
+
+describe("RAISE_EYEBROWS challenge", () => {
+  it("captures the brow height at ALIGN and requires a held raise", () => {
+    const driver = new Driver(["RAISE_EYEBROWS"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    expect(driver.state.baselineMetrics.browHeight).toBeCloseTo(calculateBrowHeight(NEUTRAL_FACE));
+    driver.waitForNextStep();
+
+    // A brief flick (still smoothed over a few frames) is not a hold
+    driver.feed({ browRaise: 1 }, 2);
+    driver.feed({}, 6);
+    expect(driver.state.isComplete).toBe(false);
+
+    driver.feed({ browRaise: 1 }, CONFIG.BROW_RAISE_HELD_FRAMES + 2);
+    expect(driver.state.isComplete).toBe(true);
+    expect(getChallengeState(driver.state, raiseEyebrowsChallenge).peakRaise).toBeGreaterThan(CONFIG.BROW_RAISE_THRESHOLD);
+  });
+});
+
+describe("mouth challenges", () => {
+  it("completes OPEN_MOUTH once the mouth is held open", () => {
+    const driver = new Driver(["OPEN_MOUTH"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+
+    driver.feed({ mouthOpen: 1 }, CONFIG.MOUTH_OPEN_HELD_FRAMES - 1);
+    driver.feed({});
+    expect(getChallengeState(driver.state, openMouthChallenge).heldFrames).toBe(0);
+
+    driver.feed({ mouthOpen: 1 }, CONFIG.MOUTH_OPEN_HELD_FRAMES);
+    expect(driver.state.isComplete).toBe(true);
+    expect(getChallengeState(driver.state, openMouthChallenge).peakMAR).toBeGreaterThan(driver.state.baselineMetrics.closedMAR);
+  });
+
+  // Alternate open/closed frames to simulate syllables, then fall silent
+  const speak = (driver: Driver, syllables: number) => {
+    for (let i = 0; i < syllables; i++) {
+      driver.feed({ mouthOpen: 0.5 }, 2);
+      driver.feed({}, 2);
+    }
+    driver.feedFor({}, CONFIG.SPEECH_END_SILENCE_MS + 100);
+  };
+
+  it("completes SPEAK_DIGITS when mouth cycles match the digits", () => {
+    const driver = new Driver(["SPEAK_DIGITS"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+
+    expect(getChallengeState(driver.state, speakDigitsChallenge).digits).toMatch(/^\d{3,4}$/);
+    speak(driver, getChallengeState(driver.state, speakDigitsChallenge).digits.length);
+
+    expect(driver.state.isComplete).toBe(true);
+  });
+
+  it("rejects SPEAK_DIGITS with too few or too many mouth cycles", () => {
+    const driver = new Driver(["SPEAK_DIGITS"]);
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+
+    speak(driver, 1);
+    expect(driver.events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "SPEAK_DIGITS", attempt: 1 })
+    );
+    expect(driver.state.stepRecord.errors).toContain("Not all of the digits were read aloud. Let's try again.");
+    expect(getChallengeState(driver.state, speakDigitsChallenge).phase).toBe("WAITING");
+
+    speak(driver, 10);
+    expect(driver.events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "CHALLENGE_FAILED", step: "SPEAK_DIGITS", attempt: 2 })
+    );
+    expect(driver.state.stepRecord.errors).toContain("Read only the digits, nothing more. Let's try again.");
+    expect(driver.state.isComplete).toBe(false);
+  });
+});
+
+describe("custom challenges", () => {
+  // Counts frames with the mouth open, in its own slot of challengeState
+  const gesture: LivenessChallenge<{ openFrames: number }> = {
+    id: "MY_GESTURE",
+    label: "Gesture",
+    instruction: "Open your mouth three times",
+    icon: () => null,
+    createState: () => ({ openFrames: 0 }),
+    evaluate: ({ state, metrics }) => {
+      const { openFrames } = getChallengeState(state, gesture);
+      const isOpen = metrics.mar - state.baselineMetrics!.closedMAR >= CONFIG.MAR_OPEN_DELTA;
+      return setChallengeState(state, gesture, { openFrames: openFrames + (isOpen ? 1 : 0) });
+    },
+    isComplete: (state) => getChallengeState(state, gesture).openFrames >= 3,
+    reset: (state) => setChallengeState(state, gesture, { openFrames: 0 }),
+  };
+
+  afterEach(() => unregisterChallenge(gesture.id));
+
+  it("keeps plugin state in its own slot next to the built-in challenges", () => {
+    registerChallenge(gesture);
+    const driver = new Driver(["OPEN_MOUTH", "MY_GESTURE"]);
+    expect(getChallengeState(driver.state, gesture)).toEqual({ openFrames: 0 });
+
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feed({ mouthOpen: 1 }, CONFIG.MOUTH_OPEN_HELD_FRAMES);
+    driver.waitForNextStep();
+    expect(driver.state.currentStep).toBe("MY_GESTURE");
+
+    driver.feed({ mouthOpen: 1 }, 2);
+    expect(getChallengeState(driver.state, gesture)).toEqual({ openFrames: 2 });
+    driver.feed({ mouthOpen: 1 });
+    expect(driver.state.isComplete).toBe(true);
+
+    // Each challenge wrote only its own slot
+    expect(Object.keys(driver.state.challengeState).sort()).toEqual(["MY_GESTURE", "OPEN_MOUTH"]);
+    expect(getChallengeState(driver.state, openMouthChallenge).heldFrames).toBe(CONFIG.MOUTH_OPEN_HELD_FRAMES);
+  });
+});
+
+describe("issued challenges", () => {
+  const issued = (overrides: Partial<SessionChallenge> = {}): SessionChallenge => ({
+    nonce: "nonce-123",
+    steps: ["SMILE", "BLINK_N"],
+    issuedAt: 0,
+    expiresAt: 60_000,
+    params: { blinkCount: 3 },
+    ...overrides,
+  });
+
+  it("runs the issued step order without shuffling", () => {
+    const driver = new Driver(["BLINK"], { random: () => 0 }, issued());
+
+    expect(driver.state.stepOrder).toEqual(["ALIGN", "SMILE", "BLINK_N"]);
+    expect(driver.state.sessionChallenge.nonce).toBe("nonce-123");
+  });
+
+  it("refuses to start an expired challenge", () => {
+    const driver = new Driver(["BLINK"], {}, issued({ expiresAt: 500 }));
+
+    expect(driver.state.currentStep).toBe("FAILED");
+    expect(driver.failure()).toMatchObject({ reason: "CHALLENGE_EXPIRED", step: "IDLE" });
+    expect(driver.events.map(e => e.type)).toEqual(["FAILURE"]);
+  });
+
+  it("refuses to start a challenge without steps", () => {
+    for (const steps of [[], ["ALIGN"]]) {
+      const driver = new Driver(["BLINK"], {}, issued({ steps }));
+
+      expect(driver.state.currentStep).toBe("FAILED");
+      expect(driver.failure()).toMatchObject({
+        reason: "INVALID_CHALLENGE",
+        message: "The verification challenge is invalid: it has no steps",
+      });
+      expect(driver.events.map(e => e.type)).toEqual(["FAILURE"]);
+    }
+  });
+
+  it("refuses to start a challenge with an unregistered step", () => {
+    const driver = new Driver(["BLINK"], {}, issued({ steps: ["BLINK", "JUMP", "SPIN"] }));
+
+    expect(driver.state.currentStep).toBe("FAILED");
+    expect(driver.failure()).toMatchObject({
+      reason: "INVALID_CHALLENGE",
+      message: "The verification challenge is invalid: unknown steps JUMP, SPIN",
+    });
+    expect(driver.state.sessionChallenge.nonce).toBe("nonce-123");
+  });
+
+  it("applies issued parameters and echoes the nonce in the result", () => {
+    const driver = new Driver(["BLINK"], {}, issued({ steps: ["BLINK_N"] }));
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    expect(getChallengeState(driver.state, blinkCountChallenge).target).toBe(3);
+
+    driver.feed({}, CONFIG.BLINK_CALIBRATION_FRAMES);
+    for (let i = 0; i < 3; i++) {
+      driver.feed(CLOSED_EYES, 3);
+      driver.feedFor({}, CONFIG.BLINK_COOLDOWN_MS + 100);
+    }
+    driver.feedFor({}, CONFIG.BLINK_N_SETTLE_MS);
+
+    const success = driver.events.find(e => e.type === "SUCCESS");
+    expect(success?.type === "SUCCESS" && success.result.challengeNonce).toBe("nonce-123");
+  });
+});
+
+describe("LivenessEngine failures", () => {
+  it("retries a step that times out", () => {
+    const driver = new Driver(["BLINK"], { stepTimeoutMs: 2000, maxAttempts: 3 });
+    driver.feedFor(null, 2100);
+
+    expect(driver.state.failure).toBeNull();
+    expect(driver.state.currentStep).toBe("ALIGN");
+    expect(driver.state.failedAttempts).toBe(1);
+    expect(driver.events).toContainEqual(
+      expect.objectContaining({ type: "ATTEMPT_FAILED", reason: "TIMEOUT", attempt: 1 })
+    );
+  });
+
+  it("fails the session once the attempt budget is spent", () => {
+    const driver = new Driver(["BLINK"], { stepTimeoutMs: 1000, maxAttempts: 2 });
+    driver.feedFor(null, 5000);
+
+    expect(driver.state.currentStep).toBe("FAILED");
+    expect(driver.failure()).toMatchObject({ reason: "TIMEOUT", step: "ALIGN", attempts: 2 });
+  });
+
+  it("honours per-step timeout overrides", () => {
+    const driver = new Driver(["BLINK"], { stepTimeouts: { ALIGN: 500 }, maxAttempts: 1 });
+    driver.feedFor(null, 600);
+
+    expect(driver.failure()).toMatchObject({ reason: "TIMEOUT", step: "ALIGN" });
+  });
+
+  it("fails when the session timeout elapses", () => {
+    const driver = new Driver(["BLINK"], { sessionTimeoutMs: 3000 });
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.feedFor({}, 3000);
+
+    expect(driver.failure()).toMatchObject({
+      reason: "TIMEOUT",
+      message: "Session timed out",
+      stepsCompleted: ["ALIGN"],
+    });
+  });
+
+  it("fails an attempt when the face is lost after alignment", () => {
+    const driver = new Driver(["BLINK"], { maxAttempts: 1 });
+    driver.feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    driver.waitForNextStep();
+    driver.feedFor(null, CONFIG.FACE_LOST_TIMEOUT_MS + 100);
+
+    expect(driver.failure()).toMatchObject({ reason: "FACE_LOST", step: "BLINK" });
+  });
+
+  it("does not treat a face that never appeared as lost", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feedFor(null, CONFIG.FACE_LOST_TIMEOUT_MS + 100);
+
+    expect(driver.state.failedAttempts).toBe(0);
+    expect(driver.state.issue).toBeNull();
+  });
+
+  it("fails an attempt when several faces stay in frame", () => {
+    const driver = new Driver(["BLINK"], { maxAttempts: 1 });
+    driver.feed({}, 3);
+    driver.feedFor({}, CONFIG.MULTIPLE_FACES_TIMEOUT_MS + 100, 2);
+
+    expect(driver.failure()).toMatchObject({ reason: "MULTIPLE_FACES" });
+  });
+
+  it("aborts an active session", () => {
+    const driver = new Driver(["BLINK"]);
+    driver.feed({}, 3);
+    driver.apply(driver.engine.abort(driver.state, driver.now));
+
+    expect(driver.failure()).toMatchObject({ reason: "ABORTED", step: "ALIGN" });
+
+    // Aborting again is a no-op
+    const { events } = driver.engine.abort(driver.state, driver.now);
+    expect(events).toEqual([]);
+  });
+});
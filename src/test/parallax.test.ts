@@ -0,0 +1,178 @@
+import { describe, it, expect } from "vitest";
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import { analyzeParallax, measureParallax, ParallaxAxis, ParallaxMetrics, ParallaxSample, PARALLAX_CONFIG } from "@/utils/parallax";
+import { estimateCameraIntrinsics, estimateHeadPose3D } from "@/utils/headPose3d";
+import { createAntiSpoofState, getDetectorState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { parallaxDetector } from "@/detectors";
+import { LivenessEngine, LivenessTransition } from "@/engine";
+import { CONFIG, FrameSignals, LivenessResult, LivenessState } from "@/types/liveness";
+import { assessCameraTrust } from "@/utils/cameraTrust";
+import { createSyntheticFace, SyntheticFaceOptions, GUIDE_BOX } from "./syntheticFace";
+
+const CAMERA = estimateCameraIntrinsics(640, 480);
+const FACE: SyntheticFaceOptions = { y: 240, focalLength: CAMERA.focalLength, jitter: 0.3 };
+
+// A turned face whose landmark depth stays frontal, as a tilted photo of a frontal face reads
+function withFrontalDepth(options: SyntheticFaceOptions): Face {
+  const face = createSyntheticFace({ ...FACE, ...options });
+  const frontal = createSyntheticFace({ ...FACE, seed: options.seed });
+  face.keypoints.forEach((keypoint, i) => (keypoint.z = frontal.keypoints[i].z));
+  return face;
+}
+
+// Samples over a turn from frontal to 25 degrees about `axis`
+function turn(axis: ParallaxAxis, sign: number, makeFace: (options: SyntheticFaceOptions) => Face): ParallaxSample[] {
+  const samples: ParallaxSample[] = [];
+  for (let angle = 0; angle <= 25; angle += 2.5) {
+    const face = makeFace({ [axis]: sign * angle, seed: angle * 10 });
+    const pose = estimateHeadPose3D(face, CAMERA)!;
+    const parallax = measureParallax(face, axis)!;
+    samples.push({ step: "TURN_LEFT", angle: axis === "yaw" ? pose.yaw : pose.pitch, ...parallax });
+  }
+  return samples;
+}
+
+const realHead = (options: SyntheticFaceOptions) => createSyntheticFace({ ...FACE, ...options });
+
+// A photo tilted twice as far as the head it shows, so the 2D pose reads as a turn
+const tiltedPhoto = (options: SyntheticFaceOptions) => createSyntheticFace({
+  ...FACE,
+  ...options,
+  depth: 0,
+  yaw: (options.yaw ?? 0) * 2,
+  pitch: (options.pitch ?? 0) * 2,
+});
+
+describe("head turn parallax", () => {
+  it("matches a rigid head turning either way about either axis", () => {
+    for (const axis of ["yaw", "pitch"] as ParallaxAxis[]) {
+      for (const sign of [1, -1]) {
+        const parallax = analyzeParallax(turn(axis, sign, realHead), axis)!;
+
+        expect(parallax.consistency).toBeGreaterThan(PARALLAX_CONFIG.RIGID_CONSISTENCY);
+        expect(parallax.angleRange).toBeGreaterThan(20);
+      }
+    }
+  });
+
+  it("flags turns whose landmark depth does not follow the pose", () => {
+    for (const axis of ["yaw", "pitch"] as ParallaxAxis[]) {
+      const parallax = analyzeParallax(turn(axis, 1, withFrontalDepth), axis)!;
+
+      expect(parallax.imageRatio).toBeGreaterThan(0.8);
+      expect(Math.abs(parallax.depthRatio)).toBeLessThan(0.1);
+      expect(parallax.consistency).toBeLessThan(PARALLAX_CONFIG.PLANAR_CONSISTENCY);
+    }
+  });
+
+  it("flags a tilted photo", () => {
+    const parallax = analyzeParallax(turn("yaw", 1, tiltedPhoto), "yaw")!;
+
+    // The plane's depth changes far more than the angle its image implies
+    expect(parallax.depthRatio).toBeGreaterThan(2);
+    expect(parallax.consistency).toBeLessThan(PARALLAX_CONFIG.PLANAR_CONSISTENCY);
+  });
+
+  it("waits for enough samples and angle", () => {
+    const samples = turn("yaw", 1, withFrontalDepth);
+    expect(analyzeParallax(samples.slice(0, PARALLAX_CONFIG.MIN_SAMPLES - 1), "yaw")).toBeNull();
+
+    const still = Array.from({ length: 10 }, () => samples[0]);
+    const state = createAntiSpoofState();
+    const evaluate = (parallax: ParallaxMetrics) => parallaxDetector.evaluate({ samples: [], parallax }, state);
+    expect(evaluate(analyzeParallax(still, "yaw")).confidence).toBe(0);
+
+    expect(evaluate(analyzeParallax(samples, "yaw"))).toEqual({
+      score: 1,
+      confidence: 1,
+      reasons: ["Head turn looks flat (no 3D parallax)"],
+    });
+  });
+
+  it("samples only during turn steps and restarts with each one", () => {
+    const face = realHead({ yaw: 10 });
+    const headPose = estimateHeadPose3D(face, CAMERA);
+    let state = createAntiSpoofState();
+    const update = (step: string) => {
+      state = updateAntiSpoofState(state, face, 1000, {}, {}, { step, headPose });
+    };
+    const samples = () => getDetectorState(state, parallaxDetector).samples;
+
+    update("BLINK");
+    expect(samples()).toHaveLength(0);
+
+    update("TURN_LEFT");
+    update("TURN_LEFT");
+    expect(samples()).toHaveLength(2);
+
+    update("TURN_UP");
+    expect(samples()).toHaveLength(1);
+    expect(samples()[0].angle).toBeCloseTo(headPose!.pitch);
+
+    state = updateAntiSpoofState(state, face, 1000, {}, {}, { step: "TURN_UP", headPose: null });
+    expect(samples()).toHaveLength(1);
+  });
+});
+
+describe("parallax anti-spoof indicator", () => {
+  const run = (makeFace: (options: SyntheticFaceOptions) => Face, signals: FrameSignals = {}) => {
+    const engine = new LivenessEngine({ steps: ["TURN_LEFT"], random: () => 0.999 });
+    let now = 1000;
+    let frame = 0;
+    let state: LivenessState;
+    let result: LivenessResult | undefined;
+    const apply = (transition: LivenessTransition) => {
+      state = transition.state;
+      for (const event of transition.events) {
+        if (event.type === "SUCCESS") result = event.result;
+      }
+    };
+    const feed = (yaw: number) => {
+      now += CONFIG.FRAME_INTERVAL;
+      frame++;
+      const face = makeFace({ yaw, x: 320 + Math.sin(frame * 1.3), seed: frame });
+      apply(engine.process(state, face, GUIDE_BOX, now, 1, signals));
+    };
+
+    apply(engine.start(now));
+    while (state.currentStep !== "TURN_LEFT") feed(0);
+
+    // Turn steadily, then hold
+    for (let yaw = 0; yaw > -25 && !state.isComplete; yaw -= 2.5) feed(yaw);
+    for (let i = 0; i < CONFIG.POSE_HELD_FRAMES + 5 && !state.isComplete; i++) feed(-25);
+
+    return { state, result };
+  };
+
+  it("passes a real head turn", () => {
+    const { result } = run(realHead);
+
+    expect(result).toBeDefined();
+    const parallax = result.antiSpoof.detectors.find(d => d.id === "parallax");
+    expect(parallax).toMatchObject({ score: 0, confidence: 1 });
+  });
+
+  it("does not reject a turn that moves as a plane on its own", () => {
+    const { result } = run(withFrontalDepth);
+
+    expect(result).toBeDefined();
+    const parallax = result.antiSpoof.detectors.find(d => d.id === "parallax");
+    expect(parallax).toMatchObject({ score: 1, confidence: 1, reasons: ["Head turn looks flat (no 3D parallax)"] });
+    expect(result.antiSpoof.isSpoof).toBe(false);
+  });
+
+  it("stops a turn that moves as a plane from a suspicious camera", () => {
+    const cameraTrust = assessCameraTrust({
+      label: "USB Video Device",
+      frameRate: 30,
+      capabilities: { frameRate: { min: 30, max: 30 } },
+      exposureControlsSupported: true,
+    });
+    const { state, result } = run(withFrontalDepth, { cameraTrust });
+
+    expect(result).toBeUndefined();
+    expect(state.completedSteps).not.toContain("TURN_LEFT");
+    expect(state.antiSpoof.isSpoof).toBe(true);
+    expect(state.error).toBe("Head turn looks flat (no 3D parallax)");
+  });
+});
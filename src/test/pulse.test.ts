@@ -0,0 +1,113 @@
+import { describe, it, expect } from "vitest";
+import { analyzePulse, getMeanGreen, getPulseSampleRegions, PulseSample, PULSE_CONFIG } from "@/utils/pulse";
+import { createAntiSpoofState, getDetectorState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { pulseDetector } from "@/detectors";
+import { getLivenessDebugInfo, LivenessEngine } from "@/engine";
+import { CONFIG } from "@/types/liveness";
+import { createSyntheticFace, syntheticFaceSequence, GUIDE_BOX, createRandom } from "./syntheticFace";
+
+// Skin green at time `t`: a pulse of `amplitude` levels at `bpm`, sensor noise and slow lighting drift
+function skinGreen(t: number, bpm: number, amplitude: number, noise: number, random: () => number): number {
+  return 120 + amplitude * Math.sin((2 * Math.PI * bpm * t) / 60000) + (random() - 0.5) * noise + t * 0.001;
+}
+
+// Samples at the camera frame rate with timing jitter
+function record(durationMs: number, bpm: number, amplitude: number, noise: number, seed = 1): PulseSample[] {
+  const random = createRandom(seed);
+  const samples: PulseSample[] = [];
+  for (let t = 0; t <= durationMs; t += CONFIG.FRAME_INTERVAL) {
+    const jittered = t + random() * 20;
+    samples.push({ t: jittered, green: skinGreen(jittered, bpm, amplitude, noise, random) });
+  }
+  return samples;
+}
+
+describe("pulse analysis", () => {
+  it("recovers the heart rate of a faint pulse under sensor noise", () => {
+    for (const bpm of [55, 72, 110]) {
+      const pulse = analyzePulse(record(PULSE_CONFIG.WINDOW_MS, bpm, 0.5, 1))!;
+      expect(Math.abs(pulse.heartRate - bpm)).toBeLessThanOrEqual(2);
+      expect(pulse.snr).toBeGreaterThan(PULSE_CONFIG.SNR_HIGH);
+      expect(pulse.score).toBe(1);
+    }
+  });
+
+  it("scores noise and a flat signal as no pulse", () => {
+    for (const seed of [1, 2, 3]) {
+      expect(analyzePulse(record(PULSE_CONFIG.WINDOW_MS, 72, 0, 1, seed))!.score).toBeLessThan(0.5);
+    }
+
+    const flat = analyzePulse(Array.from({ length: 100 }, (_, i) => ({ t: i * 83, green: 120 })))!;
+    expect(flat.snr).toBe(-PULSE_CONFIG.SNR_LIMIT);
+    expect(flat.score).toBe(0);
+  });
+
+  it("waits for the minimum signal duration", () => {
+    expect(analyzePulse(record(PULSE_CONFIG.MIN_DURATION_MS - 500, 72, 1, 0))).toBeNull();
+    expect(analyzePulse([])).toBeNull();
+  });
+
+  it("samples the forehead and both cheeks", () => {
+    const face = createSyntheticFace();
+    const [forehead, left, right] = getPulseSampleRegions(face, 640, 480);
+
+    expect(forehead.y + forehead.height).toBeLessThan(left.y);
+    expect(left.x + left.width).toBeLessThan(forehead.x);
+    expect(right.x).toBeGreaterThan(forehead.x + forehead.width);
+    expect(getPulseSampleRegions(createSyntheticFace({ scale: 1 }), 640, 480)).toEqual([]);
+  });
+
+  it("averages the green channel", () => {
+    const data = new Uint8ClampedArray([0, 100, 0, 255, 255, 200, 255, 255]);
+    expect(getMeanGreen({ data, width: 2, height: 1 })).toBe(150);
+  });
+});
+
+describe("pulse anti-spoof indicator", () => {
+  const run = (amplitude: number) => {
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    const random = createRandom(5);
+    let state = createAntiSpoofState();
+    for (let t = 0; t <= 12000; t += CONFIG.FRAME_INTERVAL) {
+      state = updateAntiSpoofState(state, frames.next().value, t, { skinGreen: skinGreen(t, 66, amplitude, 1, random) });
+    }
+    return state;
+  };
+
+  it("keeps only the pulse window and reports the heart rate", () => {
+    const state = run(0.5);
+    const { samples, pulse } = getDetectorState(state, pulseDetector);
+
+    expect(samples[samples.length - 1].t - samples[0].t)
+      .toBeLessThanOrEqual(PULSE_CONFIG.WINDOW_MS);
+    expect(Math.abs(pulse!.heartRate - 66)).toBeLessThanOrEqual(2);
+    expect(state.spoofScore).toBe(0);
+  });
+
+  it("adds a missing pulse to the spoof score without flagging on its own", () => {
+    const state = run(0);
+
+    expect(getDetectorState(state, pulseDetector).pulse!.score).toBeLessThan(0.5);
+    expect(state.spoofScore).toBeGreaterThan(0);
+    expect(state.isSpoof).toBe(false);
+    expect(state.reason).toBe("No pulse signal detected");
+  });
+
+  it("is fed by the engine's frame signals", () => {
+    const engine = new LivenessEngine({ steps: ["BLINK"], random: () => 0.999 });
+    let { state } = engine.start(0);
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    const random = createRandom(9);
+
+    for (let i = 1; i <= CONFIG.ALIGN_REQUIRED_FRAMES; i++) {
+      const now = i * CONFIG.FRAME_INTERVAL;
+      state = engine.process(state, frames.next().value, GUIDE_BOX, now, 1, {
+        skinGreen: skinGreen(now, 80, 1, 1, random),
+      }).state;
+    }
+
+    const { samples, pulse } = getDetectorState(state.antiSpoof, pulseDetector);
+    expect(samples).toHaveLength(CONFIG.ALIGN_REQUIRED_FRAMES);
+    expect(getLivenessDebugInfo(state).pulse).toBe(pulse);
+  });
+});
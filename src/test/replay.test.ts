@@ -0,0 +1,164 @@
+import { describe, it, expect } from "vitest";
+import { analyzeReplay, getReplayCropRegion, hashPixels, ReplayFrame, REPLAY_CONFIG, VideoFrameSample } from "@/utils/replay";
+import { createAntiSpoofState, getDetectorState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { replayDetector } from "@/detectors";
+import { CONFIG } from "@/types/liveness";
+import { createSyntheticFace, createRandom } from "./syntheticFace";
+
+// Unhurried, never quite repeating head motion in pixels at time `t` (ms)
+const wander = (t: number) => ({
+  x: 12 * Math.sin(t / 900) + 7 * Math.sin(t / 370 + 1),
+  y: 6 * Math.sin(t / 1300 + 2) + 3 * Math.sin(t / 510),
+});
+
+// A clip of `length` ms played over and over
+const looped = (length: number) => (t: number) => wander(t % length);
+
+interface Recording {
+  motion: (t: number) => { x: number; y: number };
+  hash: (t: number, frame: number) => number | null; // Face crop hash of the frame shown at `t`
+  timing?: (frame: number) => Omit<VideoFrameSample, "hash">;
+  durationMs?: number;
+}
+
+// Frames at the detection rate, with the loop's timing jitter
+function record({ motion, hash, timing, durationMs = REPLAY_CONFIG.WINDOW_MS }: Recording): ReplayFrame[] {
+  const random = createRandom(3);
+  const frames: ReplayFrame[] = [];
+  for (let i = 0, t = 0; t <= durationMs; i++, t = i * CONFIG.FRAME_INTERVAL + random() * 20) {
+    const { x, y } = motion(t);
+    frames.push({
+      t,
+      centerX: 320 + x,
+      centerY: 240 + y,
+      faceWidth: 200,
+      hash: hash(t, i),
+      presentedFrames: 0,
+      comparedFrames: 0,
+      duplicateFrames: 0,
+      ...timing?.(i),
+    });
+  }
+  return frames;
+}
+
+// A live camera: sensor noise makes every frame unique
+const unique = (_t: number, frame: number) => frame;
+
+// A decoded video file: the picture depends only on the position in the clip (30 fps)
+const decoded = (length: number) => (t: number) => Math.floor((t % length) / (1000 / 30));
+
+describe("replay analysis", () => {
+  it("finds nothing in a live session", () => {
+    const replay = analyzeReplay(record({ motion: wander, hash: unique }))!;
+
+    expect(replay.repeatRatio).toBe(0);
+    expect(replay.loopResidual).toBeGreaterThan(REPLAY_CONFIG.LOOP_RESIDUAL * 2);
+    expect(replay.duplicateRatio).toBeNull();
+  });
+
+  it("finds exact repeats and the loop of a looped video file", () => {
+    const replay = analyzeReplay(record({ motion: looped(5000), hash: decoded(5000) }))!;
+
+    expect(replay.repeatRatio).toBeGreaterThan(0.5);
+    expect(replay.loopResidual).toBeLessThan(REPLAY_CONFIG.LOOP_RESIDUAL);
+    expect(Math.abs(replay.loopPeriod! - 5000)).toBeLessThanOrEqual(REPLAY_CONFIG.MAX_ALIGN_MS);
+  });
+
+  it("finds the loop of a video filmed off a screen", () => {
+    const random = createRandom(7);
+    const noisy = (t: number) => {
+      const { x, y } = looped(6000)(t);
+      return { x: x + (random() - 0.5), y: y + (random() - 0.5) };
+    };
+    const replay = analyzeReplay(record({ motion: noisy, hash: unique }))!;
+
+    expect(replay.repeatRatio).toBe(0);
+    expect(replay.loopResidual).toBeLessThan(REPLAY_CONFIG.LOOP_RESIDUAL);
+  });
+
+  it("does not count a frozen picture as repeats", () => {
+    const replay = analyzeReplay(record({ motion: () => ({ x: 0, y: 0 }), hash: () => 42 }))!;
+
+    expect(replay.repeatRatio).toBe(0);
+    // A still face retraces nothing
+    expect(replay.loopResidual).toBeNull();
+  });
+
+  it("measures duplicated frames from the frame callbacks", () => {
+    // 24 fps content in a 30 fps stream: every fifth presented frame repeats the one before.
+    // The detection loop sees 2.5 frames per sample; alternate 2 and 3.
+    const timing = (frame: number) => {
+      const presentedFrames = frame % 2 ? 3 : 2;
+      return { presentedFrames, comparedFrames: presentedFrames, duplicateFrames: frame % 2 };
+    };
+    const replay = analyzeReplay(record({ motion: wander, hash: unique, timing }))!;
+
+    expect(replay.duplicateRatio).toBeCloseTo(0.2, 1);
+    expect(replay.presentedFps).toBeCloseTo(30, 0);
+    expect(replay.contentFps).toBeCloseTo(24, 0);
+  });
+
+  it("waits for the minimum history", () => {
+    const frames = record({ motion: wander, hash: unique, durationMs: REPLAY_CONFIG.MIN_DURATION_MS - 100 });
+    expect(analyzeReplay(frames)).toBeNull();
+  });
+
+  it("hashes the RGB channels of the face crop", () => {
+    const data = new Uint8ClampedArray(16 * 16 * 4).fill(128);
+    const hash = hashPixels({ data, width: 16, height: 16 });
+
+    expect(hashPixels({ data: data.slice(), width: 16, height: 16 })).toBe(hash);
+    const alpha = data.slice();
+    alpha[3] = 255;
+    expect(hashPixels({ data: alpha, width: 16, height: 16 })).toBe(hash);
+    const changed = data.slice();
+    changed[100] = 129;
+    expect(hashPixels({ data: changed, width: 16, height: 16 })).not.toBe(hash);
+  });
+
+  it("crops the face inside the frame", () => {
+    const region = getReplayCropRegion(createSyntheticFace({ x: 20 }), 640, 480)!;
+
+    expect(region.x).toBe(0);
+    expect(Number.isInteger(region.width)).toBe(true);
+    expect(getReplayCropRegion(createSyntheticFace({ scale: 0.5 }), 640, 480)).toBeNull();
+  });
+});
+
+describe("replay anti-spoof indicator", () => {
+  const run = (recording: Recording) => {
+    const frames = record(recording);
+    let state = createAntiSpoofState();
+    for (const frame of frames) {
+      const face = createSyntheticFace({ x: frame.centerX, y: frame.centerY, seed: frames.indexOf(frame) });
+      const videoFrame = frame.hash === null ? null : { hash: frame.hash };
+      state = updateAntiSpoofState(state, face, 1000 + frame.t, { videoFrame });
+    }
+    return state;
+  };
+
+  it("keeps only the replay window and passes a live session", () => {
+    const state = run({ motion: wander, hash: unique, durationMs: REPLAY_CONFIG.WINDOW_MS + 5000 });
+
+    const { frames } = getDetectorState(state, replayDetector);
+    expect(frames[frames.length - 1].t - frames[0].t)
+      .toBeLessThanOrEqual(REPLAY_CONFIG.WINDOW_MS);
+    expect(state.verdict.detectors.find(d => d.id === "replay")).toMatchObject({ score: 0, confidence: 1 });
+  });
+
+  it("flags a looped video file on its own", () => {
+    const state = run({ motion: looped(5000), hash: decoded(5000) });
+
+    expect(state.isSpoof).toBe(true);
+    expect(state.verdict.reasons).toContain("Repeated video frames detected");
+    expect(state.verdict.reasons).toContain("Looping face motion detected");
+  });
+
+  it("follows the loop from the landmarks alone", () => {
+    const state = run({ motion: looped(5000), hash: () => null });
+
+    expect(getDetectorState(state, replayDetector).replay.repeatRatio).toBe(0);
+    expect(state.reason).toBe("Looping face motion detected");
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { SessionRecorder, pickRecordingMimeType } from "@/recording";
+
+// Minimal MediaRecorder: the test pushes chunks, stop() flushes and fires "stop"
+class FakeMediaRecorder extends EventTarget {
+  static instances: FakeMediaRecorder[] = [];
+  static isTypeSupported = (type: string) => type === "video/webm;codecs=vp8" || type === "video/webm";
+
+  state: "inactive" | "recording" = "inactive";
+  mimeType: string;
+  timeslice = 0;
+  ondataavailable: ((event: { data: Blob }) => void) | null = null;
+
+  constructor(public stream: unknown, public options: { mimeType?: string; videoBitsPerSecond?: number }) {
+    super();
+    this.mimeType = options.mimeType ?? "";
+    FakeMediaRecorder.instances.push(this);
+  }
+
+  start(timeslice: number) {
+    this.state = "recording";
+    this.timeslice = timeslice;
+  }
+
+  emit(bytes: number) {
+    this.ondataavailable?.({ data: new Blob([new Uint8Array(bytes)]) });
+  }
+
+  stop() {
+    this.state = "inactive";
+    this.emit(10);
+    this.dispatchEvent(new Event("stop"));
+  }
+}
+
+const stream = {} as MediaStream;
+
+describe("SessionRecorder", () => {
+  beforeEach(() => {
+    FakeMediaRecorder.instances = [];
+    vi.stubGlobal("MediaRecorder", FakeMediaRecorder);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("falls back to the first supported WebM type", () => {
+    expect(pickRecordingMimeType("video/mp4")).toBe("video/webm;codecs=vp8");
+    expect(pickRecordingMimeType()).toBe("video/webm;codecs=vp8");
+  });
+
+  it("records with the requested bitrate and places markers on the timeline", async () => {
+    const recorder = new SessionRecorder(stream, 1000, { videoBitsPerSecond: 500_000 });
+    const media = FakeMediaRecorder.instances[0];
+    expect(media.options.videoBitsPerSecond).toBe(500_000);
+
+    recorder.mark({ type: "STEP_ENTERED", step: "ALIGN", at: 1000 });
+    media.emit(100);
+    recorder.mark({ type: "ATTEMPT_FAILED", step: "BLINK", reason: "TIMEOUT", attempt: 1, at: 3500 });
+    recorder.mark({ type: "STEP_COMPLETED", step: "BLINK", at: 6000 });
+
+    const recording = await recorder.stop(6500);
+
+    expect(recording.sizeBytes).toBe(110);
+    expect(recording.blob.size).toBe(110);
+    expect(recording.blob.type).toBe("video/webm;codecs=vp8");
+    expect(recording.truncated).toBe(false);
+    expect(recording.timeline).toMatchObject({ startedAt: 1000, endedAt: 6500, truncatedAt: null });
+    expect(recording.timeline.markers).toEqual([
+      { type: "STEP_ENTERED", step: "ALIGN", at: 1000, offsetMs: 0 },
+      { type: "ATTEMPT_FAILED", step: "BLINK", reason: "TIMEOUT", attempt: 1, at: 3500, offsetMs: 2500 },
+      { type: "STEP_COMPLETED", step: "BLINK", at: 6000, offsetMs: 5000 },
+    ]);
+    expect(JSON.parse(JSON.stringify(recording.timeline))).toEqual(recording.timeline);
+  });
+
+  it("stops at the size cap without exceeding it", async () => {
+    const recorder = new SessionRecorder(stream, 0, { maxBytes: 250 });
+    const media = FakeMediaRecorder.instances[0];
+
+    media.emit(100);
+    media.emit(100);
+    media.emit(100); // Would cross the cap
+
+    expect(recorder.isRecording).toBe(false);
+
+    const recording = await recorder.stop(5000);
+    expect(recording.sizeBytes).toBe(200);
+    expect(recording.blob.size).toBeLessThanOrEqual(250);
+    expect(recording.truncated).toBe(true);
+    expect(recording.timeline.truncatedAt).not.toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from "vitest";
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import { calculateAverageEAR, toUserEyes } from "@/utils/ear";
+import { calculatePoseMetrics } from "@/utils/pose";
+import { calculateMAR } from "@/utils/mar";
+import { createAntiSpoofState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import { LivenessEngine, LivenessTransition } from "@/engine";
+import { CONFIG, LivenessState } from "@/types/liveness";
+import { createSyntheticFace, syntheticFaceSequence, SyntheticFaceOptions, GUIDE_BOX } from "./syntheticFace";
+
+const userEyes = (face: Face) => {
+  const { left, right } = calculateAverageEAR(face);
+  return toUserEyes(left, right);
+};
+
+function runAntiSpoof(frames: Iterator<Face>, count = 30) {
+  let state = createAntiSpoofState();
+  for (let i = 0; i < count; i++) {
+    state = updateAntiSpoofState(state, frames.next().value as Face, 1000 + i * CONFIG.FRAME_INTERVAL);
+  }
+  return state;
+}
+
+describe("synthetic face", () => {
+  it("generates a full refined mesh deterministically", () => {
+    const face = createSyntheticFace({ jitter: 0.5, seed: 7 });
+
+    expect(face.keypoints).toHaveLength(478);
+    expect(createSyntheticFace({ refineLandmarks: false }).keypoints).toHaveLength(468);
+    expect(createSyntheticFace({ jitter: 0.5, seed: 7 })).toEqual(face);
+    expect(createSyntheticFace({ jitter: 0.5, seed: 8 })).not.toEqual(face);
+    expect(face.keypoints.every(p => Number.isFinite(p.x) && Number.isFinite(p.y) && Number.isFinite(p.z))).toBe(true);
+  });
+
+  it("closes each of the user's eyes independently", () => {
+    const open = userEyes(createSyntheticFace());
+    const leftClosed = userEyes(createSyntheticFace({ leftEyeOpen: 0.1 }));
+    const rightClosed = userEyes(createSyntheticFace({ rightEyeOpen: 0 }));
+
+    expect(open.left).toBeCloseTo(0.3);
+    expect(open.right).toBeCloseTo(0.3);
+    expect(leftClosed.left).toBeCloseTo(0.03);
+    expect(leftClosed.right).toBeCloseTo(0.3);
+    expect(rightClosed.right).toBe(0);
+    expect(rightClosed.left).toBeCloseTo(0.3);
+  });
+
+  it("keeps EAR and MAR independent of scale and position", () => {
+    const near = createSyntheticFace({ scale: 25, x: 280, y: 180, mouthOpen: 0.5 });
+    const far = createSyntheticFace({ scale: 10, x: 360, y: 220, mouthOpen: 0.5 });
+
+    expect(calculateAverageEAR(near).avg).toBeCloseTo(calculateAverageEAR(far).avg);
+    expect(calculateMAR(near)).toBeCloseTo(calculateMAR(far));
+    expect(calculateMAR(near)).toBeGreaterThan(calculateMAR(createSyntheticFace()) + CONFIG.MAR_OPEN_DELTA);
+  });
+
+  it("maps yaw, pitch and roll onto the pose metrics with the right signs", () => {
+    const frontal = calculatePoseMetrics(createSyntheticFace());
+    expect(frontal.yawMetric).toBeCloseTo(0);
+    expect(frontal.rollMetric).toBeCloseTo(0);
+
+    const yaws = [-30, -15, 0, 15, 30].map(yaw => calculatePoseMetrics(createSyntheticFace({ yaw })).yawMetric);
+    expect(yaws).toEqual([...yaws].sort((a, b) => a - b));
+    expect(yaws[4]).toBeGreaterThan(CONFIG.YAW_THRESHOLD);
+    expect(yaws[0]).toBeLessThan(-CONFIG.YAW_THRESHOLD);
+
+    const down = calculatePoseMetrics(createSyntheticFace({ pitch: 25 })).pitchMetric;
+    const up = calculatePoseMetrics(createSyntheticFace({ pitch: -25 })).pitchMetric;
+    expect(down - frontal.pitchMetric).toBeGreaterThan(CONFIG.PITCH_THRESHOLD);
+    expect(frontal.pitchMetric - up).toBeGreaterThan(CONFIG.PITCH_THRESHOLD);
+
+    // Roll is the eye-line angle normalised by 30 degrees
+    expect(calculatePoseMetrics(createSyntheticFace({ roll: 15 })).rollMetric).toBeCloseTo(0.5, 1);
+    expect(calculatePoseMetrics(createSyntheticFace({ roll: -15 })).rollMetric).toBeCloseTo(-0.5, 1);
+  });
+
+  it("passes anti-spoof for a swaying face with depth", () => {
+    const state = runAntiSpoof(syntheticFaceSequence({ jitter: 0.3 }));
+
+    expect(state.isSpoof).toBe(false);
+    expect(state.spoofScore).toBe(0);
+  });
+
+  it("flags a flat, motionless face as a spoof", () => {
+    const state = runAntiSpoof(syntheticFaceSequence({ depth: 0, sway: 0 }));
+
+    expect(state.isSpoof).toBe(true);
+    expect(state.reason).toBe("Flat face detected (no depth)");
+  });
+
+  it("drives the engine through a full session", () => {
+    const engine = new LivenessEngine({ steps: ["BLINK", "TURN_RIGHT", "TURN_DOWN"], random: () => 0.999 });
+    let now = 1000;
+    let state: LivenessState;
+    const events: LivenessTransition["events"] = [];
+    const apply = (transition: LivenessTransition) => {
+      state = transition.state;
+      events.push(...transition.events);
+    };
+    apply(engine.start(now));
+
+    // A live user sways slightly between frames
+    let frame = 0;
+    const feed = (options: SyntheticFaceOptions, count: number) => {
+      for (let i = 0; i < count; i++) {
+        now += CONFIG.FRAME_INTERVAL;
+        frame++;
+        const face = createSyntheticFace({ ...options, x: 320 + Math.sin(frame * 1.3), jitter: 0.3, seed: frame });
+        apply(engine.process(state, face, GUIDE_BOX, now));
+      }
+    };
+    const waitForNextStep = () => {
+      const step = state.currentStep;
+      while (state.currentStep === step && !state.isComplete) feed({}, 1);
+    };
+
+    feed({}, CONFIG.ALIGN_REQUIRED_FRAMES);
+    waitForNextStep();
+
+    feed({}, CONFIG.BLINK_CALIBRATION_FRAMES);
+    feed({ leftEyeOpen: 0.1, rightEyeOpen: 0.1 }, 4);
+    feed({}, 6);
+    waitForNextStep();
+
+    feed({ yaw: 25 }, CONFIG.POSE_HELD_FRAMES + 5);
+    waitForNextStep();
+
+    feed({ pitch: 25 }, CONFIG.POSE_HELD_FRAMES + 5);
+
+    expect(state.failure).toBeNull();
+    expect(state.completedSteps).toEqual(["ALIGN", "BLINK", "TURN_RIGHT", "TURN_DOWN"]);
+    expect(events.at(-1)?.type).toBe("SUCCESS");
+  });
+});
@@ -0,0 +1,287 @@
+// Synthetic MediaPipe face mesh for deterministic tests
+//
+// A canonical 3D face (units of roughly a centimetre, x to image-right, y down,
+// z away from the camera, origin between the inner eye corners) is deformed for
+// expressions, rotated about the head centre and projected orthographically to
+// image pixels, the way face-landmarks-detection reports keypoints.
+
+import type { Face } from "@tensorflow-models/face-landmarks-detection";
+import type { BoundingBox } from "@/types/liveness";
+import type { TextureMetrics } from "@/utils/texture";
+import { LANDMARK_INDICES } from "@/utils/landmarks";
+
+type Vec3 = [number, number, number];
+
+export interface SyntheticFaceOptions {
+  yaw?: number;          // Degrees, positive = user turns to their right (yawMetric > 0)
+  pitch?: number;        // Degrees, positive = looking down
+  roll?: number;         // Degrees, positive = clockwise in the image
+  leftEyeOpen?: number;  // User's left eye (image-right), 0 closed to 1 open
+  rightEyeOpen?: number; // User's right eye (image-left)
+  mouthOpen?: number;    // 0 closed to 1 wide open
+  smile?: number;        // 0 neutral to 1 full smile
+  browRaise?: number;    // 0 neutral to 1 fully raised
+  gazeX?: number;        // Screen-space gaze in the mirrored view, -1 (left) to 1 (right)
+  gazeY?: number;        // -1 (up) to 1 (down)
+  scale?: number;        // Pixels per model unit; the face is about 15 units wide
+  x?: number;            // Image position of the model origin
+  y?: number;
+  depth?: number;        // Depth multiplier, 1 = real face, 0 = flat photo
+  focalLength?: number;  // Pixels; projects in perspective from a camera on the face's axis (default orthographic)
+  jitter?: number;       // Per-keypoint noise standard deviation in pixels
+  seed?: number;         // Jitter seed; same seed, same noise
+  refineLandmarks?: boolean; // Include the 10 iris points (478 keypoints, default true)
+}
+
+export const SYNTHETIC_FACE_DEFAULTS = {
+  scale: 15,
+  x: 320,
+  y: 200,
+} as const;
+
+// Guide box of a 640x480 frame, around the face at the default position
+export const GUIDE_BOX: BoundingBox = { x: 128, y: 72, width: 384, height: 336 };
+
+// Park-Miller generator for test signals, so the noise is the same on every run
+export function createRandom(seed: number): () => number {
+  return () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+}
+
+// Texture analysis with only the combined recapture score set
+export const textureMetrics = (score: number): TextureMetrics => ({
+  highFrequency: 0, moire: 0, banding: 0, lbpNonUniform: 0, lbpEntropy: 0, score,
+});
+
+const MESH_POINTS = 468;
+const IRIS_POINTS = 10;
+
+// Half-height of an open eyelid gap; gives an EAR of 0.3 on the 3-unit wide eye
+const LID_OPEN = 0.45;
+
+// Heads rotate about a point behind the face, not about the nose
+const HEAD_CENTER: Vec3 = [0, 2, 6];
+
+// Eye contours from the outer corner, upper lid first; the six EAR points are fixed below
+const IMAGE_LEFT_EYE = { outer: -4.5, inner: -1.5, upper: [246, 161, 159, 157, 173], lower: [7, 163, 145, 154, 155] };
+const IMAGE_RIGHT_EYE = { outer: 4.5, inner: 1.5, upper: [466, 388, 386, 384, 398], lower: [249, 390, 374, 381, 382] };
+
+/**
+ * Canonical frontal model with every mesh point placed; points the utils never
+ * read are spread over an ellipsoidal face surface so depth statistics are realistic
+ */
+function buildCanonicalFace(): Vec3[] {
+  const points: (Vec3 | undefined)[] = new Array(MESH_POINTS + IRIS_POINTS);
+  const place = (index: number, point: Vec3) => {
+    points[index] = point;
+  };
+
+  // Contour
+  place(LANDMARK_INDICES.FOREHEAD, [0, -5.5, -0.8]);
+  place(LANDMARK_INDICES.CHIN, [0, 10, -0.8]);
+  place(LANDMARK_INDICES.LEFT_CHEEK, [-7.5, 2, 5.5]);
+  place(LANDMARK_INDICES.RIGHT_CHEEK, [7.5, 2, 5.5]);
+
+  // Nose
+  place(LANDMARK_INDICES.NOSE_BRIDGE, [0, 0, -1]);
+  place(LANDMARK_INDICES.NOSE_TIP, [0, 3.5, -3.5]);
+
+  // Eyes: corners plus the EAR lid points, then the rest of each contour
+  for (const eye of [IMAGE_LEFT_EYE, IMAGE_RIGHT_EYE]) {
+    const { outer, inner, upper, lower } = eye;
+    const centerX = (outer + inner) / 2;
+    upper.forEach((index, i) => {
+      const x = outer + ((inner - outer) * (i + 1)) / (upper.length + 1);
+      place(index, [x, -LID_OPEN, 0.2]);
+      place(lower[i], [x, LID_OPEN, 0.2]);
+    });
+    place(eye === IMAGE_LEFT_EYE ? 468 : 473, [centerX, 0, -0.3]);
+  }
+  place(LANDMARK_INDICES.LEFT_EYE_OUTER, [-4.5, 0, 0.8]);
+  place(LANDMARK_INDICES.LEFT_EYE_INNER, [-1.5, 0, 0]);
+  place(LANDMARK_INDICES.RIGHT_EYE_OUTER, [4.5, 0, 0.8]);
+  place(LANDMARK_INDICES.RIGHT_EYE_INNER, [1.5, 0, 0]);
+  place(160, [-3.75, -LID_OPEN, 0.2]); place(158, [-2.25, -LID_OPEN, 0.2]);
+  place(144, [-3.75, LID_OPEN, 0.2]);  place(153, [-2.25, LID_OPEN, 0.2]);
+  place(387, [3.75, -LID_OPEN, 0.2]);  place(385, [2.25, -LID_OPEN, 0.2]);
+  place(373, [3.75, LID_OPEN, 0.2]);   place(380, [2.25, LID_OPEN, 0.2]);
+
+  // Iris rings (refined landmarks)
+  [468, 473].forEach((center) => {
+    const [cx, cy, cz] = points[center]!;
+    for (let i = 0; i < 4; i++) {
+      const angle = (i * Math.PI) / 2;
+      place(center + 1 + i, [cx + 0.55 * Math.cos(angle), cy + 0.55 * Math.sin(angle), cz]);
+    }
+  });
+
+  // Eyebrows, outer to inner on the image-left side and inner to outer on the right
+  LANDMARK_INDICES.LEFT_EYEBROW.forEach((index, i) => place(index, [-5 + i * 0.85, -2, 0.4 - i * 0.15]));
+  LANDMARK_INDICES.RIGHT_EYEBROW.forEach((index, i) => place(index, [1.6 + i * 0.85, -2, -0.2 + i * 0.15]));
+
+  // Mouth corners and inner lips
+  place(LANDMARK_INDICES.LEFT_MOUTH, [-2.5, 6.5, -0.5]);
+  place(LANDMARK_INDICES.RIGHT_MOUTH, [2.5, 6.5, -0.5]);
+  place(LANDMARK_INDICES.MOUTH_INNER_LEFT, [-2, 6.5, -0.8]);
+  place(LANDMARK_INDICES.MOUTH_INNER_RIGHT, [2, 6.5, -0.8]);
+  LANDMARK_INDICES.INNER_UPPER_LIP.forEach((index, i) => place(index, [-1 + i, 6.4, -1.2]));
+  LANDMARK_INDICES.INNER_LOWER_LIP.forEach((index, i) => place(index, [-1 + i, 6.6, -1.2]));
+
+  // Fill the rest on a sunflower spiral over the face oval
+  const free = Array.from({ length: MESH_POINTS }, (_, i) => i).filter((i) => !points[i]);
+  free.forEach((index, i) => {
+    const r = Math.sqrt((i + 0.5) / free.length);
+    const theta = i * 2.399963; // Golden angle
+    const x = 6.5 * r * Math.cos(theta);
+    const y = 2.25 + 7.5 * r * Math.sin(theta);
+    place(index, [x, y, 2.5 - 3.5 * Math.sqrt(Math.max(0, 1 - r * r))]);
+  });
+
+  return points as Vec3[];
+}
+
+const CANONICAL_FACE = buildCanonicalFace();
+
+// mulberry32
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Roughly normal noise with unit standard deviation (Irwin-Hall of 12 uniforms)
+function createGaussian(seed: number): () => number {
+  const random = mulberry32(seed);
+  return () => {
+    let sum = 0;
+    for (let i = 0; i < 12; i++) sum += random();
+    return sum - 6;
+  };
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/**
+ * Apply expressions to a copy of the canonical model
+ */
+function deform(options: Required<Pick<SyntheticFaceOptions,
+  "leftEyeOpen" | "rightEyeOpen" | "mouthOpen" | "smile" | "browRaise" | "gazeX" | "gazeY">>
+): Vec3[] {
+  const points = CANONICAL_FACE.map((p) => [...p] as Vec3);
+
+  // Lids close towards the eye line; the user's left eye is the image-right one
+  const lids = (eye: typeof IMAGE_LEFT_EYE, open: number, named: number[]) => {
+    for (const index of [...eye.upper, ...eye.lower, ...named]) {
+      points[index][1] *= open;
+    }
+  };
+  lids(IMAGE_LEFT_EYE, options.rightEyeOpen, [160, 158, 144, 153]);
+  lids(IMAGE_RIGHT_EYE, options.leftEyeOpen, [387, 385, 373, 380]);
+
+  // Irises move against the gaze horizontally because the view is mirrored
+  for (let index = 468; index < 478; index++) {
+    points[index][0] -= 0.6 * options.gazeX;
+    points[index][1] += 0.3 * options.gazeY;
+  }
+
+  for (const index of [...LANDMARK_INDICES.LEFT_EYEBROW, ...LANDMARK_INDICES.RIGHT_EYEBROW]) {
+    points[index][1] -= 0.8 * options.browRaise;
+  }
+
+  // Smiling stretches and lifts the corners
+  points[LANDMARK_INDICES.LEFT_MOUTH][0] -= 0.6 * options.smile;
+  points[LANDMARK_INDICES.RIGHT_MOUTH][0] += 0.6 * options.smile;
+  points[LANDMARK_INDICES.LEFT_MOUTH][1] -= 0.7 * options.smile;
+  points[LANDMARK_INDICES.RIGHT_MOUTH][1] -= 0.7 * options.smile;
+
+  // The jaw drops with the lower lip
+  const drop = 2.5 * options.mouthOpen;
+  for (const index of [...LANDMARK_INDICES.INNER_LOWER_LIP, LANDMARK_INDICES.CHIN]) {
+    points[index][1] += drop;
+  }
+
+  return points;
+}
+
+/**
+ * Generate a plausible MediaPipe face mesh in image pixels
+ */
+export function createSyntheticFace(options: SyntheticFaceOptions = {}): Face {
+  const {
+    yaw = 0, pitch = 0, roll = 0,
+    leftEyeOpen = 1, rightEyeOpen = 1, mouthOpen = 0, smile = 0, browRaise = 0,
+    gazeX = 0, gazeY = 0,
+    scale = SYNTHETIC_FACE_DEFAULTS.scale,
+    x = SYNTHETIC_FACE_DEFAULTS.x,
+    y = SYNTHETIC_FACE_DEFAULTS.y,
+    depth = 1, focalLength, jitter = 0, seed = 1,
+    refineLandmarks = true,
+  } = options;
+
+  const points = deform({ leftEyeOpen, rightEyeOpen, mouthOpen, smile, browRaise, gazeX, gazeY });
+  const noise = createGaussian(seed);
+
+  const [cy, sy] = [Math.cos(toRadians(yaw)), Math.sin(toRadians(yaw))];
+  const [cp, sp] = [Math.cos(toRadians(pitch)), Math.sin(toRadians(pitch))];
+  const [cr, sr] = [Math.cos(toRadians(roll)), Math.sin(toRadians(roll))];
+
+  const count = refineLandmarks ? MESH_POINTS + IRIS_POINTS : MESH_POINTS;
+  const keypoints = points.slice(0, count).map(([px, py, pz]) => {
+    // Flatten first so a photo of a turned head stays flat
+    let vx = px - HEAD_CENTER[0];
+    let vy = py - HEAD_CENTER[1];
+    let vz = (pz - HEAD_CENTER[2]) * depth;
+
+    // Yaw about the vertical axis; a positive angle moves the nose to image-left
+    [vx, vz] = [vx * cy + vz * sy, -vx * sy + vz * cy];
+    // Pitch about the horizontal axis; a positive angle moves the nose down
+    [vy, vz] = [vy * cp - vz * sp, vy * sp + vz * cp];
+    // Roll in the image plane
+    [vx, vy] = [vx * cr - vy * sr, vx * sr + vy * cr];
+
+    vx += HEAD_CENTER[0];
+    vy += HEAD_CENTER[1];
+    vz += HEAD_CENTER[2] * depth;
+
+    // The model origin sits at the distance where it appears at `scale`
+    const magnify = focalLength ? focalLength / (focalLength + scale * vz) : 1;
+
+    return {
+      x: x + scale * vx * magnify + jitter * noise(),
+      y: y + scale * vy * magnify + jitter * noise(),
+      z: scale * vz + jitter * noise(),
+    };
+  });
+
+  const xs = keypoints.map((p) => p.x);
+  const ys = keypoints.map((p) => p.y);
+  const xMin = Math.min(...xs);
+  const yMin = Math.min(...ys);
+  const xMax = Math.max(...xs);
+  const yMax = Math.max(...ys);
+
+  return {
+    keypoints,
+    box: { xMin, yMin, xMax, yMax, width: xMax - xMin, height: yMax - yMin },
+  };
+}
+
+/**
+ * Frames of a face held still apart from a small sway, as a live user would
+ */
+export function* syntheticFaceSequence(
+  options: SyntheticFaceOptions & { sway?: number } = {}
+): Generator<Face, never> {
+  const { sway = 1, x = SYNTHETIC_FACE_DEFAULTS.x, seed = 1, ...rest } = options;
+  for (let frame = 0; ; frame++) {
+    yield createSyntheticFace({
+      ...rest,
+      x: x + sway * Math.sin(frame * 1.3),
+      seed: seed + frame,
+    });
+  }
+}
@@ -0,0 +1,131 @@
+import { describe, it, expect } from "vitest";
+import { analyzeTexture, getTextureSampleRegion, TEXTURE_CONFIG } from "@/utils/texture";
+import { createAntiSpoofState, getDetectorState, updateAntiSpoofState } from "@/utils/antiSpoof";
+import type { PixelBuffer } from "@/utils/frameQuality";
+import { textureDetector } from "@/detectors";
+import { getLivenessDebugInfo, LivenessEngine } from "@/engine";
+import { parseTrace, replayTrace, serializeTrace, TraceRecorder } from "@/trace";
+import { CONFIG } from "@/types/liveness";
+import { createSyntheticFace, syntheticFaceSequence, GUIDE_BOX, textureMetrics } from "./syntheticFace";
+
+const SIZE = TEXTURE_CONFIG.PATCH_SIZE;
+
+// Grey patch where `pixel(x, y)` returns the 0-255 luma
+function makePatch(pixel: (x: number, y: number) => number): PixelBuffer {
+  const data = new Uint8ClampedArray(SIZE * SIZE * 4);
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < SIZE; x++) {
+      const p = (y * SIZE + x) * 4;
+      data[p] = data[p + 1] = data[p + 2] = pixel(x, y);
+      data[p + 3] = 255;
+    }
+  }
+  return { data, width: SIZE, height: SIZE };
+}
+
+// Smooth shading with mild sensor noise, like a cheek seen directly by the camera
+function skin(x: number, y: number): number {
+  const noise = Math.sin(x * 12.9898 + y * 78.233) * 43758.5453;
+  return 120 + 40 * Math.sin(x / 20) * Math.cos(y / 25) + x * 0.5 + (noise - Math.floor(noise) - 0.5) * 4;
+}
+
+describe("texture analysis", () => {
+  it("scores live skin low", () => {
+    const metrics = analyzeTexture(makePatch(skin));
+
+    expect(metrics.moire).toBe(0);
+    expect(metrics.banding).toBe(0);
+    expect(metrics.score).toBeLessThan(0.1);
+  });
+
+  it("detects the moiré of a recaptured screen", () => {
+    const metrics = analyzeTexture(makePatch((x, y) => skin(x, y) + 25 * Math.sin(x * 2.4 + y * 0.7)));
+
+    expect(metrics.moire).toBe(1);
+    expect(metrics.highFrequency).toBeGreaterThan(0.5);
+    expect(metrics.score).toBeGreaterThan(0.5);
+  });
+
+  it("finds non-uniform micro-texture on a pixel grid", () => {
+    const grid = analyzeTexture(makePatch((x, y) => skin(x, y) + ((x + y) % 2 ? 20 : -20)));
+
+    expect(grid.lbpNonUniform).toBeGreaterThan(0.5);
+    expect(grid.lbpEntropy).toBeGreaterThan(analyzeTexture(makePatch(skin)).lbpEntropy);
+  });
+
+  it("measures banding of posterized tones", () => {
+    const metrics = analyzeTexture(makePatch((x, y) => Math.round(skin(x, y) / 16) * 16));
+
+    expect(metrics.banding).toBeGreaterThan(0.8);
+    expect(metrics.moire).toBe(0);
+  });
+
+  it("rejects patches of the wrong size", () => {
+    expect(() => analyzeTexture({ data: new Uint8ClampedArray(16), width: 2, height: 2 })).toThrow(/64x64/);
+  });
+
+  it("samples the cheek facing the camera", () => {
+    const face = createSyntheticFace();
+    const region = getTextureSampleRegion(face, 640, 480)!;
+    expect(region.width).toBe(Math.round(Math.min(SIZE, 225 * TEXTURE_CONFIG.PATCH_FACE_RATIO)));
+
+    // Turned right, the nose moves to image-left and the image-right cheek faces the camera
+    const turned = getTextureSampleRegion(createSyntheticFace({ yaw: 30 }), 640, 480)!;
+    expect(turned.x).toBeGreaterThan(region.x + region.width);
+
+    expect(getTextureSampleRegion(createSyntheticFace({ scale: 1 }), 640, 480)).toBeNull();
+  });
+});
+
+describe("texture anti-spoof indicator", () => {
+  it("flags a live-looking face once the texture scores stay high", () => {
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    let state = createAntiSpoofState();
+    for (let i = 0; i < 12; i++) {
+      state = updateAntiSpoofState(state, frames.next().value, 1000 + i * 83, { texture: i % 3 === 0 ? textureMetrics(0.8) : null });
+    }
+
+    expect(getDetectorState(state, textureDetector).scores).toEqual([0.8, 0.8, 0.8, 0.8]);
+    expect(state.isSpoof).toBe(true);
+    expect(state.reason).toBe("Screen or print texture detected");
+  });
+
+  it("passes the same face with a live texture", () => {
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    let state = createAntiSpoofState();
+    for (let i = 0; i < 12; i++) {
+      state = updateAntiSpoofState(state, frames.next().value, 1000 + i * 83, { texture: textureMetrics(0.1) });
+    }
+
+    expect(state.isSpoof).toBe(false);
+    expect(getDetectorState(state, textureDetector).texture?.score).toBe(0.1);
+  });
+
+  it("is fed by the engine's frame signals and survives a trace round trip", () => {
+    const recorder = new TraceRecorder(() => 0.999);
+    const engine = new LivenessEngine({ steps: ["BLINK"], random: recorder.random });
+    recorder.start(1000, { steps: ["BLINK"] });
+    let { state } = engine.start(1000);
+
+    const frames = syntheticFaceSequence({ jitter: 0.3 });
+    for (let i = 1; i <= CONFIG.ALIGN_REQUIRED_FRAMES; i++) {
+      const now = 1000 + i * CONFIG.FRAME_INTERVAL;
+      const face = frames.next().value;
+      const signals = { texture: textureMetrics(0.9) };
+      recorder.record(face, GUIDE_BOX, now, 1, signals);
+      state = engine.process(state, face, GUIDE_BOX, now, 1, signals).state;
+    }
+
+    expect(state.issue?.reason).toBe("SPOOF");
+    expect(state.error).toBe("Screen or print texture detected");
+    expect(getLivenessDebugInfo(state).textureScore).toBeCloseTo(0.9);
+
+    const trace = parseTrace(serializeTrace(recorder.finish()));
+    expect(trace.frames[0].signals?.texture?.score).toBe(0.9);
+    // Keypoints are stored as Float32, so compare the decision rather than every metric
+    const replayed = replayTrace(trace).state;
+    expect(getDetectorState(replayed.antiSpoof, textureDetector).scores)
+      .toEqual(getDetectorState(state.antiSpoof, textureDetector).scores);
+    expect(replayed.error).toBe(state.error);
+  });
+});
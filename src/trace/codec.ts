@@ -0,0 +1,108 @@
+// Trace serialization: compact JSON, optionally gzipped
+
+import { fromBase64Url, toBase64Url } from '@/attestation/canonical';
+import {
+  TRACE_VERSION,
+  LandmarkTrace,
+  SerializedLandmarkTrace,
+  SerializedTraceFrame,
+  TraceFrame,
+} from './types';
+
+/**
+ * Float32 keypoints as base64url, little-endian whatever the platform
+ */
+function encodeKeypoints(keypoints: Float32Array): string {
+  const view = new DataView(new ArrayBuffer(keypoints.length * 4));
+  keypoints.forEach((value, i) => view.setFloat32(i * 4, value, true));
+  return toBase64Url(view.buffer);
+}
+
+function decodeKeypoints(encoded: string): Float32Array {
+  const bytes = fromBase64Url(encoded);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const keypoints = new Float32Array(bytes.byteLength / 4);
+  for (let i = 0; i < keypoints.length; i++) {
+    keypoints[i] = view.getFloat32(i * 4, true);
+  }
+  return keypoints;
+}
+
+/**
+ * Serialize a trace to JSON
+ */
+export function serializeTrace(trace: LandmarkTrace): string {
+  let guideBox: TraceFrame['guideBox'] | null = null;
+
+  const frames = trace.frames.map((frame): SerializedTraceFrame => {
+    const changed = !guideBox
+      || guideBox.x !== frame.guideBox.x
+      || guideBox.y !== frame.guideBox.y
+      || guideBox.width !== frame.guideBox.width
+      || guideBox.height !== frame.guideBox.height;
+    guideBox = frame.guideBox;
+
+    return {
+      t: frame.t,
+      n: frame.faceCount,
+      ...(changed ? { g: frame.guideBox } : {}),
+      k: frame.keypoints ? encodeKeypoints(frame.keypoints) : null,
+      ...(frame.signals ? { s: frame.signals } : {}),
+    };
+  });
+
+  const serialized: SerializedLandmarkTrace = { ...trace, frames };
+  return JSON.stringify(serialized);
+}
+
+/**
+ * Parse a serialized trace; throws on unsupported versions or malformed frames
+ */
+export function parseTrace(json: string): LandmarkTrace {
+  const serialized = JSON.parse(json) as SerializedLandmarkTrace;
+
+  if (serialized?.version !== TRACE_VERSION) {
+    throw new Error(`Unsupported trace version: ${serialized?.version}`);
+  }
+  if (!Array.isArray(serialized.frames) || !Array.isArray(serialized.random)) {
+    throw new Error('Malformed trace');
+  }
+
+  let guideBox: TraceFrame['guideBox'] | null = null;
+
+  const frames = serialized.frames.map((frame): TraceFrame => {
+    guideBox = frame.g ?? guideBox;
+    if (!guideBox) throw new Error('Malformed trace: first frame has no guide box');
+
+    return {
+      t: frame.t,
+      faceCount: frame.n,
+      guideBox,
+      keypoints: frame.k ? decodeKeypoints(frame.k) : null,
+      ...(frame.s ? { signals: frame.s } : {}),
+    };
+  });
+
+  return { ...serialized, frames };
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: GenericTransformStream): Promise<Uint8Array> {
+  const stream = new Response(bytes).body!.pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Gzipped serialized trace, for downloads and golden files
+ */
+export async function compressTrace(trace: LandmarkTrace): Promise<Uint8Array> {
+  const json = new TextEncoder().encode(serializeTrace(trace));
+  return pipeBytes(json, new CompressionStream('gzip'));
+}
+
+/**
+ * Parse a gzipped trace
+ */
+export async function decompressTrace(bytes: Uint8Array): Promise<LandmarkTrace> {
+  const json = await pipeBytes(bytes, new DecompressionStream('gzip'));
+  return parseTrace(new TextDecoder().decode(json));
+}
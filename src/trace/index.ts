@@ -0,0 +1,6 @@
+// Barrel export for landmark traces
+
+export * from './types';
+export * from './codec';
+export * from './recorder';
+export * from './replay';
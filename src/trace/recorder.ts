@@ -0,0 +1,84 @@
+// Records the detector output of a session as a landmark trace
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { BoundingBox, FrameSignals, SessionChallenge } from '@/types/liveness';
+import { TRACE_VERSION, LandmarkTrace, TraceEngineOptions, TraceFrame } from './types';
+
+/**
+ * Flatten face keypoints to x, y, z triples
+ */
+export function packKeypoints(face: Face): Float32Array {
+  const packed = new Float32Array(face.keypoints.length * 3);
+  face.keypoints.forEach((point, i) => {
+    packed[i * 3] = point.x;
+    packed[i * 3 + 1] = point.y;
+    packed[i * 3 + 2] = point.z ?? 0;
+  });
+  return packed;
+}
+
+export class TraceRecorder {
+  private readonly source: () => number;
+  private engine: TraceEngineOptions = {};
+  private challenge: SessionChallenge | null = null;
+  private startedAt = 0;
+  private draws: number[] = [];
+  private frames: TraceFrame[] = [];
+
+  constructor(source: () => number = Math.random) {
+    this.source = source;
+  }
+
+  /**
+   * Random source for the engine; every draw is kept so replays shuffle identically
+   */
+  readonly random = (): number => {
+    const value = this.source();
+    this.draws.push(value);
+    return value;
+  };
+
+  /**
+   * Begin a new trace; call before engine.start() so its draws are captured
+   */
+  start(now: number, engine: TraceEngineOptions, challenge?: SessionChallenge): void {
+    this.engine = { ...engine };
+    this.challenge = challenge ?? null;
+    this.startedAt = now;
+    this.draws = [];
+    this.frames = [];
+  }
+
+  /**
+   * Record one frame exactly as it is handed to engine.process()
+   */
+  record(
+    face: Face | null,
+    guideBox: BoundingBox,
+    now: number,
+    faceCount: number = face ? 1 : 0,
+    signals?: FrameSignals
+  ): void {
+    this.frames.push({
+      t: now - this.startedAt,
+      faceCount,
+      guideBox: { ...guideBox },
+      keypoints: face ? packKeypoints(face) : null,
+      ...(signals && Object.keys(signals).length > 0 ? { signals } : {}),
+    });
+  }
+
+  /**
+   * Snapshot of the trace so far
+   */
+  finish(): LandmarkTrace {
+    return {
+      version: TRACE_VERSION,
+      startedAt: this.startedAt,
+      engine: this.engine,
+      challenge: this.challenge,
+      random: [...this.draws],
+      frames: [...this.frames],
+    };
+  }
+}
@@ -0,0 +1,100 @@
+// Offline replay of a landmark trace through the liveness engine
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { LivenessFailure, LivenessResult, LivenessState } from '@/types/liveness';
+import { LivenessEngine, LivenessEvent, LivenessTransition } from '@/engine';
+import type { LandmarkTrace, TraceExpectation } from './types';
+
+export interface TraceReplay {
+  state: LivenessState;
+  events: LivenessEvent[];
+  result: LivenessResult | null;
+  failure: LivenessFailure | null;
+}
+
+/**
+ * Rebuild a detector Face from packed keypoints
+ */
+export function unpackKeypoints(keypoints: Float32Array): Face {
+  const points: Face['keypoints'] = [];
+  for (let i = 0; i + 2 < keypoints.length; i += 3) {
+    points.push({ x: keypoints[i], y: keypoints[i + 1], z: keypoints[i + 2] });
+  }
+  return { keypoints: points } as Face;
+}
+
+/**
+ * Random source that plays back recorded draws
+ */
+function playback(draws: number[]): () => number {
+  let index = 0;
+  return () => {
+    if (index >= draws.length) {
+      throw new Error(`Trace replay diverged: engine drew more than ${draws.length} random values`);
+    }
+    return draws[index++];
+  };
+}
+
+/**
+ * Feed a trace through a fresh engine at its original timestamps
+ * `onTransition` sees every transition, e.g. to step through a field bug frame by frame
+ */
+export function replayTrace(
+  trace: LandmarkTrace,
+  onTransition?: (transition: LivenessTransition, frameIndex: number) => void
+): TraceReplay {
+  const engine = new LivenessEngine({ ...trace.engine, random: playback(trace.random) });
+  const events: LivenessEvent[] = [];
+
+  let transition = engine.start(trace.startedAt, trace.challenge ?? undefined);
+  events.push(...transition.events);
+  onTransition?.(transition, -1);
+
+  trace.frames.forEach((frame, i) => {
+    const face = frame.keypoints ? unpackKeypoints(frame.keypoints) : null;
+    transition = engine.process(
+      transition.state,
+      face,
+      frame.guideBox,
+      trace.startedAt + frame.t,
+      frame.faceCount,
+      frame.signals
+    );
+    events.push(...transition.events);
+    onTransition?.(transition, i);
+  });
+
+  const success = events.find(e => e.type === 'SUCCESS');
+  const failure = events.find(e => e.type === 'FAILURE');
+
+  return {
+    state: transition.state,
+    events,
+    result: success?.type === 'SUCCESS' ? success.result : null,
+    failure: failure?.type === 'FAILURE' ? failure.failure : null,
+  };
+}
+
+/**
+ * Differences between a replay and the expected outcome; empty when they match
+ */
+export function compareTraceOutcome(replay: TraceReplay, expected: TraceExpectation): string[] {
+  const problems: string[] = [];
+  const outcome = replay.result ? 'SUCCESS' : replay.failure ? 'FAILURE' : 'INCOMPLETE';
+
+  if (outcome !== expected.outcome) {
+    problems.push(`expected ${expected.outcome}, got ${outcome}`);
+  }
+  if (expected.reason && replay.failure?.reason !== expected.reason) {
+    problems.push(`expected failure reason ${expected.reason}, got ${replay.failure?.reason ?? 'none'}`);
+  }
+  if (expected.stepsCompleted) {
+    const steps = replay.state.completedSteps.join(',');
+    if (steps !== expected.stepsCompleted.join(',')) {
+      problems.push(`expected steps ${expected.stepsCompleted.join(',')}, got ${steps}`);
+    }
+  }
+
+  return problems;
+}
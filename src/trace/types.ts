@@ -0,0 +1,54 @@
+// Landmark trace types: what the detector saw during a session, for offline replay
+
+import type {
+  BoundingBox,
+  FrameSignals,
+  LivenessFailureReason,
+  LivenessStep,
+  SessionChallenge,
+} from '@/types/liveness';
+import type { LivenessEngineOptions } from '@/engine';
+
+export const TRACE_VERSION = 1;
+
+// Engine settings needed to rebuild the session; the random source is replaced by `random`
+export type TraceEngineOptions = Omit<LivenessEngineOptions, 'random'>;
+
+export interface TraceFrame {
+  t: number;                       // ms since the session started
+  faceCount: number;
+  guideBox: BoundingBox;
+  keypoints: Float32Array | null;  // x, y, z of the first face; null when none was detected
+  signals?: FrameSignals;          // Pixel measurements handed to the engine, if any
+}
+
+// Outcome a golden trace must reproduce
+export interface TraceExpectation {
+  outcome: 'SUCCESS' | 'FAILURE';
+  reason?: LivenessFailureReason;
+  stepsCompleted?: LivenessStep[];
+}
+
+export interface LandmarkTrace {
+  version: number;
+  startedAt: number;              // Epoch ms passed to engine.start()
+  engine: TraceEngineOptions;
+  challenge: SessionChallenge | null;
+  random: number[];               // Engine random draws, in order
+  frames: TraceFrame[];
+  label?: string;
+  expected?: TraceExpectation;
+}
+
+// JSON form: keypoints as base64url Float32 (little-endian), guide boxes only when they change
+export interface SerializedTraceFrame {
+  t: number;
+  n: number;            // Face count
+  g?: BoundingBox;
+  k: string | null;
+  s?: FrameSignals;
+}
+
+export interface SerializedLandmarkTrace extends Omit<LandmarkTrace, 'frames'> {
+  frames: SerializedTraceFrame[];
+}
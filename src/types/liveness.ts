@@ -1,14 +1,45 @@
 // Liveness verification types
 
-export type LivenessStep = 
-  | 'IDLE'
+import type { AntiSpoofState } from '@/utils/antiSpoof';
+import type { LivenessAttestation } from '@/attestation/types';
+import type { FrameQuality } from '@/utils/frameQuality';
+import type { HeadPose3D } from '@/utils/headPose3d';
+import type { TextureMetrics } from '@/utils/texture';
+import type { PulseMetrics } from '@/utils/pulse';
+import type { SpoofVerdict } from '@/detectors/types';
+import type { FlashColor, ReflectionSample } from '@/utils/reflection';
+import type { CameraTrust } from '@/utils/cameraTrust';
+import type { SessionRecording } from '@/recording/types';
+
+// Steps implemented by the built-in challenge plugins
+export type BuiltInChallengeStep =
   | 'ALIGN'
   | 'BLINK'
+  | 'WINK_LEFT'
+  | 'WINK_RIGHT'
+  | 'BLINK_N'
   | 'TURN_LEFT'
   | 'TURN_RIGHT'
   | 'TURN_UP'
   | 'TURN_DOWN'
-  | 'SUCCESS';
+  | 'NOD'
+  | 'SHAKE'
+  | 'SMILE'
+  | 'RAISE_EYEBROWS'
+  | 'FOLLOW_DOT'
+  | 'OPEN_MOUTH'
+  | 'SPEAK_DIGITS'
+  | 'COLOR_FLASH';
+
+// Session lifecycle steps plus any registered challenge id.
+// The `string & {}` member keeps autocomplete for the known literals
+// while allowing custom challenge plugins to introduce their own ids.
+export type LivenessStep =
+  | 'IDLE'
+  | BuiltInChallengeStep
+  | 'SUCCESS'
+  | 'FAILED'
+  | (string & {});
 
 // Steps that can be randomized (after ALIGN which must be first)
 export const RANDOMIZABLE_STEPS: LivenessStep[] = [
@@ -20,10 +51,13 @@ export const RANDOMIZABLE_STEPS: LivenessStep[] = [
 ];
 
 // Generate a randomized step order (ALIGN always first)
-export function generateRandomStepOrder(): LivenessStep[] {
-  const shuffled = [...RANDOMIZABLE_STEPS];
+export function generateRandomStepOrder(
+  steps: LivenessStep[] = RANDOMIZABLE_STEPS,
+  random: () => number = Math.random
+): LivenessStep[] {
+  const shuffled = [...steps];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return ['ALIGN', ...shuffled];
@@ -45,17 +79,6 @@ export interface StepInstruction {
   stepNumber: number;
 }
 
-export const STEP_INSTRUCTIONS: Record<LivenessStep, string> = {
-  IDLE: 'Preparing...',
-  ALIGN: 'Align your face inside the box',
-  BLINK: 'Please blink your eyes',
-  TURN_LEFT: 'Turn your head left',
-  TURN_RIGHT: 'Turn your head right',
-  TURN_UP: 'Tilt your head up',
-  TURN_DOWN: 'Tilt your head down',
-  SUCCESS: 'User face verified successfully',
-};
-
 export interface FaceMetrics {
   boundingBox: BoundingBox;
   yawMetric: number;
@@ -66,6 +89,17 @@ export interface FaceMetrics {
   leftEAR: number;
   rightEAR: number;
   avgEAR: number;
+  mouthWidth: number;
+  lipCurvature: number;
+  mar: number;
+  browHeight: number;
+  headPose: HeadPose3D | null; // PnP fit in degrees; null when it did not converge
+}
+
+// Pixel measurements taken by the caller alongside the landmarks; the engine never reads video.
+// Detector plugins declare the signals they read by augmenting this interface (see src/detectors).
+export interface FrameSignals {
+  reflection?: ReflectionSample | null; // Face and background color while the screen flashes
 }
 
 export interface BoundingBox {
@@ -82,6 +116,11 @@ export interface BaselineMetrics {
   faceWidth: number;
   faceHeight: number;
   openEAR: number;
+  mouthWidth: number;   // Neutral mouth width (normalized)
+  lipCurvature: number; // Neutral lip curvature
+  closedMAR: number;    // Closed-mouth aspect ratio
+  browHeight: number;   // Neutral eyebrow height (normalized)
+  headPose: HeadPose3D | null;
 }
 
 export interface BlinkState {
@@ -95,6 +134,12 @@ export interface BlinkState {
   openFrameCount: number;
   blinkDetected: boolean;
   lastBlinkTime: number;
+  // Per-eye calibration, keyed by the user's own eyes (see toUserEyes)
+  leftEARSamples: number[];
+  rightEARSamples: number[];
+  leftOpenBaseline: number;
+  rightOpenBaseline: number;
+  winkError: 'BOTH_EYES' | 'WRONG_EYE' | null; // Last rejected wink attempt
 }
 
 export interface HeadPoseState {
@@ -102,25 +147,149 @@ export interface HeadPoseState {
   targetReached: boolean;
 }
 
+// Point in the mirrored camera view: x -1 (left) to 1 (right), y -1 (top) to 1 (bottom)
+export interface ViewPoint {
+  x: number;
+  y: number;
+}
+
+// EMA-smoothed signals carried across frames
+export interface SmoothedMetrics {
+  ear: number;
+  leftEAR: number;  // User's left eye
+  rightEAR: number; // User's right eye
+  yaw: number;
+  pitch: number;
+  yawDegrees: number;   // From the 3D head pose
+  pitchDegrees: number;
+  smile: number;
+  brow: number;
+}
+
+export const initialBlinkState: BlinkState = {
+  isCalibrating: true,
+  calibrationFrames: 0,
+  earSamples: [],
+  openEARBaseline: 0,
+  closedThreshold: 0,
+  eyeState: 'UNKNOWN',
+  closedFrameCount: 0,
+  openFrameCount: 0,
+  blinkDetected: false,
+  lastBlinkTime: 0,
+  leftEARSamples: [],
+  rightEARSamples: [],
+  leftOpenBaseline: 0,
+  rightOpenBaseline: 0,
+  winkError: null,
+};
+
+export const initialHeadPoseState: HeadPoseState = {
+  heldFrames: 0,
+  targetReached: false,
+};
+
+export const initialSmoothedMetrics: SmoothedMetrics = {
+  ear: 0,
+  leftEAR: 0,
+  rightEAR: 0,
+  yaw: 0,
+  pitch: 0,
+  yawDegrees: 0,
+  pitchDegrees: 0,
+  smile: 0,
+  brow: 0,
+};
+
+// Ongoing problem that fails the attempt if it persists
+export interface LivenessIssue {
+  reason: Exclude<
+    LivenessFailureReason,
+    'TIMEOUT' | 'CHALLENGE_FAILED' | 'CHALLENGE_EXPIRED' | 'INVALID_CHALLENGE' | 'ABORTED'
+  >;
+  since: number;
+}
+
 export interface LivenessState {
   currentStep: LivenessStep;
   stepOrder: LivenessStep[]; // Randomized step order for this session
+  sessionChallenge: SessionChallenge | null; // Backend-issued challenge driving this session
+  poseSource: PoseSource; // Where the TURN_* steps read yaw/pitch from this session
+  sessionStartedAt: number;
   stepEnteredAt: number;
   stepCompletedAt: number | null;
+  pendingStep: LivenessStep | null; // Next step, entered once the cooldown elapses
   alignedFrameCount: number;
   baselineMetrics: BaselineMetrics | null;
   blinkState: BlinkState;
   headPoseState: HeadPoseState;
+  smoothed: SmoothedMetrics;
+  challengeState: Record<string, unknown>; // State of each challenge plugin, keyed by challenge id
+  metrics: FaceMetrics | null; // Metrics of the last accepted frame
+  antiSpoof: AntiSpoofState;
   yawDeltas: number[];
   pitchDeltas: number[];
   completedSteps: LivenessStep[];
+  stepTimings: StepTiming[]; // Timing of each completed step
+  stepRecord: ActiveStepRecord | null; // Breakdown of the step in progress
+  stepRecords: StepRecord[];           // Breakdown of each completed step
+  failedAttempts: number;
+  issue: LivenessIssue | null;
   isComplete: boolean;
+  failure: LivenessFailure | null;
   error: string | null;
 }
 
+export interface StepTiming {
+  step: LivenessStep;
+  startedAt: number;   // Epoch ms when the (last) attempt started
+  completedAt: number; // Epoch ms
+}
+
+// Per-step breakdown returned with the result
+export interface StepRecord {
+  step: LivenessStep;
+  enteredAt: number;         // Epoch ms of the first attempt
+  completedAt: number;       // Epoch ms
+  attempts: number;          // Including the successful one
+  peakMetric: number | null; // Highest value of the challenge's getMetric, if it reports one
+  errors: string[];          // Distinct error messages shown during the step
+  evidenceFrame?: EvidenceFrame; // Downscaled frame at completion, attached by the UI
+}
+
+export type ActiveStepRecord = Omit<StepRecord, 'completedAt' | 'evidenceFrame'>;
+
+export interface EvidenceFrame {
+  blob: Blob; // JPEG
+  width: number;
+  height: number;
+  capturedAt: number;
+}
+
+// Parameters a backend can pin for individual challenges
+export interface SessionChallengeParams {
+  blinkCount?: number;       // BLINK_N
+  digits?: string;           // SPEAK_DIGITS
+  dotTargets?: ViewPoint[];  // FOLLOW_DOT
+  flashColors?: FlashColor[]; // COLOR_FLASH
+}
+
+// Challenge issued by a backend for one session
+export interface SessionChallenge {
+  nonce: string;
+  steps: LivenessStep[];     // Steps after ALIGN, run in this order without shuffling
+  issuedAt: number;          // Epoch ms
+  expiresAt: number;         // Epoch ms; sessions refuse to start afterwards
+  params?: SessionChallengeParams;
+  keyThumbprint?: string;    // Attestation key registered for this session (RFC 7638)
+}
+
 export interface LivenessResult {
   timestamp: Date;
+  challengeNonce: string | null; // Nonce of the issued challenge, if any
   stepsCompleted: LivenessStep[];
+  stepTimings: StepTiming[];
+  steps: StepRecord[];
   deviceInfo: {
     userAgent: string;
     platform: string;
@@ -128,9 +297,57 @@ export interface LivenessResult {
   metricsSummary: {
     openEAR: number;
     blinkThreshold: number;
-    yawDeltas: number[];
+    yawDeltas: number[];   // Ratios, or degrees when the pose source is '3d'
     pitchDeltas: number[];
   };
+  antiSpoof?: SpoofVerdict; // Fused anti-spoof verdict at completion, with every detector's score
+  cameraTrust?: CameraTrust; // Virtual camera assessment of the stream the session ran on
+  attestation?: LivenessAttestation; // Signed copy of the result, when WebCrypto is available
+  bestFrame?: BestFrame; // Most frontal, sharpest frame of the session
+  recording?: SessionRecording; // Opt-in session video with its step timeline
+}
+
+// Selfie kept from the session for downstream KYC checks
+export interface BestFrame {
+  blob: Blob;                 // JPEG
+  bitmap: ImageBitmap | null; // Null where createImageBitmap is unavailable
+  width: number;
+  height: number;
+  quality: FrameQuality;
+  faceBox: BoundingBox;       // Face bounds in video pixels
+  crop: BoundingBox | null;   // Region of the video frame in the image, null when uncropped
+  capturedAt: number;
+}
+
+export type LivenessFailureReason =
+  | 'TIMEOUT'
+  | 'SPOOF'
+  | 'FACE_LOST'
+  | 'MULTIPLE_FACES'
+  | 'CHALLENGE_FAILED'
+  | 'CHALLENGE_EXPIRED'
+  | 'INVALID_CHALLENGE'
+  | 'ABORTED';
+
+export const FAILURE_MESSAGES: Record<LivenessFailureReason, string> = {
+  TIMEOUT: 'Verification timed out',
+  SPOOF: 'A photo or screen was detected',
+  FACE_LOST: 'Your face left the frame',
+  MULTIPLE_FACES: 'More than one face was detected',
+  CHALLENGE_FAILED: 'The challenge was not completed correctly',
+  CHALLENGE_EXPIRED: 'The verification challenge has expired',
+  INVALID_CHALLENGE: 'The verification challenge is invalid',
+  ABORTED: 'Verification was cancelled',
+};
+
+export interface LivenessFailure {
+  reason: LivenessFailureReason;
+  message: string;
+  step: LivenessStep; // Step that was active when the session failed
+  timestamp: Date;
+  attempts: number;
+  stepsCompleted: LivenessStep[];
+  recording?: SessionRecording; // Opt-in session video with its step timeline
 }
 
 export interface DebugInfo {
@@ -144,16 +361,28 @@ export interface DebugInfo {
   yawDelta: number;
   pitchDelta: number;
   rollMetric: number;
+  headPose: HeadPose3D | null;
   alignedFrames: number;
   heldFrames: number;
+  browRaise: number;
   // Anti-spoof metrics
   depthVariance: number;
   microMovement: number;
+  textureScore: number;
+  texture: TextureMetrics | null;
+  pulse: PulseMetrics | null;
+  spoofVerdict: SpoofVerdict | null;
   spoofScore: number;
   isSpoof: boolean;
 }
 
+// Debug values derived from the liveness state alone
+export type LivenessDebugInfo = Omit<DebugInfo, 'fps' | 'faceDetected' | 'insideGuide'>;
+
 // Configuration constants
+// Where head turn steps read yaw/pitch from: normalized 2D ratios or the 3D fit in degrees
+export type PoseSource = 'ratio' | '3d';
+
 export const CONFIG = {
   // Camera
   IDEAL_WIDTH: 640,
@@ -177,19 +406,105 @@ export const CONFIG = {
   CLOSED_FRAME_THRESHOLD: 2,
   OPEN_FRAME_THRESHOLD: 2,
   BLINK_COOLDOWN_MS: 600,
+
+  // Blink count challenge (BLINK_N)
+  BLINK_N_MIN: 2,
+  BLINK_N_MAX: 4,
+  BLINK_N_SETTLE_MS: 1500, // Quiet time after the last blink before the count is judged
+
+  // Wink detection (the other eye must stay near its open baseline)
+  WINK_OPEN_EYE_RATIO: 0.85,
   
   // EMA smoothing
   EMA_ALPHA: 0.3,
   
+  // Default head pose source for the TURN_* steps; the poseSource option or prop overrides it
+  POSE_SOURCE: 'ratio' as PoseSource,
+
   // Head pose thresholds (normalized)
   YAW_THRESHOLD: 0.09,
   PITCH_THRESHOLD: 0.07,
   ROLL_WARNING_THRESHOLD: 0.15,
   POSE_HELD_FRAMES: 4,
+
+  // Head pose thresholds (degrees, pose source '3d')
+  YAW_THRESHOLD_DEGREES: 15,
+  PITCH_THRESHOLD_DEGREES: 12,
+  ROLL_WARNING_DEGREES: 10,
+
+  // Nod / shake (oscillation in the smoothed pose history)
+  MOTION_WINDOW_MS: 3000,
+  MOTION_MIN_REVERSALS: 2,
+  
+  // Smile detection (score relative to the ALIGN baseline)
+  SMILE_THRESHOLD: 0.15,
+  SMILE_NEUTRAL_THRESHOLD: 0.05,
+  SMILE_HELD_FRAMES: 4,
+  SMILE_NEUTRAL_FRAMES: 3,
+  
+  // Eyebrow raise (brow height delta from the ALIGN baseline)
+  BROW_RAISE_THRESHOLD: 0.06,
+  BROW_RAISE_HELD_FRAMES: 5,
+
+  // Gaze following (FOLLOW_DOT)
+  GAZE_TARGET_COUNT: 3,
+  GAZE_CENTER_MS: 1000,       // Resting gaze calibration on the centered dot
+  GAZE_MIN_SHIFT: 0.15,       // Minimum gaze shift towards the dot (normalized)
+  GAZE_MIN_COSINE: 0.7,       // Gaze shift must point roughly at the dot
+  GAZE_VERTICAL_GAIN: 2,      // Irises travel less vertically than horizontally
+  GAZE_HELD_FRAMES: 3,
+  GAZE_MIN_LATENCY_MS: 100,   // Faster reactions are anticipation, not following
+  GAZE_MAX_LATENCY_MS: 1500,
+
+  // Mouth opening (MAR delta from the closed-mouth baseline)
+  MAR_OPEN_DELTA: 0.3,
+  MOUTH_OPEN_HELD_FRAMES: 5,
+  
+  // Spoken digits (syllable cycles counted from MAR)
+  SPEECH_OPEN_DELTA: 0.12,
+  SPEECH_CLOSE_DELTA: 0.06,
+  SPEECH_WINDOW_MS: 6000,
+  SPEECH_END_SILENCE_MS: 900,
+  SPEECH_MIN_CYCLE_RATIO: 0.6, // Of the expected syllable count
+  SPEECH_MAX_CYCLE_RATIO: 1.5,
+  
+  // Screen flash reflection (COLOR_FLASH)
+  COLOR_FLASH_COUNT: 6,
+  COLOR_FLASH_DURATION_MS: 700,
+  COLOR_FLASH_SETTLE_MS: 300,    // Display and camera exposure lag before samples count
+  COLOR_FLASH_MIN_SAMPLES: 2,    // Per color
+  COLOR_FLASH_MIN_CORRELATION: 0.5,
+  
+  // Best-frame selfie
+  BEST_FRAME_INTERVAL_MS: 250, // Minimum gap between pixel analyses
+  BEST_FRAME_PADDING: 0.3,     // Crop padding as a ratio of the face box
+  BEST_FRAME_JPEG_QUALITY: 0.92,
+  
+  // Per-step evidence frames
+  EVIDENCE_FRAME_WIDTH: 160,
+  EVIDENCE_FRAME_JPEG_QUALITY: 0.7,
+  
+  // Texture (screen / print) analysis
+  TEXTURE_ANALYSIS_INTERVAL_MS: 250,
+  
+  // Session recording (opt-in)
+  RECORDING_BITRATE: 1_000_000,
+  RECORDING_MAX_BYTES: 25 * 1024 * 1024,
+  RECORDING_TIMESLICE_MS: 1000,
   
   // Step transitions
   STEP_COOLDOWN_MS: 500,
   
+  // Timeouts and retry budget
+  STEP_TIMEOUT_MS: 20000,
+  SESSION_TIMEOUT_MS: 120000,
+  MAX_ATTEMPTS: 3,
+  
+  // How long a problem may persist before the attempt fails
+  FACE_LOST_TIMEOUT_MS: 3000,
+  MULTIPLE_FACES_TIMEOUT_MS: 1500,
+  SPOOF_TIMEOUT_MS: 4000,
+  
   // Face size bounds (ratio to guide box)
   MIN_FACE_RATIO: 0.3,
   MAX_FACE_RATIO: 0.95,
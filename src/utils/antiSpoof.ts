@@ -2,44 +2,46 @@
 // Detects photo attacks, screen presentations, and other spoofing attempts
 
 import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { FrameSignals } from '@/types/liveness';
+import type {
+  AntiSpoofDetector,
+  AntiSpoofPolicy,
+  DetectorVerdict,
+  FrameContext,
+  SpoofVerdict,
+} from '@/detectors/types';
+import { getRegisteredDetectors } from '@/detectors/registry';
 
 export interface AntiSpoofState {
-  frameHistory: FrameSnapshot[];
-  depthVariances: number[];
-  movementScores: number[];
+  frameHistory: FrameSnapshot[];  // Shared by all detectors
+  detectorState: Record<string, unknown>; // Each detector's own state, keyed by detector id
+  verdict: SpoofVerdict | null;   // Fused detector verdict, once enough frames were seen
   spoofScore: number;
   isSpoof: boolean;
   reason: string | null;
 }
 
-interface FrameSnapshot {
+export interface FrameSnapshot {
   timestamp: number;
   centerX: number;
   centerY: number;
   faceWidth: number;
   avgZ: number;
   zVariance: number;
+  movement: number | null; // Micro-movement since the previous frame; null for the first frame
 }
 
+// Per-detector thresholds and weights live with the detectors in src/detectors
 const ANTI_SPOOF_CONFIG = {
   // History settings
   MAX_HISTORY_FRAMES: 30,
   MIN_FRAMES_FOR_CHECK: 10,
   
-  // Depth analysis (photos are flat, no z-variance)
-  MIN_DEPTH_VARIANCE: 0.5, // Minimum z-variance for real face
-  DEPTH_CHECK_WEIGHT: 0.4,
-  
-  // Micro-movement analysis (real faces have subtle movements)
-  MIN_MICRO_MOVEMENT: 0.3, // Minimum movement score
-  MOVEMENT_CHECK_WEIGHT: 0.3,
-  
-  // Frame-to-frame consistency
-  MAX_STATIC_FRAMES: 20, // Max frames with no movement = suspicious
-  STATIC_CHECK_WEIGHT: 0.3,
-  
   // Final threshold
   SPOOF_THRESHOLD: 0.6, // Above this = likely spoof
+  
+  // Score x confidence at which a vetoing detector flags a spoof on its own
+  VETO_MIN_EVIDENCE: 0.5,
 };
 
 /**
@@ -48,8 +50,8 @@ const ANTI_SPOOF_CONFIG = {
 export function createAntiSpoofState(): AntiSpoofState {
   return {
     frameHistory: [],
-    depthVariances: [],
-    movementScores: [],
+    detectorState: {},
+    verdict: null,
     spoofScore: 0,
     isSpoof: false,
     reason: null,
@@ -89,7 +91,7 @@ function calculateAverageZ(face: Face): number {
  * Calculate micro-movement between frames
  * Real faces have natural micro-movements, photos don't
  */
-function calculateMicroMovement(current: FrameSnapshot, previous: FrameSnapshot): number {
+function calculateMicroMovement(current: Omit<FrameSnapshot, 'movement'>, previous: FrameSnapshot): number {
   const dx = Math.abs(current.centerX - previous.centerX);
   const dy = Math.abs(current.centerY - previous.centerY);
   const dWidth = Math.abs(current.faceWidth - previous.faceWidth);
@@ -106,7 +108,7 @@ function calculateMicroMovement(current: FrameSnapshot, previous: FrameSnapshot)
 /**
  * Create a frame snapshot from face detection
  */
-function createFrameSnapshot(face: Face): FrameSnapshot {
+function createFrameSnapshot(face: Face, now: number, previous: FrameSnapshot | undefined): FrameSnapshot {
   const keypoints = face.keypoints;
   
   let minX = Infinity, maxX = -Infinity;
@@ -122,24 +124,41 @@ function createFrameSnapshot(face: Face): FrameSnapshot {
     sumY += kp.y;
   }
   
-  return {
-    timestamp: Date.now(),
+  const snapshot = {
+    timestamp: now,
     centerX: sumX / keypoints.length,
     centerY: sumY / keypoints.length,
     faceWidth: maxX - minX,
     avgZ: calculateAverageZ(face),
     zVariance: calculateDepthVariance(face),
   };
+  
+  return { ...snapshot, movement: previous ? calculateMicroMovement(snapshot, previous) : null };
+}
+
+/**
+ * Contents of a detector's state slot, created on first use
+ */
+export function getDetectorState<S>(state: AntiSpoofState, detector: AntiSpoofDetector<S>): S {
+  return (detector.id in state.detectorState
+    ? state.detectorState[detector.id]
+    : detector.createState?.()) as S;
 }
 
 /**
- * Update anti-spoof state with new face detection
+ * Update anti-spoof state with a new face detection, this frame's pixel signals and
+ * the session context, then fuse the verdicts of the enabled detectors
  */
 export function updateAntiSpoofState(
   state: AntiSpoofState,
-  face: Face
+  face: Face,
+  now: number = Date.now(),
+  signals: FrameSignals = {},
+  policy: AntiSpoofPolicy = {},
+  frame: FrameContext = {}
 ): AntiSpoofState {
-  const snapshot = createFrameSnapshot(face);
+  const previous = state.frameHistory[state.frameHistory.length - 1];
+  const snapshot = createFrameSnapshot(face, now, previous);
   const newHistory = [...state.frameHistory, snapshot];
   
   // Keep only recent frames
@@ -147,90 +166,113 @@ export function updateAntiSpoofState(
     newHistory.shift();
   }
   
-  // Store depth variance
-  const newDepthVariances = [...state.depthVariances, snapshot.zVariance];
-  if (newDepthVariances.length > ANTI_SPOOF_CONFIG.MAX_HISTORY_FRAMES) {
-    newDepthVariances.shift();
-  }
+  let next: AntiSpoofState = { ...state, frameHistory: newHistory };
   
-  // Calculate movement if we have previous frame
-  let newMovementScores = [...state.movementScores];
-  if (state.frameHistory.length > 0) {
-    const prevSnapshot = state.frameHistory[state.frameHistory.length - 1];
-    const movement = calculateMicroMovement(snapshot, prevSnapshot);
-    newMovementScores.push(movement);
-    
-    if (newMovementScores.length > ANTI_SPOOF_CONFIG.MAX_HISTORY_FRAMES) {
-      newMovementScores.shift();
+  // Each detector reads the shared history and updates only its own slot
+  const detectors = getEnabledDetectors(policy);
+  const ctx = {
+    face,
+    state: next,
+    now,
+    signals,
+    step: frame.step ?? null,
+    headPose: frame.headPose ?? null,
+  };
+  const detectorState = { ...state.detectorState };
+  for (const { detector } of detectors) {
+    if (detector.update) {
+      detectorState[detector.id] = detector.update(ctx, getDetectorState(next, detector));
     }
   }
+  next = { ...next, detectorState };
   
   // Check if we have enough data to analyze
   if (newHistory.length < ANTI_SPOOF_CONFIG.MIN_FRAMES_FOR_CHECK) {
-    return {
-      ...state,
-      frameHistory: newHistory,
-      depthVariances: newDepthVariances,
-      movementScores: newMovementScores,
-    };
+    return next;
   }
   
-  // Analyze spoof indicators
-  const { spoofScore, isSpoof, reason } = analyzeSpoof(
-    newDepthVariances,
-    newMovementScores
-  );
+  const verdict = fuseDetectors(next, detectors, policy.threshold ?? ANTI_SPOOF_CONFIG.SPOOF_THRESHOLD);
   
   return {
-    frameHistory: newHistory,
-    depthVariances: newDepthVariances,
-    movementScores: newMovementScores,
-    spoofScore,
-    isSpoof,
-    reason,
+    ...next,
+    verdict,
+    spoofScore: verdict.score,
+    isSpoof: verdict.isSpoof,
+    reason: verdict.reasons[0] ?? null,
   };
 }
 
 /**
- * Analyze collected data for spoof indicators
+ * Registered detectors that the policy leaves enabled, with the policy's overrides applied
  */
-function analyzeSpoof(
-  depthVariances: number[],
-  movementScores: number[]
-): { spoofScore: number; isSpoof: boolean; reason: string | null } {
-  let totalScore = 0;
-  let reasons: string[] = [];
-  
-  // 1. Depth variance check - photos are flat
-  const avgDepthVariance = depthVariances.reduce((a, b) => a + b, 0) / depthVariances.length;
-  if (avgDepthVariance < ANTI_SPOOF_CONFIG.MIN_DEPTH_VARIANCE) {
-    totalScore += ANTI_SPOOF_CONFIG.DEPTH_CHECK_WEIGHT;
-    reasons.push('Flat face detected (no depth)');
-  }
-  
-  // 2. Micro-movement check - photos don't move naturally
-  if (movementScores.length > 5) {
-    const avgMovement = movementScores.reduce((a, b) => a + b, 0) / movementScores.length;
-    if (avgMovement < ANTI_SPOOF_CONFIG.MIN_MICRO_MOVEMENT / 100) {
-      totalScore += ANTI_SPOOF_CONFIG.MOVEMENT_CHECK_WEIGHT;
-      reasons.push('No natural micro-movements');
-    }
-  }
+function getEnabledDetectors(policy: AntiSpoofPolicy): { detector: AntiSpoofDetector; weight: number; veto: boolean }[] {
+  return getRegisteredDetectors()
+    .filter(detector => policy.detectors?.[detector.id]?.enabled !== false)
+    .map(detector => {
+      const settings = policy.detectors?.[detector.id];
+      return {
+        detector,
+        weight: settings?.weight ?? detector.weight,
+        veto: settings?.veto ?? detector.veto ?? false,
+      };
+    });
+}
+
+/**
+ * Combine the detector results into one verdict.
+ * Each detector adds weight x score x confidence to the fused score; a vetoing detector
+ * whose own evidence reaches VETO_MIN_EVIDENCE flags a spoof whatever the total.
+ */
+function fuseDetectors(
+  state: AntiSpoofState,
+  detectors: ReturnType<typeof getEnabledDetectors>,
+  threshold: number
+): SpoofVerdict {
+  const verdicts: DetectorVerdict[] = detectors.map(({ detector, weight, veto }) => {
+    const result = detector.evaluate(getDetectorState(state, detector), state);
+    return {
+      id: detector.id,
+      label: detector.label,
+      ...result,
+      weight,
+      contribution: weight * result.score * result.confidence,
+      veto,
+    };
+  });
   
-  // 3. Static frame check - too still = suspicious
-  if (movementScores.length >= ANTI_SPOOF_CONFIG.MAX_STATIC_FRAMES) {
-    const recentMovements = movementScores.slice(-ANTI_SPOOF_CONFIG.MAX_STATIC_FRAMES);
-    const staticFrames = recentMovements.filter(m => m < 0.001).length;
-    if (staticFrames > ANTI_SPOOF_CONFIG.MAX_STATIC_FRAMES * 0.8) {
-      totalScore += ANTI_SPOOF_CONFIG.STATIC_CHECK_WEIGHT;
-      reasons.push('Face too static');
-    }
-  }
+  const score = verdicts.reduce((sum, v) => sum + v.contribution, 0);
+  const vetoing = verdicts.find(
+    v => v.veto && v.score * v.confidence >= ANTI_SPOOF_CONFIG.VETO_MIN_EVIDENCE
+  );
   
-  const isSpoof = totalScore >= ANTI_SPOOF_CONFIG.SPOOF_THRESHOLD;
-  const reason = reasons.length > 0 ? reasons[0] : null;
+  // Vetoing detector first, then by contribution; the sort is stable so ties keep detector order
+  const reasons = [...verdicts]
+    .filter(v => v.contribution > 0 || v === vetoing)
+    .sort((a, b) => Number(b === vetoing) - Number(a === vetoing) || b.contribution - a.contribution)
+    .flatMap(v => v.reasons);
   
-  return { spoofScore: totalScore, isSpoof, reason };
+  return {
+    score,
+    threshold,
+    isSpoof: !!vetoing || score >= threshold,
+    vetoedBy: vetoing?.id ?? null,
+    reasons,
+    detectors: verdicts,
+  };
+}
+
+/**
+ * Landmark depth variance of each frame in the history
+ */
+export function getDepthVariances(frameHistory: FrameSnapshot[]): number[] {
+  return frameHistory.map(snapshot => snapshot.zVariance);
+}
+
+/**
+ * Micro-movement between consecutive frames in the history
+ */
+export function getMovementScores(frameHistory: FrameSnapshot[]): number[] {
+  return frameHistory.map(snapshot => snapshot.movement).filter((m): m is number => m !== null);
 }
 
 /**
@@ -247,21 +289,25 @@ export function getAntiSpoofDebugInfo(state: AntiSpoofState): {
   frameCount: number;
   avgDepthVariance: number;
   avgMovement: number;
+  verdict: SpoofVerdict | null;
   spoofScore: number;
   isSpoof: boolean;
 } {
-  const avgDepthVariance = state.depthVariances.length > 0
-    ? state.depthVariances.reduce((a, b) => a + b, 0) / state.depthVariances.length
+  const depthVariances = getDepthVariances(state.frameHistory);
+  const avgDepthVariance = depthVariances.length > 0
+    ? depthVariances.reduce((a, b) => a + b, 0) / depthVariances.length
     : 0;
   
-  const avgMovement = state.movementScores.length > 0
-    ? state.movementScores.reduce((a, b) => a + b, 0) / state.movementScores.length
+  const movementScores = getMovementScores(state.frameHistory);
+  const avgMovement = movementScores.length > 0
+    ? movementScores.reduce((a, b) => a + b, 0) / movementScores.length
     : 0;
   
   return {
     frameCount: state.frameHistory.length,
     avgDepthVariance,
     avgMovement,
+    verdict: state.verdict,
     spoofScore: state.spoofScore,
     isSpoof: state.isSpoof,
   };
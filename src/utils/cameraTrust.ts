@@ -0,0 +1,100 @@
+// Camera trust - spots virtual cameras that inject pre-recorded footage into getUserMedia
+// Virtual cameras register as ordinary video devices, but most keep their product name in the
+// device label. Unnamed ones still tend to lack what real sensors have: a range of frame rates
+// and exposure controls.
+
+export type CameraTrustLevel = 'trusted' | 'suspicious' | 'virtual';
+
+export interface CameraTrust {
+  level: CameraTrustLevel;
+  score: number;            // Likelihood that the stream is injected (0-1)
+  label: string;            // Device label as reported by the browser
+  signature: string | null; // Virtual camera product the label matched
+  reasons: string[];        // Why the score is raised; empty when it is not
+}
+
+// Numeric capability range as reported by MediaStreamTrack.getCapabilities()
+interface CapabilityRange {
+  min?: number;
+  max?: number;
+}
+
+// The capabilities read here; the exposure controls come from the Image Capture extensions
+export interface CameraCapabilities {
+  frameRate?: CapabilityRange;
+  exposureMode?: string[];
+  exposureTime?: CapabilityRange;
+}
+
+// What the browser tells about the camera, gathered by useCamera
+export interface CameraDescription {
+  label: string;
+  frameRate: number | null;                // MediaStreamTrack.getSettings().frameRate
+  capabilities: CameraCapabilities | null; // Null where getCapabilities() is not supported
+  exposureControlsSupported: boolean;      // Whether the browser reports exposure controls at all
+}
+
+/**
+ * Known virtual camera products, matched against the device label in order.
+ * Patterns match the product name as the driver reports it, not loose words like "virtual",
+ * since a match flags the session on its own.
+ */
+export const VIRTUAL_CAMERA_SIGNATURES: { name: string; pattern: RegExp }[] = [
+  { name: 'OBS Virtual Camera', pattern: /\bOBS[ -](Virtual )?Cam(era)?\b/i },
+  { name: 'ManyCam', pattern: /\bManyCam\b/i },
+  { name: 'Snap Camera', pattern: /\bSnap Camera\b/i },
+  { name: 'XSplit VCam', pattern: /\bXSplit VCam\b/i },
+  { name: 'SplitCam', pattern: /\bSplitCam\b/i },
+  { name: 'CyberLink YouCam', pattern: /\bYouCam\b/i },
+  { name: 'iVCam', pattern: /\biVCam\b/i },
+  { name: 'e2eSoft VCam', pattern: /\be2eSoft VCam\b/i },
+  { name: 'DroidCam', pattern: /\bDroidCam\b/i },
+  { name: 'AlterCam', pattern: /\bAlterCam\b/i },
+  { name: 'CamTwist', pattern: /\bCamTwist\b/i },
+  { name: 'Webcamoid', pattern: /\bWebcamoid\b/i },
+  { name: 'Streamlabs', pattern: /\bStreamlabs (OBS )?Virtual Webcam\b/i },
+  { name: 'vMix', pattern: /\bvMix Video\b/i },
+  { name: 'NDI', pattern: /\b(NDI Webcam( Input)?|NewTek NDI Video)\b/i },
+  { name: 'mmhmm', pattern: /\bmmhmm( Camera)?\b/i },
+  { name: 'Unity Capture', pattern: /\bUnity Video Capture\b/i },
+  { name: 'v4l2loopback', pattern: /\bv4l2loopback\b|^Dummy video device\b/i },
+  { name: 'Browser fake device', pattern: /^fake_device_\d+$/i },
+];
+
+export const CAMERA_TRUST_CONFIG = {
+  // Score added by each suspicious characteristic of an unnamed camera
+  TRAIT_SCORE: 0.35,
+} as const;
+
+/**
+ * Assess whether the camera is a physical sensor or a virtual one injecting a stream.
+ * A known virtual camera label scores 1; otherwise each suspicious characteristic adds
+ * CAMERA_TRUST_CONFIG.TRAIT_SCORE, since some real cameras show one of them too.
+ */
+export function assessCameraTrust({
+  label,
+  frameRate,
+  capabilities,
+  exposureControlsSupported,
+}: CameraDescription): CameraTrust {
+  const signature = VIRTUAL_CAMERA_SIGNATURES.find(({ pattern }) => pattern.test(label))?.name ?? null;
+  if (signature) {
+    return { level: 'virtual', score: 1, label, signature, reasons: [`Virtual camera detected (${signature})`] };
+  }
+
+  const reasons: string[] = [];
+
+  // A sensor offers a range of frame rates; a source rendering on a timer offers exactly one
+  const range = capabilities?.frameRate;
+  if (range?.min !== undefined && range.min === range.max && range.max === frameRate) {
+    reasons.push('Camera reports a single fixed frame rate');
+  }
+
+  // Only judged where the browser would have reported the controls of a real sensor
+  if (capabilities && exposureControlsSupported && !capabilities.exposureMode && !capabilities.exposureTime) {
+    reasons.push('Camera has no exposure controls');
+  }
+
+  const score = Math.min(1, reasons.length * CAMERA_TRUST_CONFIG.TRAIT_SCORE);
+  return { level: reasons.length > 0 ? 'suspicious' : 'trusted', score, label, signature: null, reasons };
+}
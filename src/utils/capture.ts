@@ -0,0 +1,38 @@
+// Video frame capture helpers
+
+export interface CapturedImage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+/**
+ * Encode a canvas as JPEG
+ */
+export function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob | null> {
+  return new Promise((resolve) => canvas.toBlob(resolve, 'image/jpeg', quality));
+}
+
+/**
+ * Downscaled JPEG of the current video frame, or null if unavailable
+ * The frame is drawn synchronously, so later video frames do not leak in while encoding
+ */
+export async function captureVideoFrame(
+  video: HTMLVideoElement,
+  width: number,
+  quality: number
+): Promise<CapturedImage | null> {
+  if (video.videoWidth === 0) return null;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.min(width, video.videoWidth);
+  canvas.height = Math.round(canvas.width * (video.videoHeight / video.videoWidth));
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+
+  ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+
+  const blob = await canvasToBlob(canvas, quality);
+  return blob ? { blob, width: canvas.width, height: canvas.height } : null;
+}
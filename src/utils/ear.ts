@@ -77,6 +77,15 @@ export function calculateAverageEAR(face: Face): { left: number; right: number;
   return { left, right, avg };
 }
 
+/**
+ * Map image-space EARs to the user's own eyes
+ * Landmarks are named from the camera's point of view, so the user's left eye
+ * is the image-right one (same convention as calculateYawMetric)
+ */
+export function toUserEyes(imageLeftEAR: number, imageRightEAR: number): { left: number; right: number } {
+  return { left: imageRightEAR, right: imageLeftEAR };
+}
+
 /**
  * Determine eye state based on EAR and threshold
  */
@@ -0,0 +1,46 @@
+// Eyebrow height calculation for eyebrow-raise detection
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { getLandmark, getInterOcularDistance, LANDMARK_INDICES } from './landmarks';
+
+/**
+ * Vertical distance from one eyebrow to its eye center
+ * Eye center is taken from the corners, which stay put while the lids move
+ */
+function calculateSingleBrowHeight(face: Face, brow: number[], inner: number, outer: number): number {
+  const browY = brow.reduce((sum, index) => sum + getLandmark(face, index)[1], 0) / brow.length;
+  const eyeY = (getLandmark(face, inner)[1] + getLandmark(face, outer)[1]) / 2;
+
+  return eyeY - browY;
+}
+
+/**
+ * Calculate average eyebrow height normalized by inter-ocular distance
+ * Higher = eyebrows further above the eyes
+ */
+export function calculateBrowHeight(face: Face): number {
+  const interOcular = getInterOcularDistance(face);
+  if (interOcular === 0) return 0;
+
+  const left = calculateSingleBrowHeight(
+    face,
+    LANDMARK_INDICES.LEFT_EYEBROW,
+    LANDMARK_INDICES.LEFT_EYE_INNER,
+    LANDMARK_INDICES.LEFT_EYE_OUTER
+  );
+  const right = calculateSingleBrowHeight(
+    face,
+    LANDMARK_INDICES.RIGHT_EYEBROW,
+    LANDMARK_INDICES.RIGHT_EYE_INNER,
+    LANDMARK_INDICES.RIGHT_EYE_OUTER
+  );
+
+  return (left + right) / 2 / interOcular;
+}
+
+/**
+ * Eyebrow raise relative to the neutral baseline
+ */
+export function getBrowRaise(currentHeight: number, baselineHeight: number): number {
+  return currentHeight - baselineHeight;
+}
@@ -0,0 +1,146 @@
+// Frame quality scoring for picking the best selfie of a session
+// Landmark scores (pose, eyes) are cheap; pixel scores (sharpness, lighting) need image data
+
+import type { PoseMetrics } from './pose';
+
+export interface FrameQuality {
+  pose: number;      // 1 = perfectly frontal
+  eyes: number;      // 1 = eyes fully open
+  sharpness: number; // 1 = crisp edges
+  lighting: number;  // 1 = mid-grey exposure with healthy contrast
+  score: number;     // Weighted total (0-1)
+}
+
+export interface PixelQuality {
+  sharpness: number;
+  lighting: number;
+  brightness: number; // Mean luma (0-1)
+  contrast: number;   // Luma standard deviation (0-1)
+}
+
+// Minimal ImageData shape so analysis can run without a DOM
+export interface PixelBuffer {
+  data: ArrayLike<number>; // RGBA
+  width: number;
+  height: number;
+}
+
+export const FRAME_QUALITY_CONFIG = {
+  // Pose deltas at which the pose score reaches zero
+  MAX_YAW: 0.15,
+  MAX_PITCH: 0.1,
+  MAX_ROLL: 0.3,
+
+  // EAR used when no open-eye baseline is available yet
+  DEFAULT_OPEN_EAR: 0.28,
+
+  // Laplacian variance treated as fully sharp
+  SHARPNESS_REFERENCE: 150,
+
+  // Luma standard deviation treated as full contrast
+  CONTRAST_REFERENCE: 0.15,
+
+  WEIGHTS: {
+    pose: 0.35,
+    eyes: 0.2,
+    sharpness: 0.25,
+    lighting: 0.2,
+  },
+} as const;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Frontal pose score; pitch is compared to the ALIGN baseline since a frontal face has a non-zero pitch metric
+ */
+export function scorePose(pose: PoseMetrics, baselinePitch?: number): number {
+  const yaw = 1 - clamp01(Math.abs(pose.yawMetric) / FRAME_QUALITY_CONFIG.MAX_YAW);
+  const pitch = baselinePitch === undefined
+    ? 1
+    : 1 - clamp01(Math.abs(pose.pitchMetric - baselinePitch) / FRAME_QUALITY_CONFIG.MAX_PITCH);
+  const roll = 1 - clamp01(Math.abs(pose.rollMetric) / FRAME_QUALITY_CONFIG.MAX_ROLL);
+
+  return yaw * pitch * roll;
+}
+
+/**
+ * Eyes-open score from the average EAR relative to the user's open-eye EAR
+ */
+export function scoreEyes(ear: number, openEAR?: number): number {
+  const reference = openEAR && openEAR > 0 ? openEAR : FRAME_QUALITY_CONFIG.DEFAULT_OPEN_EAR;
+  return clamp01(ear / reference);
+}
+
+/**
+ * Sharpness (variance of the Laplacian) and exposure of an RGBA buffer
+ */
+export function analyzePixelQuality({ data, width, height }: PixelBuffer): PixelQuality {
+  if (width < 3 || height < 3) {
+    return { sharpness: 0, lighting: 0, brightness: 0, contrast: 0 };
+  }
+
+  const luma = new Float32Array(width * height);
+  let sum = 0;
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    luma[i] = (0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2]) / 255;
+    sum += luma[i];
+  }
+
+  const brightness = sum / luma.length;
+  let variance = 0;
+  for (let i = 0; i < luma.length; i++) {
+    variance += (luma[i] - brightness) ** 2;
+  }
+  const contrast = Math.sqrt(variance / luma.length);
+
+  // 4-neighbour Laplacian on 0-255 luma
+  let lapSum = 0;
+  let lapSqSum = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const lap = (luma[i - 1] + luma[i + 1] + luma[i - width] + luma[i + width] - 4 * luma[i]) * 255;
+      lapSum += lap;
+      lapSqSum += lap * lap;
+      count++;
+    }
+  }
+  const lapMean = lapSum / count;
+  const lapVariance = lapSqSum / count - lapMean * lapMean;
+
+  // Exposure peaks at mid-grey; flat images are penalised even when well exposed
+  const exposure = 1 - clamp01(Math.abs(brightness - 0.5) / 0.4);
+
+  return {
+    sharpness: clamp01(lapVariance / FRAME_QUALITY_CONFIG.SHARPNESS_REFERENCE),
+    lighting: exposure * clamp01(contrast / FRAME_QUALITY_CONFIG.CONTRAST_REFERENCE),
+    brightness,
+    contrast,
+  };
+}
+
+/**
+ * Weighted total of the individual quality scores
+ */
+export function combineFrameQuality(
+  scores: Pick<FrameQuality, 'pose' | 'eyes' | 'sharpness' | 'lighting'>
+): FrameQuality {
+  const { WEIGHTS } = FRAME_QUALITY_CONFIG;
+  const score =
+    scores.pose * WEIGHTS.pose +
+    scores.eyes * WEIGHTS.eyes +
+    scores.sharpness * WEIGHTS.sharpness +
+    scores.lighting * WEIGHTS.lighting;
+
+  return { ...scores, score };
+}
+
+/**
+ * Highest total a frame can reach given its landmark scores; lets callers skip pixel reads
+ */
+export function maxFrameQuality(pose: number, eyes: number): number {
+  const { WEIGHTS } = FRAME_QUALITY_CONFIG;
+  return pose * WEIGHTS.pose + eyes * WEIGHTS.eyes + WEIGHTS.sharpness + WEIGHTS.lighting;
+}
@@ -0,0 +1,83 @@
+// Iris-based gaze estimation (requires refineLandmarks)
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { ViewPoint } from '@/types/liveness';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+// Keypoint count with iris landmarks (468 mesh + 10 iris)
+const REFINED_KEYPOINT_COUNT = 478;
+
+/**
+ * Iris position inside one eye socket, normalized by half the eye width
+ * 0 = centered between the corners, ±1 = at a corner
+ */
+function calculateIrisOffset(face: Face, iris: number, inner: number, outer: number): ViewPoint {
+  const irisCenter = getLandmark(face, iris);
+  const innerCorner = getLandmark(face, inner);
+  const outerCorner = getLandmark(face, outer);
+
+  const halfWidth = Math.abs(innerCorner[0] - outerCorner[0]) / 2;
+  if (halfWidth === 0) return { x: 0, y: 0 };
+
+  return {
+    x: (irisCenter[0] - (innerCorner[0] + outerCorner[0]) / 2) / halfWidth,
+    y: (irisCenter[1] - (innerCorner[1] + outerCorner[1]) / 2) / halfWidth,
+  };
+}
+
+/**
+ * Check whether the face carries iris landmarks
+ */
+export function hasIrisLandmarks(face: Face): boolean {
+  return face.keypoints.length >= REFINED_KEYPOINT_COUNT;
+}
+
+/**
+ * Calculate normalized gaze from both irises, or null without iris landmarks
+ * Returned in view coordinates: negative x = looking at the left of the
+ * mirrored screen, negative y = looking up
+ */
+export function calculateGazeMetrics(face: Face): ViewPoint | null {
+  if (!hasIrisLandmarks(face)) return null;
+
+  const left = calculateIrisOffset(
+    face,
+    LANDMARK_INDICES.LEFT_IRIS_CENTER,
+    LANDMARK_INDICES.LEFT_EYE_INNER,
+    LANDMARK_INDICES.LEFT_EYE_OUTER
+  );
+  const right = calculateIrisOffset(
+    face,
+    LANDMARK_INDICES.RIGHT_IRIS_CENTER,
+    LANDMARK_INDICES.RIGHT_EYE_INNER,
+    LANDMARK_INDICES.RIGHT_EYE_OUTER
+  );
+
+  // Invert x because the camera view is mirrored (same as calculateYawMetric)
+  return {
+    x: -(left.x + right.x) / 2,
+    y: (left.y + right.y) / 2,
+  };
+}
+
+/**
+ * Check whether a gaze shift (relative to the resting gaze) points at a target
+ * Vertical shifts are scaled up since irises travel less vertically
+ */
+export function isGazeTowards(
+  shift: ViewPoint,
+  target: ViewPoint,
+  minShift: number,
+  minCosine: number,
+  verticalGain: number = 1
+): boolean {
+  const sx = shift.x;
+  const sy = shift.y * verticalGain;
+  const shiftLength = Math.sqrt(sx * sx + sy * sy);
+  const targetLength = Math.sqrt(target.x * target.x + target.y * target.y);
+
+  if (shiftLength < minShift || targetLength === 0) return false;
+
+  const cosine = (sx * target.x + sy * target.y) / (shiftLength * targetLength);
+  return cosine >= minCosine;
+}
@@ -0,0 +1,206 @@
+// 3D head pose estimation - fits the landmarks to a canonical face model (PnP)
+// Angles are in degrees and do not depend on face shape the way the 2D ratios in pose.ts do
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+export interface HeadPose3D {
+  yaw: number;   // Degrees, negative = left, positive = right (user's perspective, like yawMetric)
+  pitch: number; // Degrees, negative = up, positive = down
+  roll: number;  // Degrees, positive = clockwise in the image
+  translation: { x: number; y: number; z: number }; // Model origin in camera space (mm)
+  reprojectionError: number; // RMS distance between the fitted model and the landmarks (px)
+}
+
+// Pinhole camera; focal length and principal point in pixels
+export interface CameraIntrinsics {
+  focalLength: number;
+  cx: number;
+  cy: number;
+}
+
+type Vec3 = [number, number, number];
+
+/**
+ * Rigid landmarks of MediaPipe's canonical face model (canonical_face_model.obj, the mesh
+ * the face landmark model is fitted to), converted from cm to mm and moved so the origin
+ * sits between the inner eye corners.
+ * Axes follow the camera: x to image-right, y down, z away from the camera.
+ * Eyelids, lips and the chin are left out since expressions move them.
+ */
+const CANONICAL_MODEL: { index: number; point: Vec3 }[] = [
+  { index: LANDMARK_INDICES.NOSE_TIP, point: [0, 37.1, -37.2] },
+  { index: LANDMARK_INDICES.NOSE_BRIDGE, point: [0, 1.1, -20.3] },
+  { index: LANDMARK_INDICES.LEFT_EYE_OUTER, point: [-44.5, -0.8, 5.8] },
+  { index: LANDMARK_INDICES.LEFT_EYE_INNER, point: [-18.6, 0, 0] },
+  { index: LANDMARK_INDICES.RIGHT_EYE_OUTER, point: [44.5, -0.8, 5.8] },
+  { index: LANDMARK_INDICES.RIGHT_EYE_INNER, point: [18.6, 0, 0] },
+  { index: LANDMARK_INDICES.FOREHEAD, point: [0, -56.8, -7.2] },
+  { index: LANDMARK_INDICES.LEFT_CHEEK, point: [-76.6, 19.1, 61.9] },
+  { index: LANDMARK_INDICES.RIGHT_CHEEK, point: [76.6, 19.1, 61.9] },
+];
+
+// Distance between the outer eye corners in the model, used to guess the initial depth
+const MODEL_EYE_SPAN = 89;
+
+const MAX_ITERATIONS = 30;
+const CONVERGENCE_EPSILON = 1e-6;
+const TO_DEGREES = 180 / Math.PI;
+
+/**
+ * Guess the camera from the frame size; webcams have roughly a 55 degree horizontal field of view
+ */
+export function estimateCameraIntrinsics(frameWidth: number, frameHeight: number): CameraIntrinsics {
+  return { focalLength: frameWidth, cx: frameWidth / 2, cy: frameHeight / 2 };
+}
+
+/**
+ * Rotation applied in yaw, pitch, roll order (R = Rroll * Rpitch * Ryaw)
+ */
+function rotate([x, y, z]: Vec3, yaw: number, pitch: number, roll: number): Vec3 {
+  const [cy, sy] = [Math.cos(yaw), Math.sin(yaw)];
+  const [cp, sp] = [Math.cos(pitch), Math.sin(pitch)];
+  const [cr, sr] = [Math.cos(roll), Math.sin(roll)];
+
+  // Positive yaw moves the nose (negative z) to image-left
+  const x1 = x * cy + z * sy;
+  const z1 = -x * sy + z * cy;
+  // Positive pitch moves the nose down
+  const y2 = y * cp - z1 * sp;
+  const z2 = y * sp + z1 * cp;
+
+  return [x1 * cr - y2 * sr, x1 * sr + y2 * cr, z2];
+}
+
+/**
+ * Image-space residuals of the model under pose `params` (yaw, pitch, roll, tx, ty, tz)
+ */
+function residuals(params: number[], observed: [number, number][], camera: CameraIntrinsics): number[] {
+  const [yaw, pitch, roll, tx, ty, tz] = params;
+  const out: number[] = [];
+
+  CANONICAL_MODEL.forEach(({ point }, i) => {
+    const [x, y, z] = rotate(point, yaw, pitch, roll);
+    const depth = Math.max(z + tz, 1e-3);
+    out.push(
+      camera.focalLength * (x + tx) / depth + camera.cx - observed[i][0],
+      camera.focalLength * (y + ty) / depth + camera.cy - observed[i][1]
+    );
+  });
+
+  return out;
+}
+
+const sumOfSquares = (values: number[]) => values.reduce((sum, v) => sum + v * v, 0);
+
+/**
+ * Solve the 6x6 system A x = b by Gaussian elimination with partial pivoting
+ */
+function solveLinear(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Estimate the head pose from the 2D landmarks with a Levenberg-Marquardt PnP fit.
+ * Returns null when the landmarks are missing or the fit does not converge to a finite pose.
+ */
+export function estimateHeadPose3D(face: Face, camera: CameraIntrinsics): HeadPose3D | null {
+  if (face.keypoints.length < 468) return null;
+
+  const observed = CANONICAL_MODEL.map(({ index }) => {
+    const [x, y] = getLandmark(face, index);
+    return [x, y] as [number, number];
+  });
+
+  // Start frontal at the depth implied by the eye span, centred on the landmarks
+  const leftOuter = getLandmark(face, LANDMARK_INDICES.LEFT_EYE_OUTER);
+  const rightOuter = getLandmark(face, LANDMARK_INDICES.RIGHT_EYE_OUTER);
+  const eyeSpan = Math.hypot(rightOuter[0] - leftOuter[0], rightOuter[1] - leftOuter[1]);
+  if (eyeSpan === 0) return null;
+
+  const tz = camera.focalLength * MODEL_EYE_SPAN / eyeSpan;
+  const bridge = getLandmark(face, LANDMARK_INDICES.NOSE_BRIDGE);
+  let params = [
+    0,
+    0,
+    Math.atan2(rightOuter[1] - leftOuter[1], rightOuter[0] - leftOuter[0]),
+    (bridge[0] - camera.cx) * tz / camera.focalLength,
+    (bridge[1] - camera.cy) * tz / camera.focalLength,
+    tz,
+  ];
+
+  let current = residuals(params, observed, camera);
+  let cost = sumOfSquares(current);
+  let lambda = 1e-3;
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    // Forward-difference Jacobian; steps scaled to radians and millimetres
+    const jacobian = params.map((value, p) => {
+      const step = p < 3 ? 1e-5 : Math.max(Math.abs(value), 1) * 1e-5;
+      const shifted = [...params];
+      shifted[p] += step;
+      return residuals(shifted, observed, camera).map((r, i) => (r - current[i]) / step);
+    });
+
+    const jtj = jacobian.map(a => jacobian.map(b => a.reduce((sum, v, i) => sum + v * b[i], 0)));
+    const jtr = jacobian.map(a => a.reduce((sum, v, i) => sum + v * current[i], 0));
+
+    let improved = false;
+    while (lambda < 1e8) {
+      const damped = jtj.map((row, i) => row.map((v, j) => (i === j ? v * (1 + lambda) : v)));
+      const delta = solveLinear(damped, jtr.map(v => -v));
+      if (!delta) break;
+
+      const candidate = params.map((v, i) => v + delta[i]);
+      const next = residuals(candidate, observed, camera);
+      const nextCost = sumOfSquares(next);
+
+      if (nextCost < cost) {
+        const gain = cost - nextCost;
+        params = candidate;
+        current = next;
+        cost = nextCost;
+        lambda = Math.max(lambda / 10, 1e-9);
+        improved = gain > CONVERGENCE_EPSILON * Math.max(cost, 1);
+        break;
+      }
+      lambda *= 10;
+    }
+
+    if (!improved) break;
+  }
+
+  const [yaw, pitch, roll, x, y, z] = params;
+  if (!params.every(Number.isFinite) || z <= 0) return null;
+
+  return {
+    yaw: yaw * TO_DEGREES,
+    pitch: pitch * TO_DEGREES,
+    roll: roll * TO_DEGREES,
+    translation: { x, y, z },
+    reprojectionError: Math.sqrt(cost / CANONICAL_MODEL.length),
+  };
+}
@@ -2,7 +2,18 @@
 
 export * from './landmarks';
 export * from './ear';
+export * from './mar';
+export * from './smile';
+export * from './eyebrow';
+export * from './gaze';
 export * from './pose';
+export * from './headPose3d';
+export * from './frameQuality';
+export * from './texture';
+export * from './reflection';
+export * from './pulse';
+export * from './motion';
 export * from './antiSpoof';
 export * from './smoothing';
 export * from './audio';
+export * from './capture';
@@ -23,6 +23,10 @@ export const LANDMARK_INDICES = {
   RIGHT_EYE_INNER: 362,
   RIGHT_EYE_OUTER: 263,
   
+  // Iris centers (refineLandmarks only), named like the eyes above
+  LEFT_IRIS_CENTER: 468,
+  RIGHT_IRIS_CENTER: 473,
+  
   // Eyebrows
   LEFT_EYEBROW: [70, 63, 105, 66, 107],
   RIGHT_EYEBROW: [336, 296, 334, 293, 300],
@@ -33,6 +37,12 @@ export const LANDMARK_INDICES = {
   LEFT_MOUTH: 61,
   RIGHT_MOUTH: 291,
   
+  // Inner lip contour (for mouth aspect ratio)
+  MOUTH_INNER_LEFT: 78,
+  MOUTH_INNER_RIGHT: 308,
+  INNER_UPPER_LIP: [81, 13, 311],
+  INNER_LOWER_LIP: [178, 14, 402],
+  
   // Face contour
   LEFT_CHEEK: 234,
   RIGHT_CHEEK: 454,
@@ -0,0 +1,52 @@
+// Mouth Aspect Ratio (MAR) calculation for mouth opening detection
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+/**
+ * Calculate Mouth Aspect Ratio (MAR) from the inner lip contour
+ * MAR = (|u1-l1| + |u2-l2| + |u3-l3|) / (2 * |left-right|)
+ * where u/l are upper/lower inner lip points from left to right
+ */
+export function calculateMAR(face: Face): number {
+  const left = getLandmark(face, LANDMARK_INDICES.MOUTH_INNER_LEFT);
+  const right = getLandmark(face, LANDMARK_INDICES.MOUTH_INNER_RIGHT);
+  
+  // Horizontal distance
+  const h = Math.sqrt(
+    Math.pow(left[0] - right[0], 2) + Math.pow(left[1] - right[1], 2)
+  );
+  
+  if (h === 0) return 0;
+  
+  // Vertical distances
+  let v = 0;
+  for (let i = 0; i < LANDMARK_INDICES.INNER_UPPER_LIP.length; i++) {
+    const upper = getLandmark(face, LANDMARK_INDICES.INNER_UPPER_LIP[i]);
+    const lower = getLandmark(face, LANDMARK_INDICES.INNER_LOWER_LIP[i]);
+    v += Math.sqrt(
+      Math.pow(upper[0] - lower[0], 2) + Math.pow(upper[1] - lower[1], 2)
+    );
+  }
+  
+  return v / (2 * h);
+}
+
+/**
+ * Determine mouth state from MAR relative to the closed-mouth baseline
+ * Uses hysteresis so small jitter around one threshold doesn't flip the state
+ */
+export function getMouthState(
+  currentMAR: number,
+  closedBaseline: number,
+  wasOpen: boolean,
+  openDelta: number,
+  closeDelta: number
+): 'OPEN' | 'CLOSED' {
+  const delta = currentMAR - closedBaseline;
+  
+  if (wasOpen) {
+    return delta <= closeDelta ? 'CLOSED' : 'OPEN';
+  }
+  return delta >= openDelta ? 'OPEN' : 'CLOSED';
+}
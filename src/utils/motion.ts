@@ -0,0 +1,49 @@
+// Oscillation analysis for continuous head motion (nod / shake)
+
+/**
+ * Count direction reversals in a signal using a zig-zag filter
+ * A leg only counts once the signal has moved at least `amplitude` away from
+ * the last extreme, so jitter and slow drift are ignored
+ */
+export function countReversals(values: number[], amplitude: number): number {
+  if (values.length === 0) return 0;
+
+  let direction = 0; // 1 = rising, -1 = falling, 0 = not yet moving
+  let min = values[0];
+  let max = values[0];
+  let extreme = values[0];
+  let reversals = 0;
+
+  for (const value of values) {
+    if (direction === 0) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+
+      if (value - min >= amplitude) {
+        direction = 1;
+        extreme = value;
+      } else if (max - value >= amplitude) {
+        direction = -1;
+        extreme = value;
+      }
+    } else if (direction === 1) {
+      if (value > extreme) {
+        extreme = value;
+      } else if (extreme - value >= amplitude) {
+        direction = -1;
+        extreme = value;
+        reversals++;
+      }
+    } else {
+      if (value < extreme) {
+        extreme = value;
+      } else if (value - extreme >= amplitude) {
+        direction = 1;
+        extreme = value;
+        reversals++;
+      }
+    }
+  }
+
+  return reversals;
+}
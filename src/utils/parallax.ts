@@ -0,0 +1,129 @@
+// Head turn parallax - checks that a turn moves the landmarks like a rigid 3D head
+// The nose sits well in front of the cheeks, so a real turn shifts it across the face in the image
+// and brings one side of the face closer to the camera. A photo or screen tilted until the 2D pose
+// metrics read as a turn moves as a plane, and its parallax does not match the measured angle.
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { LivenessStep } from '@/types/liveness';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+export type ParallaxAxis = 'yaw' | 'pitch';
+
+// Parallax of one frame, normalized by the 3D distance between the cheeks
+export interface ParallaxSample {
+  step: LivenessStep;
+  angle: number; // Measured head angle about the step's axis (degrees)
+  image: number; // Nose offset from the cheek line in the image
+  depth: number; // Landmark z difference across the face (right minus left cheek, or forehead minus cheeks)
+}
+
+export interface ParallaxMetrics {
+  axis: ParallaxAxis;
+  imageRatio: number; // Observed image parallax over that of a rigid head turned by the same angles
+  depthRatio: number; // Same for the z parallax
+  consistency: number; // 1 when both ratios match a rigid head, towards 0 as either falls short or overshoots
+  angleRange: number; // Spread of the measured angles (degrees)
+  samples: number;
+}
+
+export const PARALLAX_CONFIG = {
+  // Parallax per unit sine of the angle for a rigid head of average proportions, from the nose
+  // tip, forehead and cheek vertices (1, 10, 234, 454) of MediaPipe's canonical_face_model.obj
+  EXPECTED_SLOPE: {
+    yaw: { image: -0.647, depth: -1 },
+    pitch: { image: 0.647, depth: -0.495 },
+  },
+
+  // Samples kept for the step being analyzed
+  MAX_SAMPLES: 90,
+  MIN_SAMPLES: 5,
+
+  // Spread of measured angles needed before judging, and for full confidence (degrees)
+  MIN_ANGLE_RANGE: 4,
+  FULL_ANGLE_RANGE: 10,
+
+  // Consistency treated as planar motion, and as a rigid head
+  PLANAR_CONSISTENCY: 0.35,
+  RIGID_CONSISTENCY: 0.6,
+} as const;
+
+// Steps whose motion is analyzed, and the axis each turns about
+export const PARALLAX_STEP_AXES: Record<string, ParallaxAxis> = {
+  TURN_LEFT: 'yaw',
+  TURN_RIGHT: 'yaw',
+  TURN_UP: 'pitch',
+  TURN_DOWN: 'pitch',
+};
+
+/**
+ * Image and depth parallax of a face about one axis; null when the cheeks coincide
+ */
+export function measureParallax(face: Face, axis: ParallaxAxis): { image: number; depth: number } | null {
+  const nose = getLandmark(face, LANDMARK_INDICES.NOSE_TIP);
+  const forehead = getLandmark(face, LANDMARK_INDICES.FOREHEAD);
+  const leftCheek = getLandmark(face, LANDMARK_INDICES.LEFT_CHEEK);
+  const rightCheek = getLandmark(face, LANDMARK_INDICES.RIGHT_CHEEK);
+
+  // The 3D cheek distance does not change as the head turns
+  const span = Math.hypot(
+    rightCheek[0] - leftCheek[0],
+    rightCheek[1] - leftCheek[1],
+    rightCheek[2] - leftCheek[2]
+  );
+  if (span === 0) return null;
+
+  const mid = [0, 1, 2].map(i => (leftCheek[i] + rightCheek[i]) / 2);
+
+  if (axis === 'yaw') {
+    return { image: (nose[0] - mid[0]) / span, depth: (rightCheek[2] - leftCheek[2]) / span };
+  }
+  return { image: (nose[1] - mid[1]) / span, depth: (forehead[2] - mid[2]) / span };
+}
+
+/**
+ * Least-squares slope of `values` against `xs`; 0 when the xs do not vary
+ */
+function slope(xs: number[], values: number[]): number {
+  const n = xs.length;
+  const meanX = xs.reduce((a, b) => a + b, 0) / n;
+  const meanV = values.reduce((a, b) => a + b, 0) / n;
+
+  let covariance = 0;
+  let variance = 0;
+  for (let i = 0; i < n; i++) {
+    covariance += (xs[i] - meanX) * (values[i] - meanV);
+    variance += (xs[i] - meanX) ** 2;
+  }
+  return variance > 0 ? covariance / variance : 0;
+}
+
+/**
+ * Agreement of an observed/expected ratio with 1; a reversed sign does not agree at all
+ */
+const agreement = (ratio: number) => (ratio > 0 ? Math.min(ratio, 1 / ratio) : 0);
+
+/**
+ * Compare how the parallax changed with the measured angle against a rigid head.
+ * Fitting slopes rather than comparing single frames ignores each face's own proportions
+ * and its resting pose. A tilted plane shows too little image parallax for the measured angle,
+ * too much z parallax, or both. Returns null until PARALLAX_CONFIG.MIN_SAMPLES are in.
+ */
+export function analyzeParallax(samples: ParallaxSample[], axis: ParallaxAxis): ParallaxMetrics | null {
+  if (samples.length < PARALLAX_CONFIG.MIN_SAMPLES) return null;
+
+  const angles = samples.map(s => s.angle);
+  const sines = angles.map(angle => Math.sin((angle * Math.PI) / 180));
+  const expected = PARALLAX_CONFIG.EXPECTED_SLOPE[axis];
+
+  const imageRatio = slope(sines, samples.map(s => s.image)) / expected.image;
+  const depthRatio = slope(sines, samples.map(s => s.depth)) / expected.depth;
+
+  return {
+    axis,
+    imageRatio,
+    depthRatio,
+    consistency: Math.min(agreement(imageRatio), agreement(depthRatio)),
+    angleRange: Math.max(...angles) - Math.min(...angles),
+    samples: samples.length,
+  };
+}
@@ -0,0 +1,178 @@
+// Remote photoplethysmography (rPPG) - the pulse as seen in the skin color
+// Blood volume changes with every heartbeat and slightly modulates how much green light the skin
+// absorbs. Prints show no such rhythm, and screens rarely reproduce it through a second camera.
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { BoundingBox } from '@/types/liveness';
+import type { PixelBuffer } from './frameQuality';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+// Mean green level of the skin regions at one point in time
+export interface PulseSample {
+  t: number;     // Epoch ms
+  green: number; // 0-255
+}
+
+export interface PulseMetrics {
+  heartRate: number; // Strongest in-band frequency (beats per minute)
+  snr: number;       // Power around the peak over the rest of the band (dB)
+  score: number;     // Likelihood that a pulse is present (0-1)
+  duration: number;  // Length of the analyzed signal (ms)
+}
+
+export const PULSE_CONFIG = {
+  // Side of each skin region as a ratio of the face width
+  REGION_FACE_RATIO: 0.15,
+
+  // Signal kept for the analysis, and the minimum before judging
+  WINDOW_MS: 10000,
+  MIN_DURATION_MS: 6000,
+
+  // Uniform rate the irregular camera frames are resampled to (Hz)
+  RESAMPLE_HZ: 15,
+
+  // Moving-average detrending window; removes lighting drift and slow head motion
+  DETREND_WINDOW_MS: 1500,
+
+  // Plausible heart rates: 42-180 bpm
+  MIN_HZ: 0.7,
+  MAX_HZ: 3,
+  FREQUENCY_STEP_HZ: 1 / 60,
+
+  // Spectrum within this distance of the peak counts as signal
+  PEAK_HALF_WIDTH_HZ: 0.15,
+
+  // SNR mapped to a 0-1 presence score
+  SNR_LOW: -3,
+  SNR_HIGH: 3,
+
+  // SNR is clamped to +-this (dB) so flat or perfectly clean signals stay finite
+  SNR_LIMIT: 30,
+} as const;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Square skin regions on the forehead and both cheeks, in video pixels and clamped to the frame.
+ * The contour landmarks sit on the face edge, so each region is pulled in towards the nose.
+ */
+export function getPulseSampleRegions(face: Face, frameWidth: number, frameHeight: number): BoundingBox[] {
+  const nose = getLandmark(face, LANDMARK_INDICES.NOSE_TIP);
+  const bridge = getLandmark(face, LANDMARK_INDICES.NOSE_BRIDGE);
+  const forehead = getLandmark(face, LANDMARK_INDICES.FOREHEAD);
+  const leftCheek = getLandmark(face, LANDMARK_INDICES.LEFT_CHEEK);
+  const rightCheek = getLandmark(face, LANDMARK_INDICES.RIGHT_CHEEK);
+
+  const faceWidth = Math.abs(rightCheek[0] - leftCheek[0]);
+  const size = Math.round(faceWidth * PULSE_CONFIG.REGION_FACE_RATIO);
+  if (size < 4) return [];
+
+  const lerp = (from: number[], to: number[], amount: number) => [
+    from[0] + (to[0] - from[0]) * amount,
+    from[1] + (to[1] - from[1]) * amount,
+  ];
+  const centers = [lerp(forehead, bridge, 0.35), lerp(leftCheek, nose, 0.4), lerp(rightCheek, nose, 0.4)];
+
+  return centers.map(([cx, cy]) => ({
+    x: Math.round(Math.min(Math.max(cx - size / 2, 0), frameWidth - size)),
+    y: Math.round(Math.min(Math.max(cy - size / 2, 0), frameHeight - size)),
+    width: size,
+    height: size,
+  }));
+}
+
+/**
+ * Mean green level (0-255) of an RGBA buffer
+ */
+export function getMeanGreen({ data, width, height }: PixelBuffer): number {
+  const count = width * height;
+  if (count === 0) return 0;
+
+  let sum = 0;
+  for (let i = 0; i < count; i++) sum += data[i * 4 + 1];
+  return sum / count;
+}
+
+/**
+ * Linear interpolation of the samples onto a uniform time grid
+ */
+function resample(samples: PulseSample[], rate: number): number[] {
+  const step = 1000 / rate;
+  const start = samples[0].t;
+  const end = samples[samples.length - 1].t;
+  const values: number[] = [];
+
+  let i = 0;
+  for (let t = start; t <= end; t += step) {
+    while (i < samples.length - 2 && samples[i + 1].t < t) i++;
+    const a = samples[i];
+    const b = samples[i + 1];
+    const span = b.t - a.t;
+    values.push(span > 0 ? a.green + ((b.green - a.green) * (t - a.t)) / span : a.green);
+  }
+
+  return values;
+}
+
+/**
+ * Relative change from a centered moving average (a high-pass that removes drift)
+ */
+function detrend(values: number[], window: number): number[] {
+  const half = Math.floor(window / 2);
+  return values.map((value, i) => {
+    const from = Math.max(0, i - half);
+    const to = Math.min(values.length, i + half + 1);
+    let sum = 0;
+    for (let j = from; j < to; j++) sum += values[j];
+    const mean = sum / (to - from);
+    return mean > 0 ? value / mean - 1 : 0;
+  });
+}
+
+/**
+ * Estimate the heart rate and pulse presence from the skin green samples.
+ * The signal is resampled, detrended and Hann windowed; only the band of plausible heart rates
+ * is evaluated (band-pass). Returns null until the samples span PULSE_CONFIG.MIN_DURATION_MS.
+ */
+export function analyzePulse(samples: PulseSample[]): PulseMetrics | null {
+  if (samples.length < 2) return null;
+  const duration = samples[samples.length - 1].t - samples[0].t;
+  if (duration < PULSE_CONFIG.MIN_DURATION_MS) return null;
+
+  const rate = PULSE_CONFIG.RESAMPLE_HZ;
+  const window = Math.round((PULSE_CONFIG.DETREND_WINDOW_MS / 1000) * rate);
+  const signal = detrend(resample(samples, rate), window);
+  const n = signal.length;
+  const windowed = signal.map((v, i) => v * (0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1))));
+
+  const spectrum: { hz: number; power: number }[] = [];
+  for (let hz = PULSE_CONFIG.MIN_HZ; hz <= PULSE_CONFIG.MAX_HZ + 1e-9; hz += PULSE_CONFIG.FREQUENCY_STEP_HZ) {
+    const omega = (2 * Math.PI * hz) / rate;
+    let re = 0;
+    let im = 0;
+    for (let i = 0; i < n; i++) {
+      re += windowed[i] * Math.cos(omega * i);
+      im -= windowed[i] * Math.sin(omega * i);
+    }
+    spectrum.push({ hz, power: re * re + im * im });
+  }
+
+  const peak = spectrum.reduce((best, bin) => (bin.power > best.power ? bin : best));
+  let signalPower = 0;
+  let noisePower = 0;
+  for (const { hz, power } of spectrum) {
+    if (Math.abs(hz - peak.hz) <= PULSE_CONFIG.PEAK_HALF_WIDTH_HZ) signalPower += power;
+    else noisePower += power;
+  }
+
+  // A perfectly flat signal has no pulse; a perfectly clean one has no noise
+  const limit = PULSE_CONFIG.SNR_LIMIT;
+  const snr = signalPower === 0
+    ? -limit
+    : noisePower === 0
+      ? limit
+      : Math.min(limit, Math.max(-limit, 10 * Math.log10(signalPower / noisePower)));
+  const score = clamp01((snr - PULSE_CONFIG.SNR_LOW) / (PULSE_CONFIG.SNR_HIGH - PULSE_CONFIG.SNR_LOW));
+
+  return { heartRate: Math.round(peak.hz * 60), snr, score, duration };
+}
@@ -0,0 +1,147 @@
+// Screen reflection analysis for the COLOR_FLASH challenge
+// A real face a few centimeters from the display picks up its light far more strongly than the
+// room behind it, so the face's color shifts with each flash relative to the background.
+// A replayed video or a photo shows no such shift, or one that does not follow the sequence.
+
+import type { BoundingBox } from '@/types/liveness';
+import type { PixelBuffer } from './frameQuality';
+
+export type FlashColor = 'RED' | 'GREEN' | 'BLUE';
+
+// Mean channel values (0-255)
+export interface RGB {
+  r: number;
+  g: number;
+  b: number;
+}
+
+// Mean color of the face skin and of the background in one frame
+export interface ReflectionSample {
+  face: RGB;
+  background: RGB;
+}
+
+export const FLASH_COLORS: Record<FlashColor, RGB> = {
+  RED: { r: 255, g: 0, b: 0 },
+  GREEN: { r: 0, g: 255, b: 0 },
+  BLUE: { r: 0, g: 0, b: 255 },
+};
+
+export const REFLECTION_CONFIG = {
+  // Inset of the skin region from each side of the face box (ratio of the box)
+  FACE_INSET: 0.25,
+
+  // Margin around the face box excluded from the background (hair, ears, shadows)
+  BACKGROUND_MARGIN: 0.25,
+
+  // Fewer pixels than this in either region makes the sample unreliable
+  MIN_REGION_PIXELS: 16,
+} as const;
+
+/**
+ * CSS color to fill the screen with for a flash
+ */
+export function getFlashColorCss(color: FlashColor): string {
+  const { r, g, b } = FLASH_COLORS[color];
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+/**
+ * Mean face skin and background color of a frame.
+ * The face box is in buffer pixels; the background is everything beside and above the
+ * (padded) face, leaving out the torso below it. Returns null when a region is too small.
+ */
+export function measureReflection({ data, width, height }: PixelBuffer, faceBox: BoundingBox): ReflectionSample | null {
+  const inset = REFLECTION_CONFIG.FACE_INSET;
+  const margin = REFLECTION_CONFIG.BACKGROUND_MARGIN;
+
+  const faceLeft = faceBox.x + faceBox.width * inset;
+  const faceRight = faceBox.x + faceBox.width * (1 - inset);
+  const faceTop = faceBox.y + faceBox.height * inset;
+  const faceBottom = faceBox.y + faceBox.height * (1 - inset);
+
+  const padLeft = faceBox.x - faceBox.width * margin;
+  const padRight = faceBox.x + faceBox.width * (1 + margin);
+  const padTop = faceBox.y - faceBox.height * margin;
+  const faceBoxBottom = faceBox.y + faceBox.height;
+
+  const face = { r: 0, g: 0, b: 0, count: 0 };
+  const background = { r: 0, g: 0, b: 0, count: 0 };
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let target: typeof face | null = null;
+      if (x >= faceLeft && x < faceRight && y >= faceTop && y < faceBottom) {
+        target = face;
+      } else if (y < faceBoxBottom && (x < padLeft || x >= padRight || y < padTop)) {
+        target = background;
+      }
+      if (!target) continue;
+
+      const p = (y * width + x) * 4;
+      target.r += data[p];
+      target.g += data[p + 1];
+      target.b += data[p + 2];
+      target.count++;
+    }
+  }
+
+  if (face.count < REFLECTION_CONFIG.MIN_REGION_PIXELS || background.count < REFLECTION_CONFIG.MIN_REGION_PIXELS) {
+    return null;
+  }
+
+  const mean = ({ r, g, b, count }: typeof face): RGB => ({ r: r / count, g: g / count, b: b / count });
+  return { face: mean(face), background: mean(background) };
+}
+
+/**
+ * Chromaticity (channel share of the total) of a color; independent of brightness
+ */
+function chromaticity({ r, g, b }: RGB): RGB {
+  const sum = r + g + b;
+  if (sum === 0) return { r: 1 / 3, g: 1 / 3, b: 1 / 3 };
+  return { r: r / sum, g: g / sum, b: b / sum };
+}
+
+/**
+ * Face chromaticity relative to the background. Light that tints the whole scene
+ * (auto white balance, a lamp, the attacker's own screen) cancels out.
+ */
+export function getChromaticShift({ face, background }: ReflectionSample): RGB {
+  const f = chromaticity(face);
+  const bg = chromaticity(background);
+  return { r: f.r - bg.r, g: f.g - bg.g, b: f.b - bg.b };
+}
+
+/**
+ * Channel values of each color after removing their mean over the sequence
+ */
+function centered(colors: RGB[]): number[] {
+  const mean = colors.reduce((sum, c) => ({ r: sum.r + c.r, g: sum.g + c.g, b: sum.b + c.b }), { r: 0, g: 0, b: 0 });
+  const n = colors.length;
+  return colors.flatMap(c => [c.r - mean.r / n, c.g - mean.g / n, c.b - mean.b / n]);
+}
+
+/**
+ * Pearson correlation between the emitted flash colors and the chromatic shift measured
+ * while each was shown (one mean shift per flash). Near 1 when the face reflected the
+ * sequence, around 0 or negative otherwise; 0 when either side does not vary.
+ */
+export function correlateReflection(emitted: FlashColor[], shifts: RGB[]): number {
+  if (emitted.length !== shifts.length || emitted.length < 2) return 0;
+
+  const x = centered(emitted.map(color => chromaticity(FLASH_COLORS[color])));
+  const y = centered(shifts);
+
+  let xy = 0;
+  let xx = 0;
+  let yy = 0;
+  for (let i = 0; i < x.length; i++) {
+    xy += x[i] * y[i];
+    xx += x[i] * x[i];
+    yy += y[i] * y[i];
+  }
+
+  if (xx === 0 || yy === 0) return 0;
+  return xy / Math.sqrt(xx * yy);
+}
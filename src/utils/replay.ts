@@ -0,0 +1,199 @@
+// Replayed video detection - looped or replayed footage repeats itself
+// A video file played through a virtual camera shows exactly the same frames again each time it
+// loops, and duplicates frames when its frame rate is below the camera's. A replay filmed off a
+// screen loses exact repeats to sensor noise, but the face still retraces the same path every loop.
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { BoundingBox } from '@/types/liveness';
+import type { PixelBuffer } from './frameQuality';
+import { calculateBoundingBox } from './landmarks';
+
+// Face crop fingerprint of the sampled video frame, with frame timing where the browser reports it
+export interface VideoFrameSample {
+  hash: number;             // FNV-1a hash of the downscaled face crop
+  presentedFrames?: number; // Frames the video presented since the previous sample (requestVideoFrameCallback)
+  comparedFrames?: number;  // Of those, frames that directly followed another presented frame
+  duplicateFrames?: number; // Of the compared frames, those identical to the frame before
+}
+
+// One frame of the replay history
+export interface ReplayFrame {
+  t: number; // Epoch ms
+  centerX: number;
+  centerY: number;
+  faceWidth: number;
+  hash: number | null;
+  presentedFrames: number;
+  comparedFrames: number;
+  duplicateFrames: number;
+}
+
+export interface ReplayMetrics {
+  repeatRatio: number;           // Share of hashed frames that return to an earlier frame exactly
+  duplicateRatio: number | null; // Share of consecutive presented frames that are identical; null without timing
+  presentedFps: number | null;   // Frame rate the video presented
+  contentFps: number | null;     // Frame rate of distinct frames
+  loopPeriod: number | null;     // Lag at which the face trajectory best repeats (ms)
+  loopResidual: number | null;   // Trajectory difference at that lag over the motion's spread; null without motion
+  duration: number;              // Length of the history (ms)
+}
+
+export const REPLAY_CONFIG = {
+  // Side of the downscaled face crop that is hashed
+  CROP_SIZE: 16,
+
+  // History kept for the analysis, and the minimum before judging
+  WINDOW_MS: 20000,
+  MIN_DURATION_MS: 3000,
+
+  // Share of frames returning to an exact earlier frame, and of duplicated presented frames,
+  // treated as a replay; duplicates are only judged over enough compared frames
+  REPEAT_RATIO: 0.2,
+  DUPLICATE_RATIO: 0.15,
+  MIN_COMPARED_FRAMES: 30,
+
+  // The latest stretch of the face trajectory is matched against earlier stretches
+  // at least MIN_LOOP_MS back; frames are paired when their times differ by at most MAX_ALIGN_MS
+  LOOP_MATCH_MS: 3000,
+  MIN_LOOP_MS: 2000,
+  MAX_ALIGN_MS: 50,
+  MIN_ALIGNED_SHARE: 0.8,
+
+  // Spread of the trajectory (face widths) needed to judge loops; a still face repeats trivially
+  MIN_LOOP_MOTION: 0.01,
+
+  // Trajectory difference over its spread treated as a loop; unrelated motion scores about 1.4
+  LOOP_RESIDUAL: 0.15,
+} as const;
+
+/**
+ * Face bounding box in video pixels, rounded and clamped to the frame; null when too small to hash
+ */
+export function getReplayCropRegion(face: Face, frameWidth: number, frameHeight: number): BoundingBox | null {
+  const box = calculateBoundingBox(face);
+  const x = Math.max(0, Math.floor(box.x));
+  const y = Math.max(0, Math.floor(box.y));
+  const width = Math.min(frameWidth, Math.ceil(box.x + box.width)) - x;
+  const height = Math.min(frameHeight, Math.ceil(box.y + box.height)) - y;
+  if (width < REPLAY_CONFIG.CROP_SIZE || height < REPLAY_CONFIG.CROP_SIZE) return null;
+
+  return { x, y, width, height };
+}
+
+/**
+ * 32-bit FNV-1a hash of the RGB channels of an RGBA buffer.
+ * Sensor noise changes some pixel of a live frame every time; only a decoded video repeats exactly.
+ */
+export function hashPixels({ data, width, height }: PixelBuffer): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < width * height * 4; i++) {
+    if (i % 4 === 3) continue;
+    hash ^= data[i];
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Index of the frame closest in time to `t` (frames are in time order)
+ */
+function nearestFrame(frames: ReplayFrame[], t: number): number {
+  let lo = 0;
+  let hi = frames.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (frames[mid].t < t) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo > 0 && t - frames[lo - 1].t < frames[lo].t - t ? lo - 1 : lo;
+}
+
+/**
+ * Best match of the latest stretch of the face trajectory with an earlier one.
+ * Position and size are in face widths, so the lag that matches best is found whatever the distance.
+ * Shorter lags are tried first and the search stops after the first run of matching lags,
+ * so a multiple of the loop's period does not win on noise.
+ */
+function findTrajectoryLoop(frames: ReplayFrame[]): { period: number; residual: number } | null {
+  const end = frames[frames.length - 1].t;
+  const start = end - REPLAY_CONFIG.LOOP_MATCH_MS;
+  if (start - REPLAY_CONFIG.MIN_LOOP_MS < frames[0].t) return null;
+
+  const scale = frames.reduce((sum, f) => sum + f.faceWidth, 0) / frames.length;
+  if (scale === 0) return null;
+  const point = (f: ReplayFrame) => [f.centerX / scale, f.centerY / scale, f.faceWidth / scale];
+
+  const recent = frames.filter(f => f.t >= start);
+  const points = recent.map(point);
+  const mean = [0, 1, 2].map(c => points.reduce((sum, p) => sum + p[c], 0) / points.length);
+  const spread = Math.sqrt(
+    points.reduce((sum, p) => sum + p.reduce((s, v, c) => s + (v - mean[c]) ** 2, 0), 0) / points.length
+  );
+  if (spread < REPLAY_CONFIG.MIN_LOOP_MOTION) return null;
+
+  let best: { period: number; residual: number } | null = null;
+  for (const candidate of [...frames].reverse()) {
+    const lag = end - candidate.t;
+    if (lag < REPLAY_CONFIG.MIN_LOOP_MS || start - lag < frames[0].t) continue;
+
+    let sum = 0;
+    let aligned = 0;
+    recent.forEach((frame, i) => {
+      const match = frames[nearestFrame(frames, frame.t - lag)];
+      if (Math.abs(match.t - (frame.t - lag)) > REPLAY_CONFIG.MAX_ALIGN_MS) return;
+      const earlier = point(match);
+      sum += points[i].reduce((s, v, c) => s + (v - earlier[c]) ** 2, 0);
+      aligned++;
+    });
+    if (aligned < recent.length * REPLAY_CONFIG.MIN_ALIGNED_SHARE) continue;
+
+    const residual = Math.sqrt(sum / aligned) / spread;
+    const isLoop = residual <= REPLAY_CONFIG.LOOP_RESIDUAL;
+    if (best && best.residual <= REPLAY_CONFIG.LOOP_RESIDUAL && !isLoop) break;
+    if (!best || residual < best.residual) best = { period: lag, residual };
+  }
+
+  return best;
+}
+
+/**
+ * Look for exact frame repeats, duplicated frames and a looping face trajectory in the history.
+ * Returns null until the history spans REPLAY_CONFIG.MIN_DURATION_MS.
+ */
+export function analyzeReplay(frames: ReplayFrame[]): ReplayMetrics | null {
+  if (frames.length < 2) return null;
+  const duration = frames[frames.length - 1].t - frames[0].t;
+  if (duration < REPLAY_CONFIG.MIN_DURATION_MS) return null;
+
+  // A repeat shows a frame seen before after the picture has changed; a frozen stream does not count
+  const seen = new Set<number>();
+  let hashed = 0;
+  let repeats = 0;
+  frames.forEach((frame, i) => {
+    if (frame.hash === null) return;
+    hashed++;
+    if (seen.has(frame.hash) && frames[i - 1]?.hash !== frame.hash) repeats++;
+    seen.add(frame.hash);
+  });
+
+  // The first frame's counts cover time before the history
+  const timed = frames.slice(1);
+  const presented = timed.reduce((sum, f) => sum + f.presentedFrames, 0);
+  const compared = timed.reduce((sum, f) => sum + f.comparedFrames, 0);
+  const duplicates = timed.reduce((sum, f) => sum + f.duplicateFrames, 0);
+  const hasTiming = compared >= REPLAY_CONFIG.MIN_COMPARED_FRAMES;
+  const duplicateRatio = hasTiming ? duplicates / compared : null;
+  const presentedFps = hasTiming ? (presented * 1000) / duration : null;
+
+  const loop = findTrajectoryLoop(frames);
+
+  return {
+    repeatRatio: hashed > 0 ? repeats / hashed : 0,
+    duplicateRatio,
+    presentedFps,
+    contentFps: presentedFps !== null && duplicateRatio !== null ? presentedFps * (1 - duplicateRatio) : null,
+    loopPeriod: loop?.period ?? null,
+    loopResidual: loop?.residual ?? null,
+    duration,
+  };
+}
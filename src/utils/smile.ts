@@ -0,0 +1,73 @@
+// Smile metrics from mouth landmarks
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import { getLandmark, getInterOcularDistance, LANDMARK_INDICES } from './landmarks';
+
+export interface SmileMetrics {
+  mouthWidth: number;   // Mouth corner distance / inter-ocular distance
+  lipCurvature: number; // Corner lift above the lip center / mouth width (positive = corners up)
+}
+
+/**
+ * Calculate mouth width normalized by inter-ocular distance
+ * Smiling stretches the mouth sideways, independent of face size/distance
+ */
+export function calculateMouthWidth(face: Face): number {
+  const leftCorner = getLandmark(face, LANDMARK_INDICES.LEFT_MOUTH);
+  const rightCorner = getLandmark(face, LANDMARK_INDICES.RIGHT_MOUTH);
+  const interOcular = getInterOcularDistance(face);
+  
+  if (interOcular === 0) return 0;
+  
+  const width = Math.sqrt(
+    Math.pow(rightCorner[0] - leftCorner[0], 2) +
+    Math.pow(rightCorner[1] - leftCorner[1], 2)
+  );
+  
+  return width / interOcular;
+}
+
+/**
+ * Calculate lip curvature from mouth corners relative to the lip center
+ * Image Y grows downward, so raised corners give a positive value
+ */
+export function calculateLipCurvature(face: Face): number {
+  const leftCorner = getLandmark(face, LANDMARK_INDICES.LEFT_MOUTH);
+  const rightCorner = getLandmark(face, LANDMARK_INDICES.RIGHT_MOUTH);
+  const upperLip = getLandmark(face, LANDMARK_INDICES.UPPER_LIP);
+  const lowerLip = getLandmark(face, LANDMARK_INDICES.LOWER_LIP);
+  
+  const mouthWidth = Math.abs(rightCorner[0] - leftCorner[0]);
+  if (mouthWidth === 0) return 0;
+  
+  const lipCenterY = (upperLip[1] + lowerLip[1]) / 2;
+  const cornerY = (leftCorner[1] + rightCorner[1]) / 2;
+  
+  return (lipCenterY - cornerY) / mouthWidth;
+}
+
+/**
+ * Calculate all smile metrics for a face
+ */
+export function calculateSmileMetrics(face: Face): SmileMetrics {
+  return {
+    mouthWidth: calculateMouthWidth(face),
+    lipCurvature: calculateLipCurvature(face),
+  };
+}
+
+/**
+ * Combined smile score relative to a neutral baseline
+ * 0 = neutral, grows as the mouth widens and the corners lift
+ */
+export function getSmileScore(
+  current: SmileMetrics,
+  baseline: SmileMetrics
+): number {
+  const widthGain = baseline.mouthWidth > 0
+    ? current.mouthWidth / baseline.mouthWidth - 1
+    : 0;
+  const curvatureGain = current.lipCurvature - baseline.lipCurvature;
+  
+  return widthGain + curvatureGain;
+}
@@ -0,0 +1,281 @@
+// Texture analysis for screen and print attacks
+// Recaptured faces carry the display's pixel grid or the printer's halftone: periodic
+// high-frequency energy (moiré), quantized tones (banding) and unusual micro-texture (LBP)
+
+import type { Face } from '@tensorflow-models/face-landmarks-detection';
+import type { BoundingBox } from '@/types/liveness';
+import type { PixelBuffer } from './frameQuality';
+import { getLandmark, LANDMARK_INDICES } from './landmarks';
+
+export interface TextureMetrics {
+  highFrequency: number; // Share of spectral energy above half the Nyquist frequency (0-1)
+  moire: number;         // Strength of isolated high-frequency spectral peaks (0-1)
+  banding: number;       // Share of unused luma levels inside the used range (0-1)
+  lbpNonUniform: number; // Share of non-uniform local binary patterns (0-1)
+  lbpEntropy: number;    // Entropy of the LBP code histogram (bits, 0-8)
+  score: number;         // Weighted likelihood of a recaptured face (0-1)
+}
+
+export const TEXTURE_CONFIG = {
+  // Side of the square patch that is analyzed (power of two for the FFT)
+  PATCH_SIZE: 64,
+
+  // Patch side as a ratio of the face width, sampled at native resolution where possible
+  PATCH_FACE_RATIO: 0.25,
+
+  // Radius (ratio of Nyquist) above which spectral energy counts as high frequency
+  HIGH_FREQUENCY_RADIUS: 0.5,
+
+  // Peak-to-mean ratio (log10) of the high band: no moiré at the floor, full moiré one decade above
+  MOIRE_PEAK_FLOOR: 1.5,
+  MOIRE_PEAK_RANGE: 1,
+
+  // Luma range (levels) below which banding is not judged
+  MIN_BANDING_RANGE: 24,
+
+  // Neighbours must exceed the centre by this many levels to set an LBP bit (ignores sensor noise)
+  LBP_NOISE_LEVELS: 4,
+
+  // Each indicator ramps from 0 at LOW to 1 at HIGH
+  HIGH_FREQUENCY_LOW: 0.15,
+  HIGH_FREQUENCY_HIGH: 0.45,
+  BANDING_LOW: 0.3,
+  BANDING_HIGH: 0.7,
+  LBP_LOW: 0.2,
+  LBP_HIGH: 0.5,
+
+  WEIGHTS: {
+    highFrequency: 0.2,
+    moire: 0.35,
+    banding: 0.2,
+    lbp: 0.25,
+  },
+} as const;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const ramp = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+/**
+ * Square patch on the cheek that faces the camera, in video pixels and clamped to the frame
+ */
+export function getTextureSampleRegion(face: Face, frameWidth: number, frameHeight: number): BoundingBox | null {
+  const nose = getLandmark(face, LANDMARK_INDICES.NOSE_TIP);
+  const leftCheek = getLandmark(face, LANDMARK_INDICES.LEFT_CHEEK);
+  const rightCheek = getLandmark(face, LANDMARK_INDICES.RIGHT_CHEEK);
+
+  const faceWidth = Math.abs(rightCheek[0] - leftCheek[0]);
+  const size = Math.round(Math.min(TEXTURE_CONFIG.PATCH_SIZE, faceWidth * TEXTURE_CONFIG.PATCH_FACE_RATIO));
+  if (size < 8) return null;
+
+  // The cheek further from the nose is the one turned towards the camera
+  const cheek = Math.abs(leftCheek[0] - nose[0]) >= Math.abs(rightCheek[0] - nose[0]) ? leftCheek : rightCheek;
+  const cx = (cheek[0] + nose[0]) / 2;
+  const cy = (cheek[1] + nose[1]) / 2;
+
+  const x = Math.round(Math.min(Math.max(cx - size / 2, 0), frameWidth - size));
+  const y = Math.round(Math.min(Math.max(cy - size / 2, 0), frameHeight - size));
+  if (x < 0 || y < 0) return null;
+
+  return { x, y, width: size, height: size };
+}
+
+/**
+ * In-place radix-2 FFT of one row or column
+ */
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const angle = (-2 * Math.PI) / len;
+    for (let start = 0; start < n; start += len) {
+      for (let k = 0; k < len / 2; k++) {
+        const wr = Math.cos(angle * k);
+        const wi = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + len / 2;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Power spectrum of a square luma patch after mean removal and a Hann window
+ */
+function powerSpectrum(luma: Float64Array, size: number): Float64Array {
+  const mean = luma.reduce((sum, v) => sum + v, 0) / luma.length;
+  const hann = Array.from({ length: size }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1)));
+
+  const re = new Float64Array(size * size);
+  const im = new Float64Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      re[y * size + x] = (luma[y * size + x] - mean) * hann[x] * hann[y];
+    }
+  }
+
+  const rowRe = new Float64Array(size);
+  const rowIm = new Float64Array(size);
+  for (let pass = 0; pass < 2; pass++) {
+    for (let line = 0; line < size; line++) {
+      // First pass transforms rows, second pass columns
+      const index = (i: number) => (pass === 0 ? line * size + i : i * size + line);
+      for (let i = 0; i < size; i++) {
+        rowRe[i] = re[index(i)];
+        rowIm[i] = im[index(i)];
+      }
+      fft(rowRe, rowIm);
+      for (let i = 0; i < size; i++) {
+        re[index(i)] = rowRe[i];
+        im[index(i)] = rowIm[i];
+      }
+    }
+  }
+
+  const power = new Float64Array(size * size);
+  for (let i = 0; i < power.length; i++) power[i] = re[i] * re[i] + im[i] * im[i];
+  return power;
+}
+
+/**
+ * High-frequency share and moiré peak strength from the power spectrum
+ */
+function analyzeSpectrum(luma: Float64Array, size: number): { highFrequency: number; moire: number } {
+  const power = powerSpectrum(luma, size);
+  const half = size / 2;
+
+  let total = 0;
+  let high = 0;
+  let highCount = 0;
+  let highPeak = 0;
+
+  for (let v = 0; v < size; v++) {
+    for (let u = 0; u < size; u++) {
+      if (u === 0 && v === 0) continue;
+      const fu = u <= half ? u : u - size;
+      const fv = v <= half ? v : v - size;
+      const radius = Math.hypot(fu, fv) / half;
+      const p = power[v * size + u];
+
+      total += p;
+      if (radius > TEXTURE_CONFIG.HIGH_FREQUENCY_RADIUS) {
+        high += p;
+        highCount++;
+        highPeak = Math.max(highPeak, p);
+      }
+    }
+  }
+
+  if (total === 0 || high === 0) return { highFrequency: 0, moire: 0 };
+
+  const peakRatio = Math.log10(highPeak / (high / highCount));
+  return {
+    highFrequency: high / total,
+    moire: clamp01((peakRatio - TEXTURE_CONFIG.MOIRE_PEAK_FLOOR) / TEXTURE_CONFIG.MOIRE_PEAK_RANGE),
+  };
+}
+
+/**
+ * Share of empty luma levels between the 2nd and 98th percentile
+ */
+function analyzeBanding(levels: Uint8Array): number {
+  const histogram = new Uint32Array(256);
+  for (const level of levels) histogram[level]++;
+
+  const cutoff = levels.length * 0.02;
+  let low = 0;
+  for (let seen = 0; low < 255 && seen + histogram[low] <= cutoff; low++) seen += histogram[low];
+  let high = 255;
+  for (let seen = 0; high > 0 && seen + histogram[high] <= cutoff; high--) seen += histogram[high];
+
+  if (high - low + 1 < TEXTURE_CONFIG.MIN_BANDING_RANGE) return 0;
+
+  let empty = 0;
+  for (let level = low; level <= high; level++) {
+    if (histogram[level] === 0) empty++;
+  }
+  return empty / (high - low + 1);
+}
+
+/**
+ * Non-uniform pattern share and histogram entropy of 8-neighbour local binary patterns
+ */
+function analyzeLbp(levels: Uint8Array, size: number): { lbpNonUniform: number; lbpEntropy: number } {
+  // Neighbours clockwise from the top-left so bit transitions follow the circle
+  const offsets = [[-1, -1], [0, -1], [1, -1], [1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0]];
+  const histogram = new Uint32Array(256);
+  let count = 0;
+  let nonUniform = 0;
+
+  for (let y = 1; y < size - 1; y++) {
+    for (let x = 1; x < size - 1; x++) {
+      const center = levels[y * size + x] + TEXTURE_CONFIG.LBP_NOISE_LEVELS;
+      let code = 0;
+      offsets.forEach(([dx, dy], bit) => {
+        if (levels[(y + dy) * size + x + dx] > center) code |= 1 << bit;
+      });
+
+      // Uniform patterns have at most two 0/1 transitions around the circle
+      const rotated = ((code >> 1) | ((code & 1) << 7)) & 0xff;
+      let transitions = 0;
+      for (let diff = code ^ rotated; diff; diff &= diff - 1) transitions++;
+      if (transitions > 2) nonUniform++;
+
+      histogram[code]++;
+      count++;
+    }
+  }
+
+  let entropy = 0;
+  for (const n of histogram) {
+    if (n > 0) entropy -= (n / count) * Math.log2(n / count);
+  }
+
+  return { lbpNonUniform: count > 0 ? nonUniform / count : 0, lbpEntropy: entropy };
+}
+
+/**
+ * Texture metrics of a square RGBA patch (TEXTURE_CONFIG.PATCH_SIZE on each side)
+ */
+export function analyzeTexture({ data, width, height }: PixelBuffer): TextureMetrics {
+  const size = TEXTURE_CONFIG.PATCH_SIZE;
+  if (width !== size || height !== size) {
+    throw new Error(`Texture patch must be ${size}x${size}, got ${width}x${height}`);
+  }
+
+  const luma = new Float64Array(size * size);
+  const levels = new Uint8Array(size * size);
+  for (let i = 0; i < luma.length; i++) {
+    const p = i * 4;
+    luma[i] = 0.299 * data[p] + 0.587 * data[p + 1] + 0.114 * data[p + 2];
+    levels[i] = Math.round(luma[i]);
+  }
+
+  const { highFrequency, moire } = analyzeSpectrum(luma, size);
+  const banding = analyzeBanding(levels);
+  const { lbpNonUniform, lbpEntropy } = analyzeLbp(levels, size);
+
+  const { WEIGHTS } = TEXTURE_CONFIG;
+  const score =
+    ramp(highFrequency, TEXTURE_CONFIG.HIGH_FREQUENCY_LOW, TEXTURE_CONFIG.HIGH_FREQUENCY_HIGH) * WEIGHTS.highFrequency +
+    moire * WEIGHTS.moire +
+    ramp(banding, TEXTURE_CONFIG.BANDING_LOW, TEXTURE_CONFIG.BANDING_HIGH) * WEIGHTS.banding +
+    ramp(lbpNonUniform, TEXTURE_CONFIG.LBP_LOW, TEXTURE_CONFIG.LBP_HIGH) * WEIGHTS.lbp;
+
+  return { highFrequency, moire, banding, lbpNonUniform, lbpEntropy, score };
+}